@@ -1,4 +1,12 @@
 import dotenv from 'dotenv';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { HttpOptions } from '../services/NSApiService.js';
+import type { ClientCredentials } from '../services/ClientAuthenticator.js';
+
+export type CacheStoreType = 'memory' | 'file' | 'none';
+export type TransportType = 'stdio' | 'http';
 
 export class Config {
   private static instance: Config;
@@ -6,6 +14,20 @@ export class Config {
     NS_API_KEY: string;
     SERVER_NAME: string;
     SERVER_VERSION: string;
+    STATION_CATALOGUE_REFRESH: boolean;
+    CACHE_STORE: CacheStoreType;
+    CACHE_DIR: string;
+    CACHE_MAX_ENTRIES: number;
+    HTTP: Partial<HttpOptions>;
+    TRANSPORT: TransportType;
+    HTTP_HOST: string;
+    HTTP_PORT: number;
+    AUTH_CLIENTS: ClientCredentials[];
+    SESSION_IDLE_TIMEOUT_MS: number;
+    WATCHES_FILE: string;
+    WATCH_INTERVAL_MS: number;
+    OVFIETS_SAMPLES_FILE: string;
+    OVFIETS_SAMPLE_INTERVAL_MS: number;
   };
 
   private constructor() {
@@ -16,13 +38,113 @@ export class Config {
       throw new Error('NS_API_KEY environment variable is required');
     }
 
+    // Command line flags take precedence over environment variables
+    const flags = Config.parseFlags(process.argv.slice(2));
+
+    const TRANSPORT = flags.transport ?? process.env.MCP_TRANSPORT ?? 'stdio';
+    if (!['stdio', 'http'].includes(TRANSPORT)) {
+      throw new Error('MCP_TRANSPORT (--transport) must be one of: stdio, http');
+    }
+
+    const HTTP_PORT = Number(flags.port ?? process.env.MCP_HTTP_PORT ?? 3000);
+    if (!Number.isInteger(HTTP_PORT) || HTTP_PORT < 0 || HTTP_PORT > 65535) {
+      throw new Error('MCP_HTTP_PORT (--port) must be a valid port number');
+    }
+
+    const CACHE_STORE = process.env.NS_CACHE_STORE ?? 'memory';
+    if (!['memory', 'file', 'none'].includes(CACHE_STORE)) {
+      throw new Error('NS_CACHE_STORE must be one of: memory, file, none');
+    }
+
     this.config = {
       NS_API_KEY,
       SERVER_NAME: 'ns-disruptions-server',
-      SERVER_VERSION: '1.0.0'
+      SERVER_VERSION: '1.0.0',
+      STATION_CATALOGUE_REFRESH: process.env.NS_STATION_CATALOGUE_REFRESH !== 'false',
+      CACHE_STORE: CACHE_STORE as CacheStoreType,
+      CACHE_DIR: process.env.NS_CACHE_DIR || path.join(os.tmpdir(), 'ns-mcp-server-cache'),
+      CACHE_MAX_ENTRIES: Number(process.env.NS_CACHE_MAX_ENTRIES) || 500,
+      HTTP: {
+        timeoutMs: Config.numberFromEnv('NS_HTTP_TIMEOUT_MS'),
+        maxRetries: Config.numberFromEnv('NS_HTTP_MAX_RETRIES'),
+        requestsPerMinute: Config.numberFromEnv('NS_RATE_LIMIT_PER_MINUTE'),
+        circuitFailureThreshold: Config.numberFromEnv('NS_CIRCUIT_FAILURE_THRESHOLD'),
+        circuitResetTimeoutMs: Config.numberFromEnv('NS_CIRCUIT_RESET_MS')
+      },
+      TRANSPORT: TRANSPORT as TransportType,
+      HTTP_HOST: flags.host ?? process.env.MCP_HTTP_HOST ?? '127.0.0.1',
+      HTTP_PORT,
+      AUTH_CLIENTS: Config.loadAuthClients(process.env.MCP_AUTH_CLIENTS_FILE),
+      SESSION_IDLE_TIMEOUT_MS: Math.max(Config.numberFromEnv('MCP_SESSION_IDLE_TIMEOUT_MS') ?? 30 * 60 * 1000, 60 * 1000),
+      WATCHES_FILE: process.env.NS_WATCHES_FILE || path.join(os.tmpdir(), 'ns-mcp-server-watches.json'),
+      WATCH_INTERVAL_MS: Math.max(Config.numberFromEnv('NS_WATCH_INTERVAL_MS') ?? 2 * 60 * 1000, 30 * 1000),
+      OVFIETS_SAMPLES_FILE: process.env.NS_OVFIETS_SAMPLES_FILE || path.join(os.tmpdir(), 'ns-mcp-server-ovfiets-samples.json'),
+      OVFIETS_SAMPLE_INTERVAL_MS: Math.max(Config.numberFromEnv('NS_OVFIETS_SAMPLE_INTERVAL_MS') ?? 15 * 60 * 1000, 5 * 60 * 1000)
     };
   }
 
+  // Supports --name value and --name=value
+  private static parseFlags(argv: string[]): Record<string, string> {
+    const flags: Record<string, string> = {};
+    for (let i = 0; i < argv.length; i++) {
+      const match = /^--([a-z-]+)(?:=(.*))?$/.exec(argv[i]);
+      if (!match) {
+        continue;
+      }
+      const [, name, inlineValue] = match;
+      flags[name] = inlineValue ?? argv[++i] ?? '';
+    }
+    return flags;
+  }
+
+  private static loadAuthClients(file: string | undefined): ClientCredentials[] {
+    if (!file) {
+      return [];
+    }
+
+    let clients: unknown;
+    try {
+      clients = JSON.parse(fs.readFileSync(file, 'utf8'));
+    } catch (error) {
+      throw new Error(`MCP_AUTH_CLIENTS_FILE could not be read: ${error instanceof Error ? error.message : error}`);
+    }
+    if (!Array.isArray(clients)) {
+      throw new Error('MCP_AUTH_CLIENTS_FILE must contain a JSON array of clients');
+    }
+
+    return clients.map((client, index) => {
+      if (!client || typeof client !== 'object' || typeof client.id !== 'string') {
+        throw new Error(`Client ${index} in MCP_AUTH_CLIENTS_FILE needs a string "id"`);
+      }
+      const hasToken = typeof client.token === 'string' && client.token.length > 0;
+      const hasHash = typeof client.tokenSha256 === 'string' && /^[0-9a-f]{64}$/i.test(client.tokenSha256);
+      if (hasToken === hasHash) {
+        throw new Error(`Client "${client.id}" needs either a "token" or a hex "tokenSha256"`);
+      }
+      if (client.nsApiKey !== undefined && typeof client.nsApiKey !== 'string') {
+        throw new Error(`Client "${client.id}" has an invalid "nsApiKey"`);
+      }
+      if (client.toolCallsPerMinute !== undefined &&
+          (typeof client.toolCallsPerMinute !== 'number' || client.toolCallsPerMinute <= 0)) {
+        throw new Error(`Client "${client.id}" has an invalid "toolCallsPerMinute"`);
+      }
+      return client as ClientCredentials;
+    });
+  }
+
+  // Unset variables are left undefined so the service defaults apply
+  private static numberFromEnv(name: string): number | undefined {
+    const value = process.env[name];
+    if (value === undefined || value === '') {
+      return undefined;
+    }
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < 0) {
+      throw new Error(`${name} must be a non-negative number`);
+    }
+    return parsed;
+  }
+
   static getInstance(): Config {
     if (!Config.instance) {
       Config.instance = new Config();
@@ -41,4 +163,60 @@ export class Config {
   get serverVersion(): string {
     return this.config.SERVER_VERSION;
   }
+
+  get stationCatalogueRefresh(): boolean {
+    return this.config.STATION_CATALOGUE_REFRESH;
+  }
+
+  get cacheStore(): CacheStoreType {
+    return this.config.CACHE_STORE;
+  }
+
+  get cacheDir(): string {
+    return this.config.CACHE_DIR;
+  }
+
+  get cacheMaxEntries(): number {
+    return this.config.CACHE_MAX_ENTRIES;
+  }
+
+  get httpOptions(): Partial<HttpOptions> {
+    return this.config.HTTP;
+  }
+
+  get transport(): TransportType {
+    return this.config.TRANSPORT;
+  }
+
+  get httpHost(): string {
+    return this.config.HTTP_HOST;
+  }
+
+  get httpPort(): number {
+    return this.config.HTTP_PORT;
+  }
+
+  get authClients(): ClientCredentials[] {
+    return this.config.AUTH_CLIENTS;
+  }
+
+  get sessionIdleTimeoutMs(): number {
+    return this.config.SESSION_IDLE_TIMEOUT_MS;
+  }
+
+  get watchesFile(): string {
+    return this.config.WATCHES_FILE;
+  }
+
+  get watchIntervalMs(): number {
+    return this.config.WATCH_INTERVAL_MS;
+  }
+
+  get ovfietsSamplesFile(): string {
+    return this.config.OVFIETS_SAMPLES_FILE;
+  }
+
+  get ovfietsSampleIntervalMs(): number {
+    return this.config.OVFIETS_SAMPLE_INTERVAL_MS;
+  }
 } 
\ No newline at end of file
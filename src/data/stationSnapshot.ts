@@ -0,0 +1,200 @@
+import { StationCatalogueEntry } from '../types.js';
+
+/**
+ * Bundled snapshot of frequently used stations from the NS stations API.
+ * Used until the full catalogue has been fetched, or when refreshing fails.
+ */
+export const STATION_SNAPSHOT: StationCatalogueEntry[] = [
+  {
+    id: { code: 'ASD', uicCode: '8400058', evaCode: '8400058' },
+    names: { long: 'Amsterdam Centraal', medium: "A'dam C.", short: 'Amsterdam C', synonyms: ['Amsterdam CS'] },
+    location: { lat: 52.3788871765137, lng: 4.90027761459351 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ASS', uicCode: '8400059', evaCode: '8400059' },
+    names: { long: 'Amsterdam Sloterdijk', medium: "A'dam Sloterdijk", short: 'Sloterdijk', synonyms: [] },
+    location: { lat: 52.3888893127441, lng: 4.83777761459351 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ASDZ', uicCode: '8400061', evaCode: '8400061' },
+    names: { long: 'Amsterdam Zuid', medium: "A'dam Zuid", short: 'Amsterdam Z', synonyms: ['Zuidas'] },
+    location: { lat: 52.3389015197754, lng: 4.87249994277954 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ASA', uicCode: '8400057', evaCode: '8400057' },
+    names: { long: 'Amsterdam Amstel', medium: "A'dam Amstel", short: 'Amstel', synonyms: [] },
+    location: { lat: 52.3466682434082, lng: 4.91777801513672 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ASB', uicCode: '8400074', evaCode: '8400074' },
+    names: { long: 'Amsterdam Bijlmer ArenA', medium: "A'dam Bijlmer A", short: 'Bijlmer A', synonyms: ['Amsterdam Bijlmer'] },
+    location: { lat: 52.3121032714844, lng: 4.94722223281860 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'SHL', uicCode: '8400561', evaCode: '8400561' },
+    names: { long: 'Schiphol Airport', medium: 'Schiphol Airport', short: 'Schiphol', synonyms: ['Luchthaven Schiphol'] },
+    location: { lat: 52.3094444274902, lng: 4.76194429397583 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'UT', uicCode: '8400621', evaCode: '8400621' },
+    names: { long: 'Utrecht Centraal', medium: 'Utrecht C.', short: 'Utrecht C', synonyms: ['Utrecht CS'] },
+    location: { lat: 52.0894432067871, lng: 5.11027765274048 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'RTD', uicCode: '8400530', evaCode: '8400530' },
+    names: { long: 'Rotterdam Centraal', medium: "R'dam C.", short: 'Rotterdam C', synonyms: ['Rotterdam CS'] },
+    location: { lat: 51.9249992370605, lng: 4.46888875961304 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'GVC', uicCode: '8400282', evaCode: '8400282' },
+    names: { long: 'Den Haag Centraal', medium: 'Den Haag C.', short: 'Den Haag C', synonyms: ["'s-Gravenhage", 'The Hague Central'] },
+    location: { lat: 52.0808334350586, lng: 4.32499980926514 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'GV', uicCode: '8400280', evaCode: '8400280' },
+    names: { long: 'Den Haag HS', medium: 'Den Haag HS', short: 'Den Haag HS', synonyms: ['Den Haag Hollands Spoor'] },
+    location: { lat: 52.0697212219238, lng: 4.32249975204468 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'LEDN', uicCode: '8400390', evaCode: '8400390' },
+    names: { long: 'Leiden Centraal', medium: 'Leiden C.', short: 'Leiden C', synonyms: [] },
+    location: { lat: 52.1663894653320, lng: 4.48166656494141 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'HLM', uicCode: '8400285', evaCode: '8400285' },
+    names: { long: 'Haarlem', medium: 'Haarlem', short: 'Haarlem', synonyms: [] },
+    location: { lat: 52.3877792358398, lng: 4.63833332061768 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'DT', uicCode: '8400170', evaCode: '8400170' },
+    names: { long: 'Delft', medium: 'Delft', short: 'Delft', synonyms: [] },
+    location: { lat: 52.0066680908203, lng: 4.35638904571533 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'GD', uicCode: '8400258', evaCode: '8400258' },
+    names: { long: 'Gouda', medium: 'Gouda', short: 'Gouda', synonyms: [] },
+    location: { lat: 52.0175018310547, lng: 4.70444440841675 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'DDR', uicCode: '8400180', evaCode: '8400180' },
+    names: { long: 'Dordrecht', medium: 'Dordrecht', short: 'Dordrecht', synonyms: [] },
+    location: { lat: 51.8075008392334, lng: 4.66805553436279 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'BD', uicCode: '8400131', evaCode: '8400131' },
+    names: { long: 'Breda', medium: 'Breda', short: 'Breda', synonyms: [] },
+    location: { lat: 51.5955543518066, lng: 4.78000020980835 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'TB', uicCode: '8400597', evaCode: '8400597' },
+    names: { long: 'Tilburg', medium: 'Tilburg', short: 'Tilburg', synonyms: [] },
+    location: { lat: 51.5605545043945, lng: 5.08361101150513 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'HT', uicCode: '8400319', evaCode: '8400319' },
+    names: { long: "'s-Hertogenbosch", medium: "'s-Hertogenb.", short: 'Den Bosch', synonyms: ['Den Bosch'] },
+    location: { lat: 51.6905555725098, lng: 5.29361104965210 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'EHV', uicCode: '8400206', evaCode: '8400206' },
+    names: { long: 'Eindhoven Centraal', medium: 'Eindhoven C.', short: 'Eindhoven', synonyms: ['Eindhoven'] },
+    location: { lat: 51.4430541992188, lng: 5.48111104965210 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'VL', uicCode: '8400644', evaCode: '8400644' },
+    names: { long: 'Venlo', medium: 'Venlo', short: 'Venlo', synonyms: [] },
+    location: { lat: 51.3636093139648, lng: 6.17055559158325 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'MT', uicCode: '8400424', evaCode: '8400424' },
+    names: { long: 'Maastricht', medium: 'Maastricht', short: 'Maastricht', synonyms: [] },
+    location: { lat: 50.8499984741211, lng: 5.70555543899536 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'AMF', uicCode: '8400055', evaCode: '8400055' },
+    names: { long: 'Amersfoort Centraal', medium: 'Amersfoort C.', short: 'Amersfoort', synonyms: ['Amersfoort'] },
+    location: { lat: 52.1533317565918, lng: 5.37361097335815 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ALM', uicCode: '8400080', evaCode: '8400080' },
+    names: { long: 'Almere Centrum', medium: 'Almere C.', short: 'Almere C', synonyms: ['Almere'] },
+    location: { lat: 52.3750000000000, lng: 5.21777772903442 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'AMR', uicCode: '8400050', evaCode: '8400050' },
+    names: { long: 'Alkmaar', medium: 'Alkmaar', short: 'Alkmaar', synonyms: [] },
+    location: { lat: 52.6377792358398, lng: 4.73972225189209 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ZL', uicCode: '8400747', evaCode: '8400747' },
+    names: { long: 'Zwolle', medium: 'Zwolle', short: 'Zwolle', synonyms: [] },
+    location: { lat: 52.5044441223145, lng: 6.09111118316650 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'DV', uicCode: '8400173', evaCode: '8400173' },
+    names: { long: 'Deventer', medium: 'Deventer', short: 'Deventer', synonyms: [] },
+    location: { lat: 52.2574996948242, lng: 6.16083335876465 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'ES', uicCode: '8400221', evaCode: '8400221' },
+    names: { long: 'Enschede', medium: 'Enschede', short: 'Enschede', synonyms: [] },
+    location: { lat: 52.2222213745117, lng: 6.88999986648560 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'AH', uicCode: '8400071', evaCode: '8400071' },
+    names: { long: 'Arnhem Centraal', medium: 'Arnhem C.', short: 'Arnhem', synonyms: ['Arnhem'] },
+    location: { lat: 51.9850006103516, lng: 5.90111112594605 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'NM', uicCode: '8400470', evaCode: '8400470' },
+    names: { long: 'Nijmegen', medium: 'Nijmegen', short: 'Nijmegen', synonyms: [] },
+    location: { lat: 51.8433341979980, lng: 5.85277795791626 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'GN', uicCode: '8400263', evaCode: '8400263' },
+    names: { long: 'Groningen', medium: 'Groningen', short: 'Groningen', synonyms: [] },
+    location: { lat: 53.2105560302734, lng: 6.56444454193115 },
+    country: 'NL'
+  },
+  {
+    id: { code: 'KOLN', uicCode: '8015458', evaCode: '8000207' },
+    names: { long: 'Köln Hbf', medium: 'Köln Hbf', short: 'Köln Hbf', synonyms: ['Keulen', 'Cologne'] },
+    location: { lat: 50.9430541992188, lng: 6.95861101150513 },
+    country: 'D'
+  },
+  {
+    id: { code: 'BRUSZ', uicCode: '8814001', evaCode: '8814001' },
+    names: { long: 'Brussel-Zuid/Midi', medium: 'Brussel-Zuid', short: 'Brussel-Z', synonyms: ['Bruxelles-Midi', 'Brussels Midi'] },
+    location: { lat: 50.8355560302734, lng: 4.33611106872559 },
+    country: 'B'
+  }
+];
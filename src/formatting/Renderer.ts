@@ -0,0 +1,9 @@
+/**
+ * Turns a list of NS API items into compact text for the model.
+ * Renderers are classes with static methods, so the class itself is the Renderer.
+ */
+export interface Renderer<T> {
+  emptyMessage: string;
+  summary(items: T[]): string;   // One line per item
+  markdown(items: T[]): string;  // A Markdown table
+}
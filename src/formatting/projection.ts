@@ -0,0 +1,46 @@
+/**
+ * Keep only the given dot-separated fields of an item, e.g.
+ * ["direction", "product.number", "routeStations.mediumName"].
+ * Arrays along a path are projected element by element.
+ */
+export function projectFields(item: unknown, fields: string[]): unknown {
+  const result: Record<string, unknown> = {};
+  for (const field of fields) {
+    const [head, ...rest] = field.split('.');
+    if (!item || typeof item !== 'object' || !(head in item)) {
+      continue;
+    }
+    const value = (item as Record<string, unknown>)[head];
+    if (rest.length === 0) {
+      result[head] = value;
+    } else {
+      result[head] = merge(result[head], projectPath(value, rest.join('.')));
+    }
+  }
+  return result;
+}
+
+function projectPath(value: unknown, path: string): unknown {
+  if (Array.isArray(value)) {
+    return value.map((element) => projectFields(element, [path]));
+  }
+  return projectFields(value, [path]);
+}
+
+// Combine projections of several fields below the same key
+function merge(existing: unknown, addition: unknown): unknown {
+  if (existing === undefined) {
+    return addition;
+  }
+  if (Array.isArray(existing) && Array.isArray(addition)) {
+    return existing.map((element, index) => merge(element, addition[index]));
+  }
+  if (existing && addition && typeof existing === 'object' && typeof addition === 'object') {
+    const merged: Record<string, unknown> = { ...(existing as Record<string, unknown>) };
+    for (const [key, value] of Object.entries(addition)) {
+      merged[key] = merge(merged[key], value);
+    }
+    return merged;
+  }
+  return addition;
+}
@@ -0,0 +1,41 @@
+import { Arrival } from '../../types.js';
+import { clockTime, delayMinutes, formatDelay, markdownTable, messageText, track } from '../text.js';
+
+export class ArrivalRenderer {
+  static readonly emptyMessage = 'No arrivals found.';
+
+  static summary(arrivals: Arrival[]): string {
+    return arrivals.map((arrival) => {
+      const delay = delayMinutes(arrival.plannedDateTime, arrival.actualDateTime);
+      const parts = [
+        `${clockTime(arrival.plannedDateTime, arrival.plannedTimeZoneOffset)} ${ArrivalRenderer.train(arrival)} from ${arrival.origin}`,
+        `track ${track(arrival.plannedTrack, arrival.actualTrack) || '?'}`
+      ];
+      if (arrival.cancelled) {
+        parts.push('CANCELLED');
+      } else if (delay > 0) {
+        parts.push(`${delay} min late`);
+      }
+      return `- ${parts.join(', ')}`;
+    }).join('\n');
+  }
+
+  static markdown(arrivals: Arrival[]): string {
+    return markdownTable(
+      ['Time', 'Delay', 'Train', 'Origin', 'Track', 'Status', 'Notes'],
+      arrivals.map((arrival) => [
+        clockTime(arrival.plannedDateTime, arrival.plannedTimeZoneOffset),
+        formatDelay(delayMinutes(arrival.plannedDateTime, arrival.actualDateTime)),
+        ArrivalRenderer.train(arrival),
+        arrival.origin,
+        track(arrival.plannedTrack, arrival.actualTrack),
+        arrival.cancelled ? 'CANCELLED' : arrival.arrivalStatus,
+        (arrival.messages ?? []).map(messageText).filter(Boolean).join('; ')
+      ])
+    );
+  }
+
+  private static train(arrival: Arrival): string {
+    return `${arrival.product?.shortCategoryName ?? arrival.trainCategory} ${arrival.product?.number ?? ''}`.trim();
+  }
+}
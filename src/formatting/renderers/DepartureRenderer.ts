@@ -0,0 +1,41 @@
+import { Departure } from '../../types.js';
+import { clockTime, delayMinutes, formatDelay, markdownTable, messageText, track } from '../text.js';
+
+export class DepartureRenderer {
+  static readonly emptyMessage = 'No departures found.';
+
+  static summary(departures: Departure[]): string {
+    return departures.map((departure) => {
+      const delay = delayMinutes(departure.plannedDateTime, departure.actualDateTime);
+      const parts = [
+        `${clockTime(departure.plannedDateTime, departure.plannedTimeZoneOffset)} ${DepartureRenderer.train(departure)} to ${departure.direction}`,
+        `track ${track(departure.plannedTrack, departure.actualTrack) || '?'}`
+      ];
+      if (departure.cancelled) {
+        parts.push('CANCELLED');
+      } else if (delay > 0) {
+        parts.push(`${delay} min late`);
+      }
+      return `- ${parts.join(', ')}`;
+    }).join('\n');
+  }
+
+  static markdown(departures: Departure[]): string {
+    return markdownTable(
+      ['Time', 'Delay', 'Train', 'Direction', 'Track', 'Status', 'Notes'],
+      departures.map((departure) => [
+        clockTime(departure.plannedDateTime, departure.plannedTimeZoneOffset),
+        formatDelay(delayMinutes(departure.plannedDateTime, departure.actualDateTime)),
+        DepartureRenderer.train(departure),
+        departure.direction,
+        track(departure.plannedTrack, departure.actualTrack),
+        departure.cancelled ? 'CANCELLED' : departure.departureStatus,
+        (departure.messages ?? []).map(messageText).filter(Boolean).join('; ')
+      ])
+    );
+  }
+
+  private static train(departure: Departure): string {
+    return `${departure.product?.shortCategoryName ?? departure.trainCategory} ${departure.product?.number ?? ''}`.trim();
+  }
+}
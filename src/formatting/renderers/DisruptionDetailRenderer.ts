@@ -0,0 +1,64 @@
+import { Calamity, Disruption, DisruptionItem, isCalamity } from '../../types.js';
+import { DisruptionRenderer } from './DisruptionRenderer.js';
+
+/**
+ * Full account of single disruptions: what happens where and when, the extra
+ * travel time, alternative transport and advice, or the text of a calamity
+ */
+export class DisruptionDetailRenderer {
+  static readonly emptyMessage = 'Disruption not found.';
+
+  static summary(disruptions: DisruptionItem[]): string {
+    return disruptions.map((disruption) => DisruptionDetailRenderer.lines(disruption).join('\n')).join('\n\n');
+  }
+
+  static markdown(disruptions: DisruptionItem[]): string {
+    return disruptions.map((disruption) => {
+      const [, ...details] = DisruptionDetailRenderer.lines(disruption);
+      return [`### ${disruption.title}`, '', `Id ${disruption.id}, ${disruption.type}`, ...details.map((line) => `- ${line}`)].join('\n');
+    }).join('\n\n');
+  }
+
+  private static lines(disruption: DisruptionItem): string[] {
+    const lines = [
+      `[${disruption.type}] ${disruption.title}${disruption.isActive ? '' : ' (not active)'}`,
+      ...(isCalamity(disruption)
+        ? DisruptionDetailRenderer.calamityLines(disruption)
+        : DisruptionDetailRenderer.disruptionLines(disruption))
+    ];
+    return lines.filter(Boolean);
+  }
+
+  private static disruptionLines(disruption: Disruption): string[] {
+    const stations = [...new Set((disruption.publicationSections ?? [])
+      .flatMap((section) => section.section.stations.map((station) => station.name)))];
+    const lines = [
+      `Period: ${DisruptionRenderer.period(disruption)}`,
+      stations.length ? `Stations: ${stations.join(', ')}` : '',
+      disruption.summaryAdditionalTravelTime ? `Extra travel time: ${disruption.summaryAdditionalTravelTime.label}` : ''
+    ];
+    for (const timespan of disruption.timespans ?? []) {
+      lines.push(
+        `${timespan.period}: ${timespan.situation.label}${timespan.cause.label ? ` (${timespan.cause.label})` : ''}`,
+        timespan.alternativeTransport ? `Alternative transport: ${timespan.alternativeTransport.label}` : '',
+        ...timespan.advices.map((advice) => `Advice: ${advice}`)
+      );
+    }
+    return lines;
+  }
+
+  private static calamityLines(calamity: Calamity): string[] {
+    return [
+      calamity.description ?? '',
+      ...(calamity.bodyItems ?? []).map((item) => DisruptionDetailRenderer.plainText(item.content)),
+      calamity.expectedDuration?.description ? `Expected duration: ${calamity.expectedDuration.description}` : '',
+      ...(calamity.buttons?.items ?? []).map((button) => `${button.label}: ${button.url}`),
+      calamity.url ? `More information: ${calamity.url}` : ''
+    ];
+  }
+
+  // Calamity texts come as HTML fragments
+  private static plainText(html: string): string {
+    return html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '').replace(/&nbsp;/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+}
@@ -0,0 +1,45 @@
+import { DisruptionImpact } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+export class DisruptionImpactRenderer {
+  static readonly emptyMessage = 'No disruptions affect this station, route or trip in the given time window.';
+
+  static summary(impacts: DisruptionImpact[]): string {
+    return impacts.map((impact) => {
+      const parts = [`[${impact.type}] ${impact.title}`];
+      if (impact.affectedStations.length) {
+        parts.push(`affects ${impact.affectedStations.join(', ')}`);
+      }
+      if (impact.additionalTravelTime?.label) {
+        parts.push(impact.additionalTravelTime.label);
+      }
+      if (impact.alternativeTransport.length) {
+        parts.push(impact.alternativeTransport.map((transport) => transport.label).join('; '));
+      }
+      if (impact.advices.length) {
+        parts.push(impact.advices.join(' '));
+      }
+      return `- ${parts.join(' — ')} (id ${impact.id})`;
+    }).join('\n');
+  }
+
+  static markdown(impacts: DisruptionImpact[]): string {
+    return markdownTable(
+      ['Id', 'Type', 'Title', 'Active', 'Period', 'Impact', 'Affects', 'Extra travel time', 'Alternative transport', 'Advice'],
+      impacts.map((impact) => [
+        impact.id,
+        impact.type,
+        impact.title,
+        impact.isActive ? 'yes' : 'no',
+        impact.period ?? '',
+        impact.impact !== undefined ? String(impact.impact) : '',
+        impact.affectedStations.join(', '),
+        impact.additionalTravelTime?.shortLabel ?? '',
+        impact.alternativeTransport.map((transport) =>
+          [transport.label, ...transport.locations].join(': ')
+        ).join('; '),
+        impact.advices.join(' ')
+      ])
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { Disruption, DisruptionItem, isCalamity } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+export class DisruptionRenderer {
+  static readonly emptyMessage = 'No disruptions found.';
+
+  static summary(disruptions: DisruptionItem[]): string {
+    return disruptions.map((disruption) => {
+      const parts = [`[${disruption.type}] ${disruption.title}`];
+      if (disruption.expectedDuration?.description) {
+        parts.push(disruption.expectedDuration.description);
+      }
+      if (!isCalamity(disruption) && disruption.summaryAdditionalTravelTime?.label) {
+        parts.push(disruption.summaryAdditionalTravelTime.label);
+      }
+      return `- ${parts.join(' — ')} (id ${disruption.id})`;
+    }).join('\n');
+  }
+
+  static markdown(disruptions: DisruptionItem[]): string {
+    return markdownTable(
+      ['Id', 'Type', 'Title', 'Active', 'Period', 'Impact', 'Extra travel time'],
+      disruptions.map((disruption) => isCalamity(disruption)
+        ? [
+          disruption.id,
+          disruption.type,
+          disruption.title,
+          disruption.isActive ? 'yes' : 'no',
+          disruption.expectedDuration?.description ?? '',
+          disruption.priority ?? '',
+          ''
+        ]
+        : [
+          disruption.id,
+          disruption.type,
+          disruption.title,
+          disruption.isActive ? 'yes' : 'no',
+          DisruptionRenderer.period(disruption),
+          disruption.impact ? String(disruption.impact.value) : '',
+          disruption.summaryAdditionalTravelTime?.shortLabel ?? ''
+        ])
+    );
+  }
+
+  static period(disruption: Disruption): string {
+    if (disruption.expectedDuration?.description) {
+      return disruption.expectedDuration.description;
+    }
+    return disruption.timespans?.[0]?.period ?? [disruption.start, disruption.end].filter(Boolean).join(' – ');
+  }
+}
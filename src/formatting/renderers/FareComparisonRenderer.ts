@@ -0,0 +1,43 @@
+import { FareOption } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+export class FareComparisonRenderer {
+  static readonly emptyMessage = 'No fares found.';
+
+  static summary(options: FareOption[]): string {
+    return options.map((option) => {
+      const marks = [option.isCheapest ? 'cheapest' : undefined, option.isBestOption ? 'best option' : undefined].filter(Boolean);
+      const above = option.aboveCheapestInEuros > 0 ? ` (+${FareComparisonRenderer.euros(option.aboveCheapestInEuros)})` : '';
+      return `- ${FareComparisonRenderer.variant(option)}, ${option.displayName}: ${FareComparisonRenderer.euros(option.totalInEuros)}${above}` +
+        `${option.discountExplanation ? `; ${option.discountExplanation}` : ''}${marks.length > 0 ? ` — ${marks.join(', ')}` : ''}`;
+    }).join('\n');
+  }
+
+  static markdown(options: FareOption[]): string {
+    return markdownTable(
+      ['Class', 'Ticket', 'Joint journey', 'Product', 'Total', 'Per adult', 'Per child', 'Discount', 'Above cheapest', 'Best'],
+      options.map((option) => [
+        option.travelClass === 'FIRST_CLASS' ? '1st' : '2nd',
+        option.travelType,
+        option.isJointJourney ? 'yes' : 'no',
+        option.displayName,
+        FareComparisonRenderer.euros(option.totalInEuros),
+        FareComparisonRenderer.euros(option.perAdultInEuros),
+        FareComparisonRenderer.euros(option.perChildInEuros),
+        option.discountInEuros ? `${FareComparisonRenderer.euros(option.discountInEuros)} (${option.discountType})` : '',
+        option.isCheapest ? 'cheapest' : `+${FareComparisonRenderer.euros(option.aboveCheapestInEuros)}`,
+        option.isBestOption ? '✓' : ''
+      ])
+    );
+  }
+
+  // "2nd class return with joint journey discount"
+  private static variant(option: FareOption): string {
+    return `${option.travelClass === 'FIRST_CLASS' ? '1st' : '2nd'} class ${option.travelType}` +
+      `${option.isJointJourney ? ' with joint journey discount' : ''}`;
+  }
+
+  private static euros(amount: number): string {
+    return `€${amount.toFixed(2)}`;
+  }
+}
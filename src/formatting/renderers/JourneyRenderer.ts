@@ -0,0 +1,81 @@
+import { TrainJourney, TrainJourneyStop } from '../../types.js';
+import { clockTime, formatDelay, markdownTable, track } from '../text.js';
+
+export class JourneyRenderer {
+  static readonly emptyMessage = 'No stops found for this train.';
+
+  static summary(stops: TrainJourneyStop[]): string {
+    return stops.map((stop) => {
+      const parts = [
+        `${clockTime(stop.plannedDeparture ?? stop.plannedArrival)} ${stop.name}`,
+        `track ${track(stop.plannedTrack, stop.actualTrack) || '?'}`
+      ];
+      if (stop.cancelled) {
+        parts.push('CANCELLED');
+      } else if (stop.delayMinutes > 0) {
+        parts.push(`${stop.delayMinutes} min late`);
+      }
+      if (stop.crowdForecast && stop.crowdForecast !== 'UNKNOWN') {
+        parts.push(`crowd ${stop.crowdForecast}`);
+      }
+      return `- ${parts.join(', ')}`;
+    }).join('\n');
+  }
+
+  static markdown(stops: TrainJourneyStop[]): string {
+    return markdownTable(
+      ['Station', 'Arrive', 'Depart', 'Track', 'Delay', 'Crowd', 'Status'],
+      stops.map((stop) => [
+        stop.name,
+        clockTime(stop.plannedArrival),
+        clockTime(stop.plannedDeparture),
+        track(stop.plannedTrack, stop.actualTrack),
+        formatDelay(stop.delayMinutes),
+        stop.crowdForecast ?? '',
+        stop.cancelled ? 'CANCELLED' : ''
+      ])
+    );
+  }
+
+  /**
+   * Lines describing the train itself: where it is and how it is composed
+   */
+  static describe(journey: TrainJourney): string[] {
+    const lines = [
+      `${journey.category ?? 'Train'} ${journey.trainNumber}${journey.operator ? ` (${journey.operator})` : ''}` +
+        `${journey.destination ? ` to ${journey.destination}` : ''}.`
+    ];
+
+    const progress = journey.lastStop && journey.nextStop
+      ? `between ${journey.lastStop} and ${journey.nextStop}`
+      : journey.lastStop ? `at ${journey.lastStop}` : journey.nextStop ? `not yet departed from ${journey.nextStop}` : '';
+    if (journey.position) {
+      const speed = journey.position.speedKmh !== undefined ? `, ${Math.round(journey.position.speedKmh)} km/h` : '';
+      lines.push(`Now ${progress ? `${progress}, ` : ''}at ${journey.position.lat.toFixed(5)}, ${journey.position.lng.toFixed(5)}${speed}.`);
+    } else if (progress) {
+      lines.push(`Going by the timetable, the train is ${progress}.`);
+    }
+
+    const composition = journey.composition;
+    if (composition) {
+      const facilities = [...new Set(composition.parts.flatMap((part) => part.facilities))];
+      const size = [
+        composition.trainType,
+        composition.carriages !== undefined ? `${composition.carriages} carriages` : undefined,
+        composition.seats !== undefined ? `${composition.seats} seats` : undefined
+      ].filter(Boolean).join(', ');
+      lines.push(`Composition: ${size || 'unknown'}${composition.shortened ? ' (shorter than planned)' : ''}` +
+        `${facilities.length ? `. Facilities: ${facilities.join(', ')}` : ''}.`);
+
+      // Trains that split up have parts with different destinations
+      const destinations = new Set(composition.parts.map((part) => part.destination).filter(Boolean));
+      if (destinations.size > 1) {
+        for (const part of composition.parts) {
+          lines.push(`Part ${part.identifier ?? '?'} (${part.type ?? 'unknown type'}) runs to ${part.destination ?? 'unknown'}.`);
+        }
+      }
+    }
+
+    return [...lines, ...journey.notes];
+  }
+}
@@ -0,0 +1,25 @@
+import { NearbyStation } from '../../types.js';
+import { formatDistance, markdownTable } from '../text.js';
+
+export class NearbyStationRenderer {
+  static readonly emptyMessage = 'No stations found near this location.';
+
+  static summary(stations: NearbyStation[]): string {
+    return stations.map((station) =>
+      `- ${station.name} (${station.code}), ${formatDistance(station.distanceInMeters)}` +
+        `${station.withinStationRadius ? ', at the station' : ''}`
+    ).join('\n');
+  }
+
+  static markdown(stations: NearbyStation[]): string {
+    return markdownTable(
+      ['Code', 'Name', 'Distance', 'At station'],
+      stations.map((station) => [
+        station.code,
+        station.name,
+        formatDistance(station.distanceInMeters),
+        station.withinStationRadius ? 'yes' : 'no'
+      ])
+    );
+  }
+}
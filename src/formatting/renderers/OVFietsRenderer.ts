@@ -0,0 +1,49 @@
+import { OVFietsLocationStatus, OVFietsUsualAvailability } from '../../types.js';
+import { formatDistance, markdownTable } from '../text.js';
+
+export class OVFietsRenderer {
+  static readonly emptyMessage = 'No OV-fiets locations found.';
+
+  static summary(locations: OVFietsLocationStatus[]): string {
+    return locations.map((location) =>
+      `- ${location.description || location.name}: ${OVFietsRenderer.bikes(location)} bikes, ${OVFietsRenderer.openText(location)}` +
+        `${location.distanceInMeters !== undefined ? `, ${formatDistance(location.distanceInMeters)}` : ''}`
+    ).join('\n');
+  }
+
+  static markdown(locations: OVFietsLocationStatus[]): string {
+    const withDistance = locations.some((location) => location.distanceInMeters !== undefined);
+    return markdownTable(
+      ['Location', 'Bikes', 'Open', ...(withDistance ? ['Distance'] : []), 'Address'],
+      locations.map((location) => [
+        location.description || location.name,
+        OVFietsRenderer.bikes(location),
+        OVFietsRenderer.openText(location),
+        ...(withDistance ? [location.distanceInMeters !== undefined ? formatDistance(location.distanceInMeters) : ''] : []),
+        [`${location.street ?? ''} ${location.houseNumber ?? ''}`.trim(), location.city].filter(Boolean).join(', ')
+      ])
+    );
+  }
+
+  // "Utrecht Centraal Jaarbeurszijde (12 bikes, 850 m)"
+  static alternative(location: OVFietsLocationStatus): string {
+    const distance = location.distanceInMeters !== undefined ? `, ${formatDistance(location.distanceInMeters)}` : '';
+    return `${location.description || location.name} (${OVFietsRenderer.bikes(location)} bikes${distance})`;
+  }
+
+  // "Usually at 18:00 on weekdays, Utrecht Centraal has about 12 bikes left (3–20, none in 10% of 14 counts over 9 days)."
+  static usually(availability: OVFietsUsualAvailability): string {
+    const range = availability.minBikes === availability.maxBikes ? '' : `${availability.minBikes}–${availability.maxBikes}, `;
+    return `Usually at ${availability.timeOfDay} on ${availability.dayType}s, ${availability.name} has about ` +
+      `${availability.medianBikes} bikes left (${range}none in ${Math.round(availability.emptyShare * 100)}% of ` +
+      `${availability.samples} counts over ${availability.days} day${availability.days === 1 ? '' : 's'}).`;
+  }
+
+  private static bikes(location: OVFietsLocationStatus): string {
+    return location.availableBikes !== undefined ? String(location.availableBikes) : location.extra?.rentalBikes || '?';
+  }
+
+  private static openText(location: OVFietsLocationStatus): string {
+    return location.openAtTime === true ? 'open' : location.openAtTime === false ? 'closed' : 'unknown';
+  }
+}
@@ -0,0 +1,32 @@
+import { Price } from '../../types.js';
+import { euros, markdownTable } from '../text.js';
+
+export class PriceRenderer {
+  static readonly emptyMessage = 'No prices found.';
+
+  static summary(prices: Price[]): string {
+    return prices.map((price) => {
+      const discount = price.discountInCents ? `, ${euros(price.discountInCents)} ${price.discountType} discount` : '';
+      return `- ${price.displayName} (${PriceRenderer.travelClass(price)}): ${euros(price.totalPriceInCents)}${discount}${price.isBestOption ? ' — best option' : ''}`;
+    }).join('\n');
+  }
+
+  static markdown(prices: Price[]): string {
+    return markdownTable(
+      ['Product', 'Class', 'Total', 'Per adult', 'Per child', 'Discount', 'Best'],
+      prices.map((price) => [
+        price.displayName,
+        PriceRenderer.travelClass(price),
+        euros(price.totalPriceInCents),
+        euros(price.pricePerAdultInCents),
+        euros(price.pricePerChildInCents),
+        price.discountInCents ? `${euros(price.discountInCents)} (${price.discountType})` : '',
+        price.isBestOption ? '✓' : ''
+      ])
+    );
+  }
+
+  private static travelClass(price: Price): string {
+    return price.travelClass === 'FIRST_CLASS' ? '1st' : '2nd';
+  }
+}
@@ -0,0 +1,78 @@
+import { FacilityCategory, StationFacilities, StationFacility, TrackAccessibility } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+/**
+ * Facilities and step-free access of stations, one station per item
+ */
+export class StationFacilitiesRenderer {
+  static readonly emptyMessage = 'Station not found.';
+
+  private static readonly CATEGORY_NAMES: Record<FacilityCategory, string> = {
+    TRAVEL_ASSISTANCE: 'Travel assistance meeting point',
+    LIFT: 'Lift',
+    ESCALATOR: 'Escalator',
+    TOILET: 'Toilet',
+    TICKETS: 'Tickets and service',
+    FOOD: 'Food and drink',
+    SHOP: 'Shop',
+    PARKING: 'Car parking',
+    BIKE_PARKING: 'Bicycle parking',
+    OV_FIETS: 'OV-fiets',
+    OTHER: 'Other'
+  };
+
+  private static readonly STEP_FREE: Record<TrackAccessibility['stepFree'], string> = {
+    yes: 'step-free',
+    via_lift: 'step-free by lift',
+    no: 'not step-free',
+    unknown: 'unknown'
+  };
+
+  static summary(stations: StationFacilities[]): string {
+    return stations.map((station) => [
+      `${station.name} (${station.code}): ${StationFacilitiesRenderer.flags(station).join(', ')}`,
+      station.tracks.length ? `Tracks: ${station.tracks.map((track) =>
+        `${track.track} ${StationFacilitiesRenderer.STEP_FREE[track.stepFree]}`).join(', ')}` : '',
+      station.facilities.length ? `Facilities: ${StationFacilitiesRenderer.counts(station.facilities)}` : 'No facilities found'
+    ].filter(Boolean).join('\n')).join('\n\n');
+  }
+
+  static markdown(stations: StationFacilities[]): string {
+    return stations.map((station) => [
+      `### ${station.name} (${station.code})`,
+      '',
+      ...StationFacilitiesRenderer.flags(station).map((flag) => `- ${flag}`),
+      '',
+      station.tracks.length ? markdownTable(
+        ['Track', 'Access', 'Lifts'],
+        station.tracks.map((track) => [track.track, StationFacilitiesRenderer.STEP_FREE[track.stepFree], track.lifts.join(', ')])
+      ) : 'No tracks known.',
+      '',
+      station.facilities.length ? markdownTable(
+        ['Facility', 'Name', 'Tracks', 'Open now'],
+        station.facilities.map((facility) => [
+          StationFacilitiesRenderer.CATEGORY_NAMES[facility.category],
+          facility.description ? `${facility.name} (${facility.description})` : facility.name,
+          facility.tracks.join(', '),
+          facility.openNow === undefined ? '' : facility.openNow ? 'yes' : 'no'
+        ])
+      ) : 'No facilities found.'
+    ].join('\n')).join('\n\n');
+  }
+
+  private static flags(station: StationFacilities): string[] {
+    return [
+      `Accessible travel: ${station.availableForAccessibleTravel ? 'yes' : 'no'}`,
+      `Travel assistance: ${station.hasTravelAssistance ? 'yes' : 'no'}`,
+      `All tracks independently accessible: ${station.areTracksIndependentlyAccessible ? 'yes' : 'no'}`
+    ];
+  }
+
+  // "2 lifts, 1 toilet, 4 food and drink"
+  private static counts(facilities: StationFacility[]): string {
+    const counts = new Map<FacilityCategory, number>();
+    facilities.forEach((facility) => counts.set(facility.category, (counts.get(facility.category) ?? 0) + 1));
+    return [...counts].map(([category, count]) =>
+      `${count} × ${StationFacilitiesRenderer.CATEGORY_NAMES[category].toLowerCase()}`).join(', ');
+  }
+}
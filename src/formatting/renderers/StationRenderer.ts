@@ -0,0 +1,27 @@
+import { Station } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+export class StationRenderer {
+  static readonly emptyMessage = 'No stations found.';
+
+  static summary(stations: Station[]): string {
+    return stations.map((station) =>
+      `- ${station.names.long} (${station.id.code}, UIC ${station.id.uicCode}, ${station.country})`
+    ).join('\n');
+  }
+
+  static markdown(stations: Station[]): string {
+    return markdownTable(
+      ['Code', 'Name', 'UIC', 'Country', 'Tracks', 'Accessible', 'Travel assistance'],
+      stations.map((station) => [
+        station.id.code,
+        station.names.long,
+        station.id.uicCode,
+        station.country,
+        (station.tracks ?? []).join(', '),
+        station.availableForAccessibleTravel ? 'yes' : 'no',
+        station.hasTravelAssistance ? 'yes' : 'no'
+      ])
+    );
+  }
+}
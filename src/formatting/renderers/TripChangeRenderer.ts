@@ -0,0 +1,23 @@
+import { TripChange } from '../../types.js';
+import { markdownTable } from '../text.js';
+
+export class TripChangeRenderer {
+  static readonly emptyMessage = 'No changes: the trip runs as advised.';
+
+  static summary(changes: TripChange[]): string {
+    return changes.map((change) => `- ${change.message}`).join('\n');
+  }
+
+  static markdown(changes: TripChange[]): string {
+    return markdownTable(
+      ['Change', 'Station', 'Was', 'Now', 'Details'],
+      changes.map((change) => [
+        change.type,
+        change.station ?? '',
+        change.previous ?? '',
+        change.current ?? '',
+        change.message
+      ])
+    );
+  }
+}
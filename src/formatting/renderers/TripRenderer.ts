@@ -0,0 +1,99 @@
+import { AccessibleStop, AdvisedTrip, ExcludedTrip, NormalisedTrip } from '../../types.js';
+import { clockTime, euros, formatDelay, markdownTable, track } from '../text.js';
+
+export class TripRenderer {
+  static readonly emptyMessage = 'No trips found.';
+
+  static summary(trips: AdvisedTrip[]): string {
+    return trips.map((trip) => {
+      const parts = [
+        `${clockTime(trip.departure.plannedDeparture)} → ${clockTime(trip.arrival.plannedArrival)}`,
+        `${trip.actualDurationInMinutes} min`,
+        `${trip.transfers} transfer${trip.transfers === 1 ? '' : 's'}`,
+        TripRenderer.route(trip)
+      ];
+      if (trip.status && trip.status !== 'NORMAL') {
+        parts.push(trip.status);
+      }
+      if (trip.crowdForecast) {
+        parts.push(`crowd ${trip.crowdForecast}`);
+      }
+      if (trip.price) {
+        parts.push(euros(trip.price.totalPriceInCents));
+      }
+      return `- [${trip.id}] ${parts.join(', ')}${trip.optimal ? ' (optimal)' : ''}`;
+    }).join('\n');
+  }
+
+  static markdown(trips: AdvisedTrip[]): string {
+    const withPrice = trips.some((trip) => trip.price);
+    return markdownTable(
+      ['Trip', 'Depart', 'Arrive', 'Delay', 'Duration', 'Transfers', 'Route', 'Status', 'Crowd', ...(withPrice ? ['Price'] : [])],
+      trips.map((trip) => [
+        trip.id,
+        `${clockTime(trip.departure.plannedDeparture)} (track ${track(trip.departure.plannedTrack, trip.departure.actualTrack) || '?'})`,
+        clockTime(trip.arrival.plannedArrival),
+        formatDelay(trip.arrival.delayMinutes),
+        `${trip.actualDurationInMinutes} min`,
+        String(trip.transfers),
+        TripRenderer.route(trip),
+        trip.status ?? '',
+        trip.crowdForecast ?? '',
+        ...(withPrice ? [euros(trip.price?.totalPriceInCents)] : [])
+      ])
+    );
+  }
+
+  /**
+   * Per trip how its stations can be used without steps and which bus or tram stops
+   * were not assessed, then the trips left out and why, and those left out because a
+   * station could not be checked
+   */
+  static accessibilityNotes(trips: AdvisedTrip[], excluded: ExcludedTrip[], unverified: ExcludedTrip[]): string[] {
+    const notes = trips.flatMap((trip) => {
+      const { accessibility } = trip;
+      if (!accessibility) {
+        return [];
+      }
+      const bookBy = accessibility.bookAssistanceBy ? `; book travel assistance by ${clockTime(accessibility.bookAssistanceBy)}` : '';
+      const notAssessed = accessibility.notAssessed.map((stop) => `${stop.role} at ${stop.station} (${stop.mode.toLowerCase()})`);
+      const stops = [
+        ...accessibility.stops.map(TripRenderer.accessibleStop),
+        ...(notAssessed.length > 0 ? [`not assessed: ${notAssessed.join(', ')}`] : [])
+      ];
+      return [`[${trip.id}] ${stops.join('; ')}${bookBy}`];
+    });
+    return [
+      ...notes,
+      ...excluded.map((trip) => `Left out ${trip.tripId} (${clockTime(trip.departure)}): ${trip.reasons.join('; ')}`),
+      ...unverified.map((trip) => `Accessibility unverified, left out ${trip.tripId} (${clockTime(trip.departure)}): ${trip.reasons.join('; ')}`)
+    ];
+  }
+
+  // "transfer at Utrecht Centraal, track 5 → 7 in 8 min, via lift (Lift spoor 5/7), assistance at Meeting point hall"
+  private static accessibleStop(stop: AccessibleStop): string {
+    const tracks = [...new Set([stop.arrivalTrack, stop.departureTrack].filter(Boolean))].join(' → ');
+    const access = {
+      yes: 'step-free',
+      via_lift: `via lift${stop.lifts.length > 0 ? ` (${stop.lifts.join(', ')})` : ''}`,
+      no: 'not step-free',
+      unknown: 'step-free access unknown'
+    }[stop.stepFree];
+    const assistance = stop.meetingPoint ? `assistance at ${stop.meetingPoint}`
+      : stop.travelAssistance ? 'travel assistance available' : undefined;
+    return [
+      `${stop.role} at ${stop.station}${tracks ? `, track ${tracks}` : ''}` +
+        `${stop.transferMinutes !== undefined ? ` in ${stop.transferMinutes} min` : ''}`,
+      access,
+      assistance
+    ].filter(Boolean).join(', ');
+  }
+
+  // "IC 3529 → Utrecht Centraal → SPR 6442"
+  private static route(trip: NormalisedTrip): string {
+    return trip.legs.map((leg, index) => {
+      const vehicle = `${leg.category ?? leg.name}${leg.trainNumber ? ` ${leg.trainNumber}` : ''}${leg.cancelled ? ' (cancelled)' : ''}`;
+      return index === 0 ? vehicle : `${leg.origin.name} → ${vehicle}`;
+    }).join(' → ');
+  }
+}
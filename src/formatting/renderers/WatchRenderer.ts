@@ -0,0 +1,43 @@
+import { Watch } from '../../types.js';
+import { clockTime, markdownTable } from '../text.js';
+
+export class WatchRenderer {
+  static readonly emptyMessage = 'No active watches.';
+
+  static summary(watches: Watch[]): string {
+    return watches.map((watch) => {
+      const latest = watch.recentChanges[0];
+      return `- [${watch.id}] ${WatchRenderer.name(watch)}, ${WatchRenderer.period(watch)}` +
+        (latest ? ` — latest change: ${latest.message}` : ' — no changes yet');
+    }).join('\n');
+  }
+
+  static markdown(watches: Watch[]): string {
+    return markdownTable(
+      ['Id', 'Watching', 'Period', 'Last checked', 'Latest change'],
+      watches.map((watch) => [
+        watch.id,
+        WatchRenderer.name(watch),
+        WatchRenderer.period(watch),
+        watch.lastCheckedAt ? clockTime(watch.lastCheckedAt) : 'not yet',
+        watch.recentChanges[0] ? `${clockTime(watch.recentChanges[0].detectedAt)} ${watch.recentChanges[0].message}` : ''
+      ])
+    );
+  }
+
+  /**
+   * Changes a watch found, newest first
+   */
+  static changes(watch: Watch): string[] {
+    return watch.recentChanges.map((change) => `${change.detectedAt.slice(0, 10)} ${clockTime(change.detectedAt)} ${change.message}`);
+  }
+
+  private static name(watch: Watch): string {
+    return watch.label ? `${watch.label} (${watch.description})` : watch.description;
+  }
+
+  private static period(watch: Watch): string {
+    const day = (dateTime: string) => `${dateTime.slice(0, 10)} ${clockTime(dateTime)}`;
+    return `${day(watch.from)} – ${day(watch.until)}`;
+  }
+}
@@ -0,0 +1,84 @@
+/**
+ * Helpers shared by the renderers
+ */
+
+/**
+ * Local "HH:MM" from an NS timestamp like "2025-01-31T08:15:00+0100".
+ * With a time zone offset in minutes (plannedTimeZoneOffset, actualTimeZoneOffset)
+ * the time is shown in that zone, so foreign stations show their own local time.
+ */
+export function clockTime(dateTime: string | undefined, timeZoneOffset?: number): string {
+  const instant = Date.parse(dateTime ?? '');
+  if (timeZoneOffset !== undefined && !Number.isNaN(instant)) {
+    return new Date(instant + timeZoneOffset * 60000).toISOString().slice(11, 16);
+  }
+  const match = /T(\d{2}:\d{2})/.exec(dateTime ?? '');
+  return match ? match[1] : '';
+}
+
+/**
+ * "UTC+01:00" for a time zone offset in minutes
+ */
+export function utcOffset(timeZoneOffset: number): string {
+  const sign = timeZoneOffset < 0 ? '-' : '+';
+  const minutes = Math.abs(timeZoneOffset);
+  return `UTC${sign}${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Delay in whole minutes between a planned and actual timestamp, 0 if unknown
+ */
+export function delayMinutes(planned: string | undefined, actual: string | undefined): number {
+  if (!planned || !actual) {
+    return 0;
+  }
+  const delay = Math.round((Date.parse(actual) - Date.parse(planned)) / 60000);
+  return Number.isNaN(delay) ? 0 : delay;
+}
+
+export function formatDelay(minutes: number): string {
+  return minutes > 0 ? `+${minutes}` : '';
+}
+
+/**
+ * "350 m" or "2.4 km"
+ */
+export function formatDistance(meters: number): string {
+  return meters < 1000 ? `${meters} m` : `${(meters / 1000).toFixed(1)} km`;
+}
+
+export function euros(cents: number | undefined): string {
+  return cents === undefined ? '' : `€${(cents / 100).toFixed(2)}`;
+}
+
+/**
+ * Current track, mentioning the planned one when it changed
+ */
+export function track(planned: string | undefined, actual: string | undefined): string {
+  if (actual && planned && actual !== planned) {
+    return `${actual} (was ${planned})`;
+  }
+  return actual ?? planned ?? '';
+}
+
+/**
+ * Text of an NS message, which is either a plain string or { message, style }
+ */
+export function messageText(message: unknown): string {
+  if (typeof message === 'string') {
+    return message;
+  }
+  if (message && typeof message === 'object' && 'message' in message) {
+    return String((message as { message: unknown }).message);
+  }
+  return '';
+}
+
+export function markdownTable(headers: string[], rows: string[][]): string {
+  const escape = (cell: string) => cell.replace(/\|/g, '\\|').replace(/\n/g, ' ');
+  return [
+    `| ${headers.join(' | ')} |`,
+    `| ${headers.map(() => '---').join(' | ')} |`,
+    ...rows.map((row) => `| ${row.map(escape).join(' | ')} |`)
+  ].join('\n');
+}
@@ -4,386 +4,1233 @@ import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js'
 import {
   ListToolsRequestSchema,
   CallToolRequestSchema,
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
   ErrorCode,
 } from '@modelcontextprotocol/sdk/types.js';
 import { Config } from './config/index.js';
 import { NSApiService } from './services/NSApiService.js';
+import { CacheStore } from './services/cache/CacheStore.js';
+import { MemoryCacheStore } from './services/cache/MemoryCacheStore.js';
+import { FileCacheStore } from './services/cache/FileCacheStore.js';
+import { ResponseCache } from './services/cache/ResponseCache.js';
+import { StationRegistry } from './services/StationRegistry.js';
+import { TripStore } from './services/TripStore.js';
+import { AccessMode, AccessPoint, LocationResolver } from './services/LocationResolver.js';
+import { TripChangeDetector } from './services/TripChangeDetector.js';
+import { DisruptionImpactAnalyzer } from './services/DisruptionImpactAnalyzer.js';
+import { Watcher } from './services/Watcher.js';
+import { OVFietsAvailability } from './services/OVFietsAvailability.js';
+import { OVFietsSampler } from './services/OVFietsSampler.js';
+import { StationFacilityAnalyzer } from './services/StationFacilityAnalyzer.js';
+import { AccessibleTripAnalyzer } from './services/AccessibleTripAnalyzer.js';
+import { FareComparer } from './services/FareComparer.js';
+import { TripSelector } from './services/TripSelector.js';
+import { ResourceMonitor } from './services/ResourceMonitor.js';
+import { AuthenticatedClient, ClientAuthenticator } from './services/ClientAuthenticator.js';
 import { ResponseFormatter } from './utils/ResponseFormatter.js';
-import { isValidDisruptionsArgs, isValidTravelAdviceArgs, isValidDeparturesArgs, isValidOVFietsArgs, isValidStationInfoArgs, isValidArrivalsArgs, isValidPricesArgs } from './types.js';
+import { HttpTransportHost } from './transports/HttpTransportHost.js';
+import { listTools, parseToolArguments, validateToolOutput } from './schemas/tools.js';
+import { getPrompt, listPrompts } from './schemas/prompts.js';
+import { listFixedResources, listResourceTemplates, matchResourceUri, RESOURCES } from './schemas/resources.js';
+import { DepartureRenderer } from './formatting/renderers/DepartureRenderer.js';
+import { ArrivalRenderer } from './formatting/renderers/ArrivalRenderer.js';
+import { TripRenderer } from './formatting/renderers/TripRenderer.js';
+import { DisruptionRenderer } from './formatting/renderers/DisruptionRenderer.js';
+import { DisruptionDetailRenderer } from './formatting/renderers/DisruptionDetailRenderer.js';
+import { PriceRenderer } from './formatting/renderers/PriceRenderer.js';
+import { FareComparisonRenderer } from './formatting/renderers/FareComparisonRenderer.js';
+import { OVFietsRenderer } from './formatting/renderers/OVFietsRenderer.js';
+import { StationRenderer } from './formatting/renderers/StationRenderer.js';
+import { StationFacilitiesRenderer } from './formatting/renderers/StationFacilitiesRenderer.js';
+import { TripChangeRenderer } from './formatting/renderers/TripChangeRenderer.js';
+import { JourneyRenderer } from './formatting/renderers/JourneyRenderer.js';
+import { DisruptionImpactRenderer } from './formatting/renderers/DisruptionImpactRenderer.js';
+import { WatchRenderer } from './formatting/renderers/WatchRenderer.js';
+import { NearbyStationRenderer } from './formatting/renderers/NearbyStationRenderer.js';
+import { clockTime, formatDistance, utcOffset } from './formatting/text.js';
+import { NS_TIME_ZONE, toRfc3339 } from './utils/time.js';
+import { distanceInMeters, Point } from './utils/geo.js';
+import {
+  AdvisedTrip,
+  CreateWatchArgs,
+  Disruption,
+  ExcludedTrip,
+  FareComparison,
+  GetDisruptionsForArgs,
+  GetOVFietsArgs,
+  ImpactStation,
+  ImpactTarget,
+  isCalamity,
+  isRideable,
+  NormalisedTrip,
+  OVFietsLocation,
+  OVFietsResponse,
+  OVFietsLocationStatus,
+  OVFietsUsualAvailability,
+  Price,
+  StationFacilities,
+  TravelAdvice,
+  TravelAdviceResult,
+  TravelAdviceTrip,
+  Watch
+} from './types.js';
+
+/**
+ * NS API client and station registry for one NS subscription key
+ */
+interface ApiServices {
+  nsApiService: NSApiService;
+  stationRegistry: StationRegistry;
+  tripStore: TripStore;
+  locationResolver: LocationResolver;
+}
+
+/**
+ * One end of a trip as given: a station, an address or coordinates
+ */
+interface TripEnd {
+  station?: string;
+  address?: string;
+  lat?: number;
+  lng?: number;
+  name?: string;
+  mode: AccessMode;
+}
+
+/**
+ * One end of a trip as sent to NS: a station code, or a point away from the
+ * station to plan from and add the walk or ride to
+ */
+interface ResolvedTripEnd {
+  station?: string;
+  point?: AccessPoint;
+  note?: string;
+}
+
+/**
+ * How a departure or arrival board is requested from NS
+ */
+interface StationBoard {
+  name: string;
+  isForeign: boolean;
+  ignoredDateTime: boolean;
+  params: { station?: string; uicCode?: string; dateTime?: string };
+}
+
+/**
+ * OV-fiets locations found for a station or around a point
+ */
+interface OVFietsSearch {
+  place: string;
+  locations: OVFietsLocation[];
+  from?: Point;                // Where alternatives are measured from
+  all?: OVFietsLocation[];     // Every location in the country, when already fetched
+}
 
 class NSServer {
-  private server: Server;
-  private nsApiService: NSApiService;
+  private static readonly DUTCH_UIC_PREFIX = '84';
+  private static readonly DEFAULT_IMPACT_WINDOW_MINUTES = 120;
+  private static readonly DEFAULT_WATCH_HOURS = 24;
+  private static readonly WATCH_URI_PREFIX = 'ns://watches/';
+  private static readonly DEFAULT_OVFIETS_RADIUS_METERS = 1500;
+  private static readonly MAX_OVFIETS_LOCATIONS = 10;
+  private static readonly MAX_STATION_PLACES = 100;
+
+  private readonly config: Config;
+  private readonly cacheStore: CacheStore | null;
+  private readonly apiServices = new Map<string, ApiServices>();
+  private readonly watcher: Watcher;
+  private readonly ovfietsSampler: OVFietsSampler;
 
   constructor() {
-    const config = Config.getInstance();
-    
-    this.server = new Server(
+    this.config = Config.getInstance();
+    this.cacheStore = this.createCacheStore(this.config);
+    this.watcher = new Watcher((owner) => this.nsApiServiceFor(owner), {
+      file: this.config.watchesFile,
+      pollIntervalMs: this.config.watchIntervalMs
+    });
+    this.ovfietsSampler = new OVFietsSampler(() => this.nsApiServiceFor(), {
+      file: this.config.ovfietsSamplesFile,
+      intervalMs: this.config.ovfietsSampleIntervalMs
+    });
+  }
+
+  /**
+   * Create an MCP server with all handlers. The HTTP transport creates one
+   * per client session; sessions using the same NS key share its services.
+   */
+  createServer(client?: AuthenticatedClient): Server {
+    const server = new Server(
       { 
-        name: config.serverName, 
-        version: config.serverVersion 
+        name: this.config.serverName, 
+        version: this.config.serverVersion 
       },
-      { capabilities: { tools: {} } }
+      { capabilities: { tools: {}, resources: { subscribe: true }, prompts: {}, logging: {} } }
     );
 
-    this.nsApiService = new NSApiService(config.nsApiKey);
-    
-    this.setupHandlers();
-    this.setupErrorHandling();
-  }
-
-  private setupErrorHandling(): void {
-    this.server.onerror = (error) => {
+    this.setupHandlers(server, this.getApiServices(client?.nsApiKey ?? this.config.nsApiKey), client);
+    server.onerror = (error) => {
       console.error('[MCP Error]', error);
     };
+    return server;
+  }
 
-    process.on('SIGINT', async () => {
-      await this.server.close();
-      process.exit(0);
-    });
+  private getApiServices(nsApiKey: string): ApiServices {
+    let services = this.apiServices.get(nsApiKey);
+    if (!services) {
+      const nsApiService = new NSApiService(nsApiKey, {
+        cacheStore: this.cacheStore,
+        http: this.config.httpOptions
+      });
+      const stationRegistry = new StationRegistry(nsApiService, {
+        refresh: this.config.stationCatalogueRefresh,
+        refreshIntervalMs: 24 * 60 * 60 * 1000
+      });
+      services = {
+        nsApiService,
+        stationRegistry,
+        tripStore: new TripStore(),
+        locationResolver: new LocationResolver(nsApiService, stationRegistry)
+      };
+      this.apiServices.set(nsApiKey, services);
+    }
+    return services;
+  }
+
+  /**
+   * NS API client of an authenticated client, or of the server's own key without
+   * authentication. Undefined for clients that have since been removed.
+   */
+  private nsApiServiceFor(clientId?: string): NSApiService | undefined {
+    if (clientId === undefined) {
+      return this.getApiServices(this.config.nsApiKey).nsApiService;
+    }
+    const client = this.config.authClients.find((candidate) => candidate.id === clientId);
+    return client ? this.getApiServices(client.nsApiKey ?? this.config.nsApiKey).nsApiService : undefined;
+  }
+
+  private createCacheStore(config: Config): CacheStore | null {
+    switch (config.cacheStore) {
+      case 'file':
+        return new FileCacheStore(config.cacheDir);
+      case 'none':
+        return null;
+      default:
+        return new MemoryCacheStore(config.cacheMaxEntries);
+    }
+  }
+
+  private setupHandlers(server: Server, services: ApiServices, client?: AuthenticatedClient): void {
+    this.setupToolHandlers(server, services, client);
+    this.setupResourceHandlers(server, services, client);
+    this.setupPromptHandlers(server);
   }
 
-  private setupHandlers(): void {
-    this.setupToolHandlers();
-  }
-
-  private setupToolHandlers(): void {
-    this.server.setRequestHandler(ListToolsRequestSchema, async () => ({
-      tools: [
-        {
-          name: 'get_disruptions',
-          description: 'Get comprehensive information about current and planned disruptions on the Dutch railway network. Returns details about maintenance work, unexpected disruptions, alternative transport options, impact on travel times, and relevant advice. Can filter for active disruptions and specific disruption types.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              isActive: {
-                type: 'boolean',
-                description: 'Filter to only return active disruptions',
-              },
-              type: {
-                type: 'string',
-                description: 'Type of disruptions to return (e.g., MAINTENANCE, DISRUPTION)',
-                enum: ['MAINTENANCE', 'DISRUPTION']
-              },
-            },
-          },
-        },
-        {
-          name: 'get_travel_advice',
-          description: 'Get detailed travel routes between two train stations, including transfers, real-time updates, platform information, and journey duration. Can plan trips for immediate departure or for a specific future time, with options to optimize for arrival time. Returns multiple route options with status and crowding information.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              fromStation: {
-                type: 'string',
-                description: 'Name or code of departure station',
-              },
-              toStation: {
-                type: 'string',
-                description: 'Name or code of destination station',
-              },
-              dateTime: {
-                type: 'string',
-                description: 'Format - date-time (as date-time in RFC3339). Datetime that the user want to depart from his origin or or arrive at his destination',
-              },
-              searchForArrival: {
-                type: 'boolean',
-                description: 'If true, dateTime is treated as desired arrival time',
-              },
-            },
-            required: ['fromStation', 'toStation'],
-          },
-        },
-        {
-          name: 'get_departures',
-          description: 'Get real-time departure information for trains from a specific station, including platform numbers, delays, route details, and any relevant travel notes. Returns a list of upcoming departures with timing, destination, and status information.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              station: {
-                type: 'string',
-                description: 'NS Station code for the station (e.g., ASD for Amsterdam Centraal). Required if uicCode is not provided',
-              },
-              uicCode: {
-                type: 'string',
-                description: 'UIC code for the station. Required if station code is not provided',
-              },
-              dateTime: {
-                type: 'string',
-                description: 'Format - date-time (as date-time in RFC3339). Only supported for departures at foreign stations. Defaults to server time (Europe/Amsterdam)',
-              },
-              maxJourneys: {
-                type: 'number',
-                description: 'Number of departures to return',
-                minimum: 1,
-                maximum: 100,
-                default: 40
-              },
-              lang: {
-                type: 'string',
-                description: 'Language for localizing the departures list. Only a small subset of text is translated, mainly notes. Defaults to Dutch',
-                enum: ['nl', 'en'],
-                default: 'nl'
-              }
-            },
-            oneOf: [
-              { required: ['station'] },
-              { required: ['uicCode'] }
-            ]
-          }
-        },
-        {
-          name: 'get_ovfiets',
-          description: 'Get OV-fiets availability at a train station',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              stationCode: {
-                type: 'string',
-                description: 'Station code to check OV-fiets availability for (e.g., ASD for Amsterdam Centraal)',
-              }
-            },
-            required: ['stationCode']
-          }
-        },
-        {
-          name: 'get_station_info',
-          description: 'Get detailed information about a train station',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              query: {
-                type: 'string',
-                description: 'Station name or code to search for',
-              },
-              includeNonPlannableStations: {
-                type: 'boolean',
-                description: 'Include stations where trains do not stop regularly',
-                default: false
-              },
-              limit: {
-                type: 'number',
-                description: 'Maximum number of results to return',
-                minimum: 1,
-                maximum: 50,
-                default: 10
-              }
-            },
-            required: ['query']
-          }
-        },
-        {
-          name: 'get_current_time_in_rfc3339',
-          description: 'Get the current server time (Europe/Amsterdam timezone) in RFC3339 format. This can be used as input for other tools that require date-time parameters.',
-          inputSchema: {
-            type: 'object',
-            properties: {}
-          }
-        },
-        {
-          name: 'get_arrivals',
-          description: 'Get real-time arrival information for trains at a specific station, including platform numbers, delays, origin stations, and any relevant travel notes. Returns a list of upcoming arrivals with timing, origin, and status information.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              station: {
-                type: 'string',
-                description: 'NS Station code for the station (e.g., ASD for Amsterdam Centraal). Required if uicCode is not provided',
-              },
-              uicCode: {
-                type: 'string',
-                description: 'UIC code for the station. Required if station code is not provided',
-              },
-              dateTime: {
-                type: 'string',
-                description: 'Format - date-time (as date-time in RFC3339). Only supported for arrivals at foreign stations. Defaults to server time (Europe/Amsterdam)',
-              },
-              maxJourneys: {
-                type: 'number',
-                description: 'Number of arrivals to return',
-                minimum: 1,
-                maximum: 100,
-                default: 40
-              },
-              lang: {
-                type: 'string',
-                description: 'Language for localizing the arrivals list. Only a small subset of text is translated, mainly notes. Defaults to Dutch',
-                enum: ['nl', 'en'],
-                default: 'nl'
-              }
-            },
-            oneOf: [
-              { required: ['station'] },
-              { required: ['uicCode'] }
-            ]
-          }
-        },
-        {
-          name: 'get_prices',
-          description: 'Get price information for domestic train journeys, including different travel classes, ticket types, and discounts. Returns detailed pricing information with conditions and validity.',
-          inputSchema: {
-            type: 'object',
-            properties: {
-              fromStation: {
-                type: 'string',
-                description: 'UicCode or station code of the origin station',
-              },
-              toStation: {
-                type: 'string',
-                description: 'UicCode or station code of the destination station',
-              },
-              travelClass: {
-                type: 'string',
-                description: 'Travel class to return the price for',
-                enum: ['FIRST_CLASS', 'SECOND_CLASS']
-              },
-              travelType: {
-                type: 'string',
-                description: 'Return the price for a single or return trip',
-                enum: ['single', 'return'],
-                default: 'single'
-              },
-              isJointJourney: {
-                type: 'boolean',
-                description: 'Set to true to return the price including joint journey discount',
-                default: false
-              },
-              adults: {
-                type: 'integer',
-                description: 'Number of adults to return the price for',
-                minimum: 1,
-                default: 1
-              },
-              children: {
-                type: 'integer',
-                description: 'Number of children to return the price for',
-                minimum: 0,
-                default: 0
-              },
-              routeId: {
-                type: 'string',
-                description: 'Specific identifier for the route to take between the two stations. This routeId is returned in the /api/v3/trips call.'
-              },
-              plannedDepartureTime: {
-                type: 'string',
-                description: 'Format - date-time (as date-time in RFC3339). Used to find the correct route if multiple routes are possible.'
-              },
-              plannedArrivalTime: {
-                type: 'string',
-                description: 'Format - date-time (as date-time in RFC3339). Used to find the correct route if multiple routes are possible.'
-              }
-            },
-            required: ['fromStation', 'toStation']
-          }
-        },
-      ],
+  private setupPromptHandlers(server: Server): void {
+    server.setRequestHandler(ListPromptsRequestSchema, async () => ({
+      prompts: listPrompts()
     }));
 
-    this.server.setRequestHandler(CallToolRequestSchema, async (request) => {
-      const rawArgs = request.params.arguments || {};
+    server.setRequestHandler(GetPromptRequestSchema, async (request) =>
+      getPrompt(request.params.name, request.params.arguments)
+    );
+  }
+
+  /**
+   * Stations, departure and arrival boards, disruptions and watches as resources.
+   * Subscribed watches are updated when the watcher finds changes, every other
+   * resource is polled and updated when its content changes.
+   */
+  private setupResourceHandlers(server: Server, services: ApiServices, client?: AuthenticatedClient): void {
+    const watchSubscriptions = new Set<string>();
+    const monitor = new ResourceMonitor(
+      async (uri) => (await this.readResource(uri, services, client)).text,
+      (uri) => server.sendResourceUpdated({ uri })
+    );
+
+    server.setRequestHandler(ListResourcesRequestSchema, async () => ({
+      resources: [
+        ...listFixedResources(),
+        ...this.watcher.list(client?.id).map((watch) => ({
+          uri: `${NSServer.WATCH_URI_PREFIX}${watch.id}`,
+          name: `watch-${watch.id}`,
+          title: watch.label ?? watch.description,
+          description: `Changes found by the watch on ${watch.description}`,
+          mimeType: RESOURCES.watch.mimeType
+        }))
+      ]
+    }));
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => ({
+      resourceTemplates: listResourceTemplates()
+    }));
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => ({
+      contents: [{ uri: request.params.uri, ...await this.readResource(request.params.uri, services, client) }]
+    }));
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+      const { uri } = request.params;
+      if (matchResourceUri(uri)?.name === 'watch') {
+        await this.readResource(uri, services, client);
+        watchSubscriptions.add(uri);
+      } else {
+        await monitor.subscribe(uri);
+      }
+      return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+      watchSubscriptions.delete(request.params.uri);
+      monitor.unsubscribe(request.params.uri);
+      return {};
+    });
+
+    const unsubscribe = this.watcher.onChange((watch, changes, owner) => {
+      if (owner !== client?.id || !server.transport) {
+        return;
+      }
+      const uri = `${NSServer.WATCH_URI_PREFIX}${watch.id}`;
+      server.sendLoggingMessage({
+        level: 'notice',
+        logger: 'watch',
+        data: [`Watch ${watch.id} on ${watch.label ?? watch.description}:`, ...changes.map((change) => `- ${change.message}`)].join('\n')
+      }, server.transport.sessionId).catch((error) => console.error('[Watch Notification Error]', error));
+      if (watchSubscriptions.has(uri)) {
+        server.sendResourceUpdated({ uri }).catch((error) => console.error('[Watch Notification Error]', error));
+      }
+    });
+    server.onclose = () => {
+      unsubscribe();
+      monitor.stop();
+    };
+  }
+
+  private async readResource(
+    uri: string,
+    services: ApiServices,
+    client?: AuthenticatedClient
+  ): Promise<{ mimeType: string; text: string }> {
+    const { nsApiService, stationRegistry } = services;
+    const match = matchResourceUri(uri);
+    const unknown = () => ResponseFormatter.createMcpError(ErrorCode.InvalidParams, `Unknown resource: ${uri}`);
+    if (!match) {
+      throw unknown();
+    }
+    const { mimeType } = RESOURCES[match.name];
+
+    switch (match.name) {
+      case 'station': {
+        const entry = await stationRegistry.resolve(match.params.code);
+        const data = await nsApiService.getStationInfo({ query: entry.names.long, includeNonPlannableStations: true });
+        const station = data.payload?.find((candidate) => candidate.id.code === entry.id.code) ?? entry;
+        return { mimeType, text: JSON.stringify(station, null, 2) };
+      }
+
+      case 'departures': {
+        const board = await this.resolveStationBoard({ station: match.params.code }, stationRegistry);
+        const departures = (await nsApiService.getDepartures(board.params)).payload?.departures ?? [];
+        return {
+          mimeType,
+          text: NSServer.markdownDocument(
+            `Departures from ${board.name}`,
+            departures.length ? DepartureRenderer.markdown(departures) : DepartureRenderer.emptyMessage,
+            NSServer.stationBoardNotes(board, departures[0]?.plannedTimeZoneOffset)
+          )
+        };
+      }
 
+      case 'arrivals': {
+        const board = await this.resolveStationBoard({ station: match.params.code }, stationRegistry);
+        const arrivals = (await nsApiService.getArrivals(board.params)).payload?.arrivals ?? [];
+        return {
+          mimeType,
+          text: NSServer.markdownDocument(
+            `Arrivals at ${board.name}`,
+            arrivals.length ? ArrivalRenderer.markdown(arrivals) : ArrivalRenderer.emptyMessage,
+            NSServer.stationBoardNotes(board, arrivals[0]?.plannedTimeZoneOffset)
+          )
+        };
+      }
+
+      case 'active_disruptions': {
+        const disruptions = await nsApiService.getDisruptions({ isActive: true });
+        return {
+          mimeType,
+          text: NSServer.markdownDocument(
+            'Active disruptions',
+            disruptions.length ? DisruptionRenderer.markdown(disruptions) : DisruptionRenderer.emptyMessage
+          )
+        };
+      }
+
+      case 'disruption': {
+        const disruption = await nsApiService.getDisruption({ id: match.params.id });
+        return { mimeType, text: DisruptionDetailRenderer.markdown([disruption]) };
+      }
+
+      case 'watch': {
+        const watch = this.watcher.find(match.params.id, client?.id);
+        if (!watch) {
+          throw unknown();
+        }
+        return { mimeType, text: JSON.stringify(watch, null, 2) };
+      }
+    }
+  }
+
+  private static markdownDocument(title: string, body: string, notes: string[] = []): string {
+    return [`# ${title}`, ...notes, body].join('\n\n');
+  }
+
+  private setupToolHandlers(server: Server, services: ApiServices, client?: AuthenticatedClient): void {
+    server.setRequestHandler(ListToolsRequestSchema, async () => ({
+      tools: listTools(),
+    }));
+
+    server.setRequestHandler(CallToolRequestSchema, async (request) => {
       try {
-        switch (request.params.name) {
-          case 'get_disruptions': {
-            if (!isValidDisruptionsArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_disruptions'
-              );
-            }
-            const data = await this.nsApiService.getDisruptions(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_travel_advice': {
-            if (!isValidTravelAdviceArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_travel_advice'
-              );
-            }
-            const data = await this.nsApiService.getTravelAdvice(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_departures': {
-            if (!isValidDeparturesArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_departures'
-              );
-            }
-            const data = await this.nsApiService.getDepartures(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_ovfiets': {
-            if (!isValidOVFietsArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_ovfiets'
-              );
-            }
-            const data = await this.nsApiService.getOVFiets(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_station_info': {
-            if (!isValidStationInfoArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_station_info'
-              );
-            }
-            const data = await this.nsApiService.getStationInfo(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_current_time_in_rfc3339': {
-            const now = new Date();
-            return ResponseFormatter.formatSuccess({
-              datetime: now.toISOString(),
-              timezone: 'Europe/Amsterdam'
-            });
-          }
-
-          case 'get_arrivals': {
-            if (!isValidArrivalsArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_arrivals'
-              );
-            }
-            const data = await this.nsApiService.getArrivals(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          case 'get_prices': {
-            if (!isValidPricesArgs(rawArgs)) {
-              throw ResponseFormatter.createMcpError(
-                ErrorCode.InvalidParams,
-                'Invalid arguments for get_prices'
-              );
-            }
-            const data = await this.nsApiService.getPrices(rawArgs);
-            return ResponseFormatter.formatSuccess(data);
-          }
-
-          default:
-            throw ResponseFormatter.createMcpError(
-              ErrorCode.MethodNotFound,
-              `Unknown tool: ${request.params.name}`
-            );
+        if (client?.quota && !client.quota.tryTake()) {
+          throw ResponseFormatter.createMcpError(
+            ErrorCode.InvalidRequest,
+            `Tool call quota for client "${client.id}" exceeded, try again in a minute`
+          );
+        }
+        const { result, cache } = await ResponseCache.track(() =>
+          this.callTool(request.params.name, request.params.arguments || {}, services, client)
+        );
+        const issues = validateToolOutput(request.params.name, result.structuredContent);
+        if (issues.length > 0) {
+          console.error(`[Schema Drift] ${request.params.name}:`, issues);
+          return ResponseFormatter.formatSchemaDrift(request.params.name, issues, result);
         }
+        return cache.length ? { ...result, _meta: { cache } } : result;
       } catch (error) {
         return ResponseFormatter.formatError(error);
       }
     });
   }
 
+  private async callTool(name: string, rawArgs: Record<string, unknown>, services: ApiServices, client?: AuthenticatedClient) {
+    const { nsApiService, stationRegistry, tripStore, locationResolver } = services;
+
+    switch (name) {
+      case 'get_disruptions': {
+        const args = parseToolArguments('get_disruptions', rawArgs);
+        const data = await nsApiService.getDisruptions(args);
+        return ResponseFormatter.formatItems({ disruptions: data }, data, DisruptionRenderer, args);
+      }
+
+      case 'get_station_disruptions': {
+        const args = parseToolArguments('get_station_disruptions', rawArgs);
+        const data = await nsApiService.getStationDisruptions({
+          ...args,
+          station: await stationRegistry.resolveCode(args.station)
+        });
+        return ResponseFormatter.formatItems({ disruptions: data }, data, DisruptionRenderer, args);
+      }
+
+      case 'get_disruption': {
+        const args = parseToolArguments('get_disruption', rawArgs);
+        const data = await nsApiService.getDisruption(args);
+        return ResponseFormatter.formatItems(data, [data], DisruptionDetailRenderer, args);
+      }
+
+      case 'get_calamities': {
+        const args = parseToolArguments('get_calamities', rawArgs);
+        const data = await nsApiService.getCalamities(args);
+        return ResponseFormatter.formatItems({ calamities: data }, data, DisruptionRenderer, args);
+      }
+
+      case 'get_travel_advice': {
+        const args = parseToolArguments('get_travel_advice', rawArgs);
+        const [origin, destination] = await Promise.all([
+          this.resolveTripEnd({
+            station: args.fromStation,
+            address: args.fromAddress,
+            lat: args.originLat,
+            lng: args.originLng,
+            name: args.originName,
+            mode: NSServer.accessMode(args.originBike, args.originCar)
+          }, services),
+          this.resolveTripEnd({
+            station: args.toStation,
+            address: args.toAddress,
+            lat: args.destinationLat,
+            lng: args.destinationLng,
+            name: args.destinationName,
+            mode: NSServer.accessMode(args.destinationBike, args.destinationCar)
+          }, services)
+        ]);
+        const advice = await nsApiService.getTravelAdvice({
+          ...args,
+          fromStation: origin.station,
+          originLat: origin.point?.lat,
+          originLng: origin.point?.lng,
+          originName: origin.point?.name,
+          originWalk: origin.point?.mode === 'WALK' || undefined,
+          originBike: origin.point?.mode === 'BIKE' || undefined,
+          originCar: origin.point?.mode === 'CAR' || undefined,
+          toStation: destination.station,
+          destinationLat: destination.point?.lat,
+          destinationLng: destination.point?.lng,
+          destinationName: destination.point?.name,
+          destinationWalk: destination.point?.mode === 'WALK' || undefined,
+          destinationBike: destination.point?.mode === 'BIKE' || undefined,
+          destinationCar: destination.point?.mode === 'CAR' || undefined,
+          viaStation: args.viaStation !== undefined ? await stationRegistry.resolveCode(args.viaStation) : undefined,
+          searchForAccessibleTrip: args.accessible || args.searchForAccessibleTrip
+        });
+        // NS has no transfer limit, so it is applied to the trips it returns
+        const { maxTransfers } = args;
+        const filtered = maxTransfers === undefined ? advice.trips ?? [] :
+          (advice.trips ?? []).filter((trip) => NSApiService.normaliseTrip(trip).transfers <= maxTransfers);
+        const { accessible, excluded, unverified } = args.accessible
+          ? await this.checkAccessibility(filtered, args.travelAssistance ?? false, services)
+          : { accessible: filtered, excluded: [], unverified: [] };
+        const priced = args.withPrices || args.sortBy === 'price' || args.maxPriceInEuros !== undefined
+          ? await this.withPrices(accessible, args.travelClass ?? 'SECOND_CLASS', services)
+          : accessible;
+        // Remembered as NS returned them, so get_trip_update compares like with like
+        tripStore.remember(priced);
+        const selected = TripSelector.select(
+          priced.map((trip) => LocationResolver.withAccessLegs(trip, origin.point, destination.point)),
+          args
+        );
+        const trips = selected.map(NSServer.advisedTrip);
+        const data: TravelAdviceResult = {
+          trips,
+          excludedTrips: args.accessible ? excluded : undefined,
+          unverifiedTrips: args.accessible ? unverified : undefined,
+          scrollRequestBackwardContext: advice.scrollRequestBackwardContext,
+          scrollRequestForwardContext: advice.scrollRequestForwardContext
+        };
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, trips, TripRenderer, args),
+          [
+            origin.note,
+            destination.note,
+            ...(args.accessible ? TripRenderer.accessibilityNotes(trips, excluded, unverified) : []),
+            priced.length > trips.length
+              ? `${priced.length - trips.length} of ${priced.length} trips are over the price, duration or crowding limits and were left out.`
+              : undefined,
+            NSServer.missingPriceNote(priced !== accessible ? priced : []),
+            ...NSServer.scrollNotes(advice)
+          ].filter((note): note is string => note !== undefined)
+        );
+      }
+
+      case 'get_departures': {
+        const args = parseToolArguments('get_departures', rawArgs);
+        const board = await this.resolveStationBoard(args, stationRegistry);
+        const data = await nsApiService.getDepartures({ ...args, ...board.params });
+        const departures = data.payload?.departures ?? [];
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, departures, DepartureRenderer, args),
+          NSServer.stationBoardNotes(board, departures[0]?.plannedTimeZoneOffset)
+        );
+      }
+
+      case 'get_ovfiets': {
+        const args = parseToolArguments('get_ovfiets', rawArgs);
+        const at = args.dateTime !== undefined ? new Date(Date.parse(args.dateTime)) : new Date();
+        const search = await this.findOVFiets(args, services);
+        const locations = search.locations.map((location) => OVFietsAvailability.status(location, at, search.from));
+
+        let alternatives: OVFietsLocationStatus[] = [];
+        if (search.from && !locations.some(OVFietsAvailability.isUsable)) {
+          const all = search.all ?? NSServer.ovfietsLocations(await nsApiService.getOVFiets({}));
+          const exclude = new Set(locations.map((location) => location.extra?.locationCode));
+          alternatives = OVFietsAvailability.alternatives(all, search.from, at, exclude);
+        }
+
+        await this.ovfietsSampler.record(search.locations);
+        const usuallyAt = args.usuallyAt !== undefined ? new Date(Date.parse(args.usuallyAt)) : undefined;
+        const usually = usuallyAt === undefined ? [] : locations
+          .map((location) => this.ovfietsSampler.usually(location.extra?.locationCode, usuallyAt))
+          .filter((availability): availability is OVFietsUsualAvailability => availability !== undefined);
+
+        const data = { locations, alternatives, usually };
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, locations, OVFietsRenderer, args),
+          this.ovfietsNotes(search.place, at, locations, alternatives, usually, usuallyAt)
+        );
+      }
+
+      case 'get_station_info': {
+        const args = parseToolArguments('get_station_info', rawArgs);
+        const data = await nsApiService.getStationInfo(args);
+        return ResponseFormatter.formatItems(data, data.payload ?? [], StationRenderer, args);
+      }
+
+      case 'get_station_facilities': {
+        const args = parseToolArguments('get_station_facilities', rawArgs);
+        const entry = await stationRegistry.resolve(args.station);
+        const facilities = await this.loadStationFacilities(entry.id.code, services, args.lang);
+        if (!facilities) {
+          throw ResponseFormatter.createMcpError(ErrorCode.InvalidParams, `NS has no details for station ${entry.names.long}`);
+        }
+        const data = {
+          ...facilities,
+          tracks: facilities.tracks.filter((track) => args.track === undefined || track.track.toLowerCase() === args.track.toLowerCase()),
+          facilities: facilities.facilities.filter((facility) => !args.categories || args.categories.includes(facility.category))
+        };
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, [data], StationFacilitiesRenderer, args),
+          NSServer.facilityNotes(data, args.track)
+        );
+      }
+
+      case 'find_nearest_stations': {
+        const args = parseToolArguments('find_nearest_stations', rawArgs);
+        const location = args.lat !== undefined && args.lng !== undefined
+          ? await locationResolver.at({ lat: args.lat, lng: args.lng })
+          : await locationResolver.resolve(args.address ?? '');
+        const stations = await stationRegistry.nearest(location, args.limit ?? 5);
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems({ location, stations }, stations, NearbyStationRenderer, args),
+          [`Stations near ${location.name} (${location.lat}, ${location.lng}).`]
+        );
+      }
+
+      case 'get_current_time_in_rfc3339': {
+        parseToolArguments('get_current_time_in_rfc3339', rawArgs);
+        return ResponseFormatter.formatSuccess({
+          datetime: toRfc3339(new Date()),
+          timezone: NS_TIME_ZONE
+        });
+      }
+
+      case 'get_arrivals': {
+        const args = parseToolArguments('get_arrivals', rawArgs);
+        const board = await this.resolveStationBoard(args, stationRegistry);
+        const data = await nsApiService.getArrivals({ ...args, ...board.params });
+        const arrivals = data.payload?.arrivals ?? [];
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, arrivals, ArrivalRenderer, args),
+          NSServer.stationBoardNotes(board, arrivals[0]?.plannedTimeZoneOffset)
+        );
+      }
+
+      case 'get_prices': {
+        const args = parseToolArguments('get_prices', rawArgs);
+        const data = await nsApiService.getPrices({
+          ...args,
+          fromStation: await stationRegistry.resolveCode(args.fromStation),
+          toStation: await stationRegistry.resolveCode(args.toStation)
+        });
+        return ResponseFormatter.formatItems(data, data.payload?.prices ?? [], PriceRenderer, args);
+      }
+
+      case 'compare_fares': {
+        const args = parseToolArguments('compare_fares', rawArgs);
+        const [fromStation, toStation] = await Promise.all([
+          stationRegistry.resolveCode(args.fromStation),
+          stationRegistry.resolveCode(args.toStation)
+        ]);
+        const group = { fromStation, toStation, adults: args.adults ?? 1, children: args.children ?? 0 };
+        const variants = FareComparer.variants(args);
+        const responses = await Promise.allSettled(variants.map((variant) => nsApiService.getPrices({
+          ...group,
+          ...variant,
+          routeId: args.routeId,
+          plannedDepartureTime: args.plannedDepartureTime,
+          plannedArrivalTime: args.plannedArrivalTime
+        })));
+        // One variant failing, e.g. a class not sold on the route, leaves the others to compare
+        if (responses.every((response) => response.status === 'rejected')) {
+          throw (responses[0] as PromiseRejectedResult).reason;
+        }
+        const data = FareComparer.compare(group, responses.map((response, index) => response.status === 'fulfilled'
+          ? { variant: variants[index], prices: response.value.payload?.prices ?? [] }
+          : { variant: variants[index], reason: response.reason instanceof Error ? response.reason.message : String(response.reason) }));
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, data.options, FareComparisonRenderer, args),
+          NSServer.fareNotes(data)
+        );
+      }
+
+      case 'get_trip_update': {
+        const args = parseToolArguments('get_trip_update', rawArgs);
+        const remembered = tripStore.find(args.tripId);
+        // Unknown IDs are taken to be a ctxRecon, e.g. from a json response or an earlier session
+        const current = NSApiService.normaliseTrip(
+          await nsApiService.getTrip({ ctxRecon: remembered?.ctxRecon ?? args.tripId })
+        );
+        const changes = TripChangeDetector.compare(remembered?.trip, current);
+        const data = {
+          tripId: remembered?.id ?? TripStore.idFor(current),
+          comparedWith: remembered ? 'advice' as const : 'timetable' as const,
+          changes,
+          trip: current
+        };
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(data, changes, TripChangeRenderer, args),
+          [
+            `Trip ${data.tripId}: ${clockTime(current.departure.actualDeparture)} ${current.departure.name} → ` +
+              `${clockTime(current.arrival.actualArrival)} ${current.arrival.name}, status ${current.status}.`,
+            ...(remembered ? [] : ['This trip was not advised in this session, so changes are relative to the timetable.'])
+          ]
+        );
+      }
+
+      case 'get_journey': {
+        const args = parseToolArguments('get_journey', rawArgs);
+        const journey = await nsApiService.getJourney({
+          ...args,
+          station: args.station !== undefined ? await stationRegistry.resolveCode(args.station) : undefined
+        });
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(journey, journey.stops, JourneyRenderer, args),
+          JourneyRenderer.describe(journey)
+        );
+      }
+
+      case 'get_disruptions_for': {
+        const args = parseToolArguments('get_disruptions_for', rawArgs);
+        const target = await this.resolveImpactTarget(args, services);
+        const disruptions = (await nsApiService.getDisruptions({})).filter((item): item is Disruption => !isCalamity(item));
+        const impacts = DisruptionImpactAnalyzer.analyse(disruptions, target);
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems({ target, disruptions: impacts }, impacts, DisruptionImpactRenderer, args),
+          [`Disruptions for ${target.description}, ${clockTime(target.from)} – ${clockTime(target.until)} (${target.from.slice(0, 10)}).`]
+        );
+      }
+
+      case 'create_watch': {
+        const args = parseToolArguments('create_watch', rawArgs);
+        const watch = await this.watcher.create(await this.resolveWatch(args, services), client?.id);
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(watch, [watch], WatchRenderer, args),
+          [`Watching ${watch.description} until ${watch.until.slice(0, 10)} ${clockTime(watch.until)}. ` +
+            `Changes are sent as notifications and as updates of ${NSServer.WATCH_URI_PREFIX}${watch.id}.`]
+        );
+      }
+
+      case 'list_watches': {
+        const args = parseToolArguments('list_watches', rawArgs);
+        const watches = this.watcher.list(client?.id);
+        return ResponseFormatter.formatItems({ watches }, watches, WatchRenderer, args);
+      }
+
+      case 'cancel_watch': {
+        const args = parseToolArguments('cancel_watch', rawArgs);
+        const watch = await this.watcher.cancel(args.watchId, client?.id);
+        if (!watch) {
+          throw ResponseFormatter.createMcpError(
+            ErrorCode.InvalidParams,
+            `Unknown watch "${args.watchId}". Use list_watches to see the active watches`
+          );
+        }
+        return ResponseFormatter.withNotes(
+          ResponseFormatter.formatItems(watch, [watch], WatchRenderer, args),
+          [`Stopped watching ${watch.description}.`]
+        );
+      }
+
+      default:
+        throw ResponseFormatter.createMcpError(
+          ErrorCode.MethodNotFound,
+          `Unknown tool: ${name}`
+        );
+    }
+  }
+
+  /**
+   * Pick the identifier a departure or arrival board is requested with.
+   * NS only knows foreign stations by UIC code, and only honours dateTime there,
+   * so domestic boards are requested by station code without a dateTime.
+   */
+  private async resolveStationBoard(
+    args: { station?: string; uicCode?: string; dateTime?: string },
+    stationRegistry: StationRegistry
+  ): Promise<StationBoard> {
+    const input = (args.uicCode ?? args.station ?? '').trim();
+
+    // UIC codes missing from the catalogue are passed on as-is, NS may still know them
+    if (/^\d{7}$/.test(input) && !(await stationRegistry.lookup(input))) {
+      const isForeign = !input.startsWith(NSServer.DUTCH_UIC_PREFIX);
+      return {
+        name: `UIC ${input}`,
+        isForeign,
+        ignoredDateTime: !isForeign && args.dateTime !== undefined,
+        params: { station: undefined, uicCode: input, dateTime: isForeign ? args.dateTime : undefined }
+      };
+    }
+
+    const station = await stationRegistry.resolve(input);
+    const isForeign = station.country !== 'NL';
+    return {
+      name: station.names.long,
+      isForeign,
+      ignoredDateTime: !isForeign && args.dateTime !== undefined,
+      params: isForeign
+        ? { station: undefined, uicCode: station.id.uicCode, dateTime: args.dateTime }
+        : { station: station.id.code, uicCode: undefined, dateTime: undefined }
+    };
+  }
+
+  private static stationBoardNotes(board: StationBoard, timeZoneOffset: number | undefined): string[] {
+    const notes: string[] = [];
+    if (board.ignoredDateTime) {
+      notes.push(`NS only supports dateTime for foreign stations, showing the current board for ${board.name}.`);
+    }
+    if (board.isForeign && timeZoneOffset !== undefined) {
+      notes.push(`Times are local to ${board.name} (${utcOffset(timeZoneOffset)}).`);
+    }
+    return notes;
+  }
+
+  /**
+   * OV-fiets locations at a station, or within the radius around an address
+   * or coordinates, nearest first
+   */
+  private async findOVFiets(args: GetOVFietsArgs, services: ApiServices): Promise<OVFietsSearch> {
+    const { nsApiService, stationRegistry, locationResolver } = services;
+    if (args.stationCode !== undefined) {
+      const code = await stationRegistry.resolveCode(args.stationCode);
+      const locations = NSServer.ovfietsLocations(await nsApiService.getOVFiets({ stationCode: code }));
+      const station = await stationRegistry.lookup(code);
+      return { place: station?.names.long ?? code, locations, from: station?.location ?? locations[0] };
+    }
+
+    const from = args.lat !== undefined && args.lng !== undefined
+      ? { name: `${args.lat}, ${args.lng}`, lat: args.lat, lng: args.lng }
+      : await locationResolver.resolve(args.address ?? '');
+    const radius = args.radius ?? NSServer.DEFAULT_OVFIETS_RADIUS_METERS;
+    const all = NSServer.ovfietsLocations(await nsApiService.getOVFiets({}));
+    const locations = all
+      .map((location) => ({ location, distance: distanceInMeters(from, location) }))
+      .filter(({ distance }) => distance <= radius)
+      .sort((a, b) => a.distance - b.distance)
+      .slice(0, NSServer.MAX_OVFIETS_LOCATIONS)
+      .map(({ location }) => location);
+    return { place: from.name, locations, from, all };
+  }
+
+  /**
+   * A station's accessibility flags merged with the facilities the places API
+   * lists around it. Undefined when NS has no details for the station.
+   */
+  private async loadStationFacilities(code: string, services: ApiServices, lang?: string): Promise<StationFacilities | undefined> {
+    const { nsApiService, stationRegistry } = services;
+    const entry = await stationRegistry.lookup(code);
+    const info = await nsApiService.getStationInfo({ query: entry?.names.long ?? code, includeNonPlannableStations: true });
+    const station = info.payload?.find((candidate) => candidate.id.code === code);
+    if (!station) {
+      return undefined;
+    }
+    const places = await nsApiService.getPlaces({
+      lat: station.location.lat,
+      lng: station.location.lng,
+      radius: station.radius || undefined,
+      limit: NSServer.MAX_STATION_PLACES,
+      lang
+    });
+    return StationFacilityAnalyzer.analyse(station, places.payload ?? []);
+  }
+
+  /**
+   * Keep the trips whose stations can all be used step-free or with travel
+   * assistance, annotated with how, and say why the others were left out.
+   * Trips through a station that could not be checked are left out as unverified;
+   * bus, tram and metro stops are only reported as not assessed.
+   */
+  private async checkAccessibility(
+    trips: TravelAdviceTrip[],
+    assistanceRequested: boolean,
+    services: ApiServices
+  ): Promise<{ accessible: TravelAdviceTrip[]; excluded: ExcludedTrip[]; unverified: ExcludedTrip[] }> {
+    const normalised = trips.map(NSApiService.normaliseTrip);
+    const uicCodes = [...new Set(normalised.flatMap(AccessibleTripAnalyzer.railStations))];
+
+    const stations = new Map<string, StationFacilities>();
+    await Promise.all(uicCodes.map(async (uicCode) => {
+      try {
+        const entry = await services.stationRegistry.resolve(uicCode);
+        const facilities = await this.loadStationFacilities(entry.id.code, services);
+        if (facilities) {
+          stations.set(uicCode, facilities);
+        }
+      } catch (error) {
+        // Left out of the map, so trips through the station are unverified
+        console.error(`[Accessibility] No details for station ${uicCode}`, error);
+      }
+    }));
+
+    const accessible: TravelAdviceTrip[] = [];
+    const excluded: ExcludedTrip[] = [];
+    const unverified: ExcludedTrip[] = [];
+    trips.forEach((trip, index) => {
+      const analysis = AccessibleTripAnalyzer.analyse(normalised[index], stations, assistanceRequested);
+      const leftOut = {
+        tripId: TripStore.idFor(trip),
+        departure: normalised[index].departure.plannedDeparture ?? ''
+      };
+      if (analysis.reasons.length > 0) {
+        excluded.push({ ...leftOut, reasons: analysis.reasons });
+      } else if (analysis.unverified.length > 0) {
+        unverified.push({ ...leftOut, reasons: analysis.unverified.map((station) => `accessibility of ${station} could not be checked`) });
+      } else {
+        accessible.push({ ...trip, accessibility: analysis.accessibility });
+      }
+    });
+    return { accessible, excluded, unverified };
+  }
+
+  /**
+   * Look up the price of every trip for one adult, by its route and planned
+   * times. Trips whose price cannot be found are returned without one.
+   */
+  private async withPrices(
+    trips: TravelAdviceTrip[],
+    travelClass: Price['travelClass'],
+    services: ApiServices
+  ): Promise<TravelAdviceTrip[]> {
+    return Promise.all(trips.map(async (trip) => {
+      const request = TripSelector.priceRequest(trip);
+      if (!request) {
+        return trip;
+      }
+      try {
+        const response = await services.nsApiService.getPrices({ ...request, travelClass });
+        const price = TripSelector.pickPrice(response.payload?.prices ?? [], travelClass);
+        return price ? { ...trip, price } : trip;
+      } catch (error) {
+        console.error(`[Prices] No price for trip ${TripStore.idFor(trip)}`, error);
+        return trip;
+      }
+    }));
+  }
+
+  private static missingPriceNote(trips: TravelAdviceTrip[]): string | undefined {
+    const missing = trips.filter((trip) => !trip.price).length;
+    return missing > 0
+      ? `No price was found for ${missing} trip${missing === 1 ? '' : 's'}, for example because part of it is abroad.`
+      : undefined;
+  }
+
+  private static fareNotes(comparison: FareComparison): string[] {
+    const notes: string[] = [];
+    // Return tickets are priced for both ways, so compare them with two singles
+    for (const travelClass of ['SECOND_CLASS', 'FIRST_CLASS'] as const) {
+      const cheapest = (travelType: 'single' | 'return') => Math.min(...comparison.options
+        .filter((option) => option.travelClass === travelClass && option.travelType === travelType)
+        .map((option) => option.totalInEuros));
+      const single = cheapest('single');
+      const ret = cheapest('return');
+      if (Number.isFinite(single) && Number.isFinite(ret)) {
+        const saving = Math.round((single * 2 - ret) * 100) / 100;
+        notes.push(`${travelClass === 'FIRST_CLASS' ? 'First' : 'Second'} class: a return costs €${ret.toFixed(2)}, ` +
+          (saving > 0 ? `€${saving.toFixed(2)} less than two singles.` : `the same as two singles (€${(single * 2).toFixed(2)}).`));
+      }
+    }
+    if (comparison.options.length > 0 && !comparison.options.some((option) => option.isJointJourney) &&
+      !comparison.unavailable.some((variant) => variant.isJointJourney)) {
+      notes.push('The joint journey discount makes no difference for this group and journey.');
+    }
+    for (const variant of comparison.unavailable) {
+      notes.push(`No ${variant.travelClass === 'FIRST_CLASS' ? 'first' : 'second'} class ${variant.travelType} price` +
+        `${variant.isJointJourney ? ' with joint journey discount' : ''}: ${variant.reason}`);
+    }
+    return notes;
+  }
+
+  private static facilityNotes(facilities: StationFacilities, track: string | undefined): string[] {
+    const notes: string[] = [];
+    if (track !== undefined && facilities.tracks.length === 0) {
+      notes.push(`${facilities.name} has no track ${track}.`);
+    }
+    if (facilities.tracks.some((candidate) => candidate.stepFree === 'unknown')) {
+      notes.push(`Not every track at ${facilities.name} is independently accessible and no lift was found for some of them. ` +
+        `Call get_station_disruptions for lifts out of order${facilities.hasTravelAssistance ? ', and book travel assistance to be sure' : ''}.`);
+    }
+    if (!facilities.hasKnownFacilities) {
+      notes.push(`NS lists no facilities for ${facilities.name}, so the list may be incomplete.`);
+    }
+    return notes;
+  }
+
+  private static ovfietsLocations(response: OVFietsResponse): OVFietsLocation[] {
+    return (response.payload ?? []).flatMap((entry) => entry.locations ?? []);
+  }
+
+  private ovfietsNotes(
+    place: string,
+    at: Date,
+    locations: OVFietsLocationStatus[],
+    alternatives: OVFietsLocationStatus[],
+    usually: OVFietsUsualAvailability[],
+    usuallyAt: Date | undefined
+  ): string[] {
+    const notes: string[] = [];
+    if (!locations.some(OVFietsAvailability.isUsable)) {
+      const when = Math.abs(at.getTime() - Date.now()) > 5 * 60 * 1000 ? ` at ${clockTime(toRfc3339(at))}` : '';
+      notes.push(alternatives.length > 0
+        ? `No OV-fiets can be rented at ${place}${when}. Nearest alternatives: ${alternatives.map(OVFietsRenderer.alternative).join('; ')}.`
+        : `No OV-fiets can be rented at ${place}${when}, and there are no alternatives with bikes nearby.`);
+    }
+    notes.push(...usually.map(OVFietsRenderer.usually));
+    if (usuallyAt !== undefined && usually.length === 0) {
+      const minutes = Math.round(this.config.ovfietsSampleIntervalMs / 60000);
+      notes.push(`Not enough counts yet to tell how many bikes are usually left at ${clockTime(toRfc3339(usuallyAt))}. ` +
+        `Bikes are counted every ${minutes} minutes at locations that have been looked up, so ask again in a few days.`);
+    }
+    return notes;
+  }
+
+  /**
+   * Stations and time window to check disruptions against, from a station,
+   * a route (the stations of its best trip) or a remembered trip
+   */
+  private async resolveImpactTarget(args: GetDisruptionsForArgs, services: ApiServices): Promise<ImpactTarget> {
+    const { nsApiService, stationRegistry, tripStore } = services;
+    const start = args.dateTime !== undefined ? Date.parse(args.dateTime) : Date.now();
+    const window = (from: number, minutes: number) => ({
+      from: toRfc3339(new Date(from)),
+      until: toRfc3339(new Date(from + minutes * 60 * 1000))
+    });
+
+    if (args.tripId !== undefined) {
+      const remembered = tripStore.find(args.tripId);
+      if (!remembered) {
+        throw ResponseFormatter.createMcpError(
+          ErrorCode.InvalidParams,
+          `Unknown trip "${args.tripId}". Use a trip ID returned by get_travel_advice in this session`
+        );
+      }
+      const { trip } = remembered;
+      const departure = Date.parse(trip.departure.plannedDeparture ?? '');
+      return {
+        description: `trip ${remembered.id} (${trip.departure.name} → ${trip.arrival.name})`,
+        stations: NSServer.tripStations(trip),
+        ...window(
+          args.dateTime !== undefined || Number.isNaN(departure) ? start : departure,
+          args.windowMinutes ?? trip.actualDurationInMinutes
+        )
+      };
+    }
+
+    if (args.station !== undefined) {
+      const station = await stationRegistry.resolve(args.station);
+      return {
+        description: station.names.long,
+        stations: [{ name: station.names.long, code: station.id.code, uicCode: station.id.uicCode }],
+        ...window(start, args.windowMinutes ?? NSServer.DEFAULT_IMPACT_WINDOW_MINUTES)
+      };
+    }
+
+    const from = await stationRegistry.resolve(args.fromStation!);
+    const to = await stationRegistry.resolve(args.toStation!);
+    const advice = await nsApiService.getTravelAdvice({
+      fromStation: from.id.code,
+      toStation: to.id.code,
+      dateTime: args.dateTime
+    });
+    const trip = advice.trips?.find((candidate) => candidate.optimal) ?? advice.trips?.[0];
+    const endpoints = [from, to].map((station) => ({ name: station.names.long, code: station.id.code, uicCode: station.id.uicCode }));
+    return {
+      description: `${from.names.long} → ${to.names.long}`,
+      stations: trip ? NSServer.routeStations(trip) : endpoints,
+      ...window(start, args.windowMinutes ?? NSServer.DEFAULT_IMPACT_WINDOW_MINUTES)
+    };
+  }
+
+  /**
+   * What a new watch follows: a station's departure board, the departures from
+   * a route's origin towards its destination, or the stops of a train, each with
+   * the stations to check disruptions against
+   */
+  private async resolveWatch(
+    args: CreateWatchArgs,
+    services: ApiServices
+  ): Promise<Omit<Watch, 'id' | 'createdAt' | 'recentChanges'>> {
+    const { nsApiService, stationRegistry } = services;
+    const from = args.from ?? toRfc3339(new Date());
+    const period = {
+      label: args.label,
+      from,
+      until: args.until ?? toRfc3339(new Date(Date.parse(from) + NSServer.DEFAULT_WATCH_HOURS * 60 * 60 * 1000))
+    };
+
+    if (args.train !== undefined) {
+      const journey = await nsApiService.getJourney({ train: args.train });
+      return {
+        kind: 'train',
+        description: `${journey.category ?? 'Train'} ${journey.trainNumber}${journey.destination ? ` to ${journey.destination}` : ''}`,
+        stations: NSServer.uniqueStations(journey.stops.map((stop) => ({ name: stop.name, uicCode: stop.uicCode }))),
+        train: journey.trainNumber,
+        ...period
+      };
+    }
+
+    if (args.station !== undefined) {
+      const station = await stationRegistry.resolve(args.station);
+      return {
+        kind: 'station',
+        description: station.names.long,
+        stations: [{ name: station.names.long, code: station.id.code, uicCode: station.id.uicCode }],
+        stationCode: station.id.code,
+        ...period
+      };
+    }
+
+    const origin = await stationRegistry.resolve(args.fromStation!);
+    const destination = await stationRegistry.resolve(args.toStation!);
+    const target = await this.resolveImpactTarget(
+      { fromStation: origin.id.code, toStation: destination.id.code, dateTime: args.from },
+      services
+    );
+    return {
+      kind: 'route',
+      description: target.description,
+      stations: target.stations,
+      stationCode: origin.id.code,
+      destinationUicCode: destination.id.uicCode,
+      ...period
+    };
+  }
+
+  // Stops of the trains in a trip, walking and cycling legs excluded
+  private static tripStations(trip: NormalisedTrip): ImpactStation[] {
+    return NSServer.uniqueStations(trip.legs
+      .filter(isRideable)
+      .flatMap((leg) => [leg.origin, ...leg.intermediateStops, leg.destination])
+      .map((stop) => ({ name: stop.name, uicCode: stop.uicCode })));
+  }
+
+  // Every station a trip's trains call at or pass through
+  private static routeStations(trip: TravelAdviceTrip): ImpactStation[] {
+    return NSServer.uniqueStations(trip.legs.flatMap((leg) => [
+      { name: leg.origin.name, uicCode: leg.origin.uicCode },
+      ...(leg.stops ?? []).map((stop) => ({ name: stop.name, uicCode: stop.uicCode })),
+      { name: leg.destination.name, uicCode: leg.destination.uicCode }
+    ]));
+  }
+
+  private static uniqueStations(stations: ImpactStation[]): ImpactStation[] {
+    const seen = new Set<string>();
+    return stations.filter((station) => {
+      const key = station.uicCode ?? station.name;
+      if (seen.has(key)) {
+        return false;
+      }
+      seen.add(key);
+      return true;
+    });
+  }
+
+  /**
+   * Resolve one end of a trip. An address within the radius of its nearest
+   * station is treated as that station, any other address as a point to walk
+   * or ride to the station from.
+   */
+  private async resolveTripEnd(end: TripEnd, services: ApiServices): Promise<ResolvedTripEnd> {
+    const { stationRegistry, locationResolver } = services;
+    if (end.station !== undefined) {
+      return { station: await stationRegistry.resolveCode(end.station) };
+    }
+    if (end.lat !== undefined && end.lng !== undefined) {
+      return { point: { name: end.name ?? `${end.lat}, ${end.lng}`, lat: end.lat, lng: end.lng, mode: end.mode } };
+    }
+
+    const address = end.address ?? '';
+    const location = await locationResolver.resolve(address);
+    const station = location.nearestStation;
+    if (station?.withinStationRadius) {
+      return { station: station.code, note: `"${address}" is at ${station.name}, so the trip uses that station.` };
+    }
+    return {
+      point: { name: end.name ?? location.name, lat: location.lat, lng: location.lng, mode: end.mode },
+      note: `"${address}" was found as ${location.name}` +
+        (station ? `, ${formatDistance(station.distanceInMeters)} from ${station.name}.` : '.')
+    };
+  }
+
+  private static accessMode(bike?: boolean, car?: boolean): AccessMode {
+    return bike ? 'BIKE' : car ? 'CAR' : 'WALK';
+  }
+
+  /**
+   * The normalised trip that get_travel_advice returns, with its ID and what the server added
+   */
+  private static advisedTrip(trip: TravelAdviceTrip): AdvisedTrip {
+    return {
+      id: TripStore.idFor(trip),
+      ...NSApiService.normaliseTrip(trip),
+      routeId: trip.routeId,
+      accessibility: trip.accessibility,
+      price: trip.price
+    };
+  }
+
+  private static scrollNotes(advice: TravelAdvice): string[] {
+    const notes: string[] = [];
+    if (advice.scrollRequestBackwardContext) {
+      notes.push(`For earlier trips, call again with context "${advice.scrollRequestBackwardContext}".`);
+    }
+    if (advice.scrollRequestForwardContext) {
+      notes.push(`For later trips, call again with context "${advice.scrollRequestForwardContext}".`);
+    }
+    return notes;
+  }
+
   async run(): Promise<void> {
-    const transport = new StdioServerTransport();
-    await this.server.connect(transport);
+    await this.watcher.start();
+    await this.ovfietsSampler.start();
+
+    if (this.config.transport === 'http') {
+      const authClients = this.config.authClients;
+      if (authClients.length === 0 && !['127.0.0.1', 'localhost', '::1'].includes(this.config.httpHost)) {
+        console.error('Warning: serving without authentication, set MCP_AUTH_CLIENTS_FILE to require bearer tokens');
+      }
+      const host = new HttpTransportHost((client) => this.createServer(client), {
+        host: this.config.httpHost,
+        port: this.config.httpPort,
+        authenticator: authClients.length > 0 ? new ClientAuthenticator(authClients) : undefined,
+        sessionIdleTimeoutMs: this.config.sessionIdleTimeoutMs
+      });
+      await host.listen();
+      this.setupShutdown(async () => {
+        await host.close();
+        await this.watcher.stop();
+        await this.ovfietsSampler.stop();
+      });
+      return;
+    }
+
+    const server = this.createServer();
+    await server.connect(new StdioServerTransport());
+    this.setupShutdown(async () => {
+      await server.close();
+      await this.watcher.stop();
+      await this.ovfietsSampler.stop();
+    });
+  }
+
+  private setupShutdown(close: () => Promise<void>): void {
+    let shuttingDown = false;
+    const shutdown = async () => {
+      if (shuttingDown) {
+        return;
+      }
+      shuttingDown = true;
+      try {
+        await close();
+      } catch (error) {
+        console.error('[Shutdown Error]', error);
+      }
+      process.exit(0);
+    };
+
+    process.on('SIGINT', shutdown);
+    process.on('SIGTERM', shutdown);
   }
 }
 
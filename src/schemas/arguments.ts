@@ -0,0 +1,694 @@
+import { z } from 'zod';
+import { parseDateTime, toRfc3339 } from '../utils/time.js';
+import {
+  CancelWatchArgs,
+  CompareFaresArgs,
+  CreateWatchArgs,
+  FindNearestStationsArgs,
+  GetArrivalsArgs,
+  GetCalamitiesArgs,
+  GetDeparturesArgs,
+  GetDisruptionArgs,
+  GetDisruptionsArgs,
+  GetDisruptionsForArgs,
+  GetJourneyArgs,
+  GetOVFietsArgs,
+  GetPricesArgs,
+  GetStationFacilitiesArgs,
+  GetStationDisruptionsArgs,
+  GetTravelAdviceArgs,
+  GetTripUpdateArgs,
+  ListWatchesArgs,
+  StationInfoArgs
+} from '../types.js';
+
+/**
+ * Tool argument schemas. Each one is typed against its interface in types.ts,
+ * and is both advertised as the tool's inputSchema and used to validate calls.
+ */
+
+const OUTPUT_OPTIONS = {
+  format: z.enum(['summary', 'markdown', 'json'])
+    .optional()
+    .describe('Output format: "summary" (one line per item), "markdown" (compact table) or "json" (raw NS response). Defaults to markdown')
+    .meta({ default: 'markdown' }),
+  fields: z.array(z.string())
+    .optional()
+    .describe('With format "json", only return these dot-separated fields per item (e.g. ["direction", "plannedDateTime", "product.number"])')
+};
+
+const LANG = z.enum(['nl', 'en']).optional().meta({ default: 'nl' });
+
+/**
+ * Accepts RFC3339 or a natural-language time and normalises it to an
+ * Europe/Amsterdam RFC3339 timestamp, so NS never receives a malformed one
+ */
+const DATE_TIME = z.string().transform((value, ctx) => {
+  const date = parseDateTime(value);
+  if (!date) {
+    ctx.issues.push({
+      code: 'custom',
+      input: value,
+      message: `could not read "${value}" as a date and time. Use RFC3339 (e.g. "2025-01-31T08:15:00+01:00") or a phrase such as "tomorrow 08:15", "in 30 minutes" or "next Monday morning"`
+    });
+    return z.NEVER;
+  }
+  return toRfc3339(date);
+});
+
+// "3529" or "IC 3529", normalised to the digits NS expects
+const TRAIN_NUMBER = z.string()
+  .regex(/^\s*(?:[A-Za-z]+\s*)?\d{1,6}\s*$/, 'expected a train number such as "3529" or "IC 3529"')
+  .transform((value) => value.replace(/\D/g, ''));
+
+const DATE_TIME_FORMATS = 'RFC3339 (e.g. "2025-01-31T08:15:00+01:00") or natural language such as "tomorrow 08:15", "in 30 minutes" or "next Monday morning", times without an offset are Europe/Amsterdam';
+
+export const GetDisruptionsArgsSchema: z.ZodType<GetDisruptionsArgs> = z.object({
+  isActive: z.boolean()
+    .optional()
+    .describe('Filter to only return active disruptions'),
+  type: z.enum(['MAINTENANCE', 'DISRUPTION'])
+    .optional()
+    .describe('Type of disruptions to return (e.g., MAINTENANCE, DISRUPTION)'),
+  lang: LANG
+    .describe('Language of the disruption texts. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetStationDisruptionsArgsSchema: z.ZodType<GetStationDisruptionsArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .describe('Station name or code to list disruptions for (e.g., "Utrecht Centraal" or UT)'),
+  lang: LANG
+    .describe('Language of the disruption texts. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetDisruptionArgsSchema: z.ZodType<GetDisruptionArgs> = z.object({
+  id: z.string()
+    .min(1)
+    .describe('Id of the disruption, maintenance or calamity, as returned by get_disruptions or get_station_disruptions'),
+  type: z.enum(['DISRUPTION', 'MAINTENANCE', 'CALAMITY'])
+    .optional()
+    .describe('Type of the disruption. Looked up in the current disruptions when not given'),
+  lang: LANG
+    .describe('Language of the disruption texts. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetCalamitiesArgsSchema: z.ZodType<GetCalamitiesArgs> = z.object({
+  lang: LANG
+    .describe('Language of the calamity texts. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+});
+
+const MAX_WATCH_DAYS = 31;
+
+const LATITUDE = z.number().min(-90).max(90);
+
+const LONGITUDE = z.number().min(-180).max(180);
+
+const ADDRESS = z.string().trim().min(1).max(200);
+
+const TRIP_ENDPOINT_REQUIREMENT = {
+  allOf: [
+    { anyOf: [{ required: ['fromStation'] }, { required: ['fromAddress'] }, { required: ['originLat', 'originLng'] }] },
+    { anyOf: [{ required: ['toStation'] }, { required: ['toAddress'] }, { required: ['destinationLat', 'destinationLng'] }] }
+  ]
+};
+
+export const GetTravelAdviceArgsSchema: z.ZodType<GetTravelAdviceArgs> = z.object({
+  fromStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Name, synonym, NS code or UIC code of departure station (e.g. "Amsterdam Centraal", "A\'dam CS", "ASD" or "8400058"). Required unless fromAddress or originLat and originLng are given'),
+  toStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Name, synonym, NS code or UIC code of destination station. Required unless toAddress or destinationLat and destinationLng are given'),
+  fromAddress: ADDRESS
+    .optional()
+    .describe('Address, place or "lat,lng" coordinates to start from instead of a station (e.g. "Jaarbeursplein 6, Utrecht" or "52.3389,4.8730"). Trips include the walk or ride to the first station'),
+  toAddress: ADDRESS
+    .optional()
+    .describe('Address, place or "lat,lng" coordinates to travel to instead of a station. Trips include the walk or ride from the last station'),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`Date and time to depart from the origin or arrive at the destination, as ${DATE_TIME_FORMATS}. Defaults to now`),
+  searchForArrival: z.boolean()
+    .optional()
+    .describe('If true, dateTime is treated as desired arrival time'),
+  context: z.string()
+    .min(1)
+    .optional()
+    .describe('Scroll context from a previous response (scrollRequestBackwardContext or scrollRequestForwardContext) to get earlier or later trips for the same search'),
+  originLat: LATITUDE
+    .optional()
+    .describe('Latitude of the origin, to start from an address or place instead of a station'),
+  originLng: LONGITUDE
+    .optional()
+    .describe('Longitude of the origin'),
+  originName: z.string()
+    .optional()
+    .describe('Display name of the origin coordinates'),
+  originWalk: z.boolean()
+    .optional()
+    .describe('Walk from the origin address or coordinates to the first station. The default for addresses'),
+  originBike: z.boolean()
+    .optional()
+    .describe('Cycle from the origin address or coordinates to the first station'),
+  originCar: z.boolean()
+    .optional()
+    .describe('Drive from the origin address or coordinates to the first station'),
+  destinationLat: LATITUDE
+    .optional()
+    .describe('Latitude of the destination, to end at an address or place instead of a station'),
+  destinationLng: LONGITUDE
+    .optional()
+    .describe('Longitude of the destination'),
+  destinationName: z.string()
+    .optional()
+    .describe('Display name of the destination coordinates'),
+  destinationWalk: z.boolean()
+    .optional()
+    .describe('Walk from the last station to the destination address or coordinates. The default for addresses'),
+  destinationBike: z.boolean()
+    .optional()
+    .describe('Cycle from the last station to the destination address or coordinates'),
+  destinationCar: z.boolean()
+    .optional()
+    .describe('Drive from the last station to the destination address or coordinates'),
+  viaStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Name or code of a station to travel via'),
+  viaWaitTime: z.number()
+    .int()
+    .min(0)
+    .max(24 * 60)
+    .optional()
+    .describe('Stopover at the via station in minutes'),
+  excludeHighSpeedTrains: z.boolean()
+    .optional()
+    .describe('Exclude high-speed trains such as ICE and Eurostar')
+    .meta({ default: false }),
+  excludeTrainsWithReservationRequired: z.boolean()
+    .optional()
+    .describe('Exclude trains that require a reservation')
+    .meta({ default: false }),
+  localTrainsOnly: z.boolean()
+    .optional()
+    .describe('Only use local trains (Sprinters and stoptrains)')
+    .meta({ default: false }),
+  disabledTransportModalities: z.array(z.enum(['BUS', 'FERRY', 'TRAM', 'METRO']))
+    .optional()
+    .describe('Other modes of transport to leave out of the trips'),
+  bikeCarriageRequired: z.boolean()
+    .optional()
+    .describe('Only plan trains that allow taking a bicycle along')
+    .meta({ default: false }),
+  travelAssistance: z.boolean()
+    .optional()
+    .describe('Plan with NS travel assistance (Reisassistentie), which needs extra time at transfers')
+    .meta({ default: false }),
+  searchForAccessibleTrip: z.boolean()
+    .optional()
+    .describe('Only return trips that are accessible without steps, e.g. for wheelchairs')
+    .meta({ default: false }),
+  addChangeTime: z.number()
+    .int()
+    .min(0)
+    .max(60)
+    .optional()
+    .describe('Extra minutes to add to every transfer'),
+  shorterChange: z.boolean()
+    .optional()
+    .describe('Allow transfers shorter than the planned transfer time')
+    .meta({ default: false }),
+  maxTransfers: z.number()
+    .int()
+    .min(0)
+    .max(10)
+    .optional()
+    .describe('Only return trips with at most this many transfers'),
+  accessible: z.boolean()
+    .optional()
+    .describe('Accessible mode: only plan step-free trips, leave out trips through stations that cannot be used without steps or travel assistance, and show per transfer the tracks, lifts, assistance meeting point and when to book assistance')
+    .meta({ default: false }),
+  withPrices: z.boolean()
+    .optional()
+    .describe('Look up the price of every trip for one adult. Implied by sortBy price and maxPriceInEuros')
+    .meta({ default: false }),
+  travelClass: z.enum(['FIRST_CLASS', 'SECOND_CLASS'])
+    .optional()
+    .describe('Travel class to look up prices for')
+    .meta({ default: 'SECOND_CLASS' }),
+  maxPriceInEuros: z.number()
+    .positive()
+    .optional()
+    .describe('Only return trips that cost at most this much for one adult. Trips whose price cannot be found are kept'),
+  maxDurationInMinutes: z.number()
+    .int()
+    .positive()
+    .optional()
+    .describe('Only return trips that take at most this many minutes, including any walk, bike ride or drive to and from the station'),
+  maxCrowdForecast: z.enum(['LOW', 'MEDIUM', 'HIGH'])
+    .optional()
+    .describe('Only return trips expected to be at most this busy. Trips without a forecast are kept'),
+  sortBy: z.enum(['departure', 'price', 'duration', 'transfers', 'crowd'])
+    .optional()
+    .describe('Order of the trips. Trips with an unknown price or crowding come last')
+    .meta({ default: 'departure' }),
+  ...OUTPUT_OPTIONS
+})
+  .superRefine((args, ctx) => {
+    for (const [end, station, address, lat, lng] of [
+      ['origin', 'fromStation', 'fromAddress', 'originLat', 'originLng'],
+      ['destination', 'toStation', 'toAddress', 'destinationLat', 'destinationLng']
+    ] as const) {
+      const hasCoordinates = args[lat] !== undefined || args[lng] !== undefined;
+      if (hasCoordinates && (args[lat] === undefined || args[lng] === undefined)) {
+        ctx.addIssue({ code: 'custom', path: [args[lat] === undefined ? lat : lng], message: `${lat} and ${lng} must be given together` });
+      }
+      const given = [args[station] !== undefined, args[address] !== undefined, hasCoordinates].filter(Boolean).length;
+      if (given > 1) {
+        ctx.addIssue({ code: 'custom', path: [args[station] !== undefined ? station : address], message: `Use only one of ${station}, ${address} or ${lat}/${lng} as the ${end}` });
+      }
+      if (given === 0) {
+        ctx.addIssue({ code: 'custom', path: [station], message: `One of ${station}, ${address} or ${lat}/${lng} is required` });
+      }
+
+      const modes = (['Walk', 'Bike', 'Car'] as const).filter((mode) => args[`${end}${mode}`]);
+      if (modes.length > 1) {
+        ctx.addIssue({ code: 'custom', path: [`${end}${modes[1]}`], message: `Choose only one of ${end}Walk, ${end}Bike and ${end}Car` });
+      }
+      if (modes.length > 0 && !hasCoordinates && args[address] === undefined) {
+        ctx.addIssue({ code: 'custom', path: [`${end}${modes[0]}`], message: `${end}${modes[0]} only applies when ${address} or ${lat}/${lng} are given` });
+      }
+    }
+    if (args.viaWaitTime !== undefined && args.viaStation === undefined) {
+      ctx.addIssue({ code: 'custom', path: ['viaWaitTime'], message: 'viaWaitTime requires viaStation' });
+    }
+  })
+  .meta(TRIP_ENDPOINT_REQUIREMENT);
+
+const STATION_BOARD_REQUIREMENT = {
+  anyOf: [
+    { required: ['station'] },
+    { required: ['uicCode'] }
+  ]
+};
+
+export const GetDeparturesArgsSchema: z.ZodType<GetDeparturesArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name, NS station code or UIC code (e.g., "Amsterdam Centraal", ASD or "Köln Hbf"). Foreign stations are requested by their UIC code automatically. Required if uicCode is not provided'),
+  uicCode: z.string()
+    .min(1)
+    .optional()
+    .describe('UIC code for the station (e.g., 8015458 for Köln Hbf), for foreign stations not known by name. Takes precedence over station. Required if station is not provided'),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`Date and time to list departures from, as ${DATE_TIME_FORMATS}. Only supported for departures at foreign stations. Defaults to now`),
+  maxJourneys: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Number of departures to return')
+    .meta({ default: 40 }),
+  lang: LANG
+    .describe('Language for localizing the departures list. Only a small subset of text is translated, mainly notes. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+})
+  .refine((args) => args.station !== undefined || args.uicCode !== undefined, {
+    message: 'Either station or uicCode is required'
+  })
+  .meta(STATION_BOARD_REQUIREMENT);
+
+export const GetOVFietsArgsSchema: z.ZodType<GetOVFietsArgs> = z.object({
+  stationCode: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name or code to check OV-fiets availability for (e.g., "Amsterdam Centraal" or ASD). Required unless address or lat and lng are given'),
+  address: ADDRESS
+    .optional()
+    .describe('Address, place or "lat,lng" coordinates to find OV-fiets locations around, within radius'),
+  lat: LATITUDE
+    .optional()
+    .describe('Latitude to find OV-fiets locations around'),
+  lng: LONGITUDE
+    .optional()
+    .describe('Longitude to find OV-fiets locations around'),
+  radius: z.number()
+    .int()
+    .min(100)
+    .max(20000)
+    .optional()
+    .describe('Search radius in metres around address or lat/lng')
+    .meta({ default: 1500 }),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`When the bike is needed, to check the opening hours, as ${DATE_TIME_FORMATS}. Defaults to now. Bike counts are always live`),
+  usuallyAt: DATE_TIME
+    .optional()
+    .describe('Time to report how many bikes are usually left, e.g. "18:00" or "saturday 18:00", from counts the server collected earlier on the same kind of day'),
+  ...OUTPUT_OPTIONS
+})
+  .superRefine((args, ctx) => {
+    const hasCoordinates = args.lat !== undefined || args.lng !== undefined;
+    if (hasCoordinates && (args.lat === undefined || args.lng === undefined)) {
+      ctx.addIssue({ code: 'custom', path: [args.lat === undefined ? 'lat' : 'lng'], message: 'lat and lng must be given together' });
+    }
+    const given = [args.stationCode !== undefined, args.address !== undefined, hasCoordinates].filter(Boolean).length;
+    if (given !== 1) {
+      ctx.addIssue({ code: 'custom', path: ['stationCode'], message: 'Give exactly one of stationCode, address or lat/lng' });
+    }
+    if (args.radius !== undefined && args.stationCode !== undefined) {
+      ctx.addIssue({ code: 'custom', path: ['radius'], message: 'radius only applies to address or lat/lng' });
+    }
+  })
+  .meta({ oneOf: [{ required: ['stationCode'] }, { required: ['address'] }, { required: ['lat', 'lng'] }] });
+
+export const StationInfoArgsSchema: z.ZodType<StationInfoArgs> = z.object({
+  query: z.string()
+    .min(1)
+    .describe('Station name or code to search for'),
+  includeNonPlannableStations: z.boolean()
+    .optional()
+    .describe('Include stations where trains do not stop regularly')
+    .meta({ default: false }),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(50)
+    .optional()
+    .describe('Maximum number of results to return')
+    .meta({ default: 10 }),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetStationFacilitiesArgsSchema: z.ZodType<GetStationFacilitiesArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .describe('Station name or code to list facilities for (e.g., "Utrecht Centraal" or UT)'),
+  categories: z.array(z.enum([
+    'LIFT', 'ESCALATOR', 'TOILET', 'TRAVEL_ASSISTANCE', 'TICKETS', 'FOOD', 'SHOP', 'PARKING', 'BIKE_PARKING', 'OV_FIETS', 'OTHER'
+  ]))
+    .min(1)
+    .optional()
+    .describe('Only list these kinds of facilities'),
+  track: z.string()
+    .trim()
+    .regex(/^\d{1,2}[A-Za-z]?$/, 'expected a track such as "5" or "11a"')
+    .optional()
+    .describe('Only report the accessibility of this track, e.g. "5" or "11a"'),
+  lang: LANG
+    .describe('Language of the facility names. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+});
+
+export const FindNearestStationsArgsSchema: z.ZodType<FindNearestStationsArgs> = z.object({
+  address: ADDRESS
+    .optional()
+    .describe('Address, place or "lat,lng" coordinates to find stations near (e.g. "Jaarbeursplein 6, Utrecht"). Required unless lat and lng are given'),
+  lat: LATITUDE
+    .optional()
+    .describe('Latitude to find stations near'),
+  lng: LONGITUDE
+    .optional()
+    .describe('Longitude to find stations near'),
+  limit: z.number()
+    .int()
+    .min(1)
+    .max(20)
+    .optional()
+    .describe('Maximum number of stations to return')
+    .meta({ default: 5 }),
+  ...OUTPUT_OPTIONS
+})
+  .superRefine((args, ctx) => {
+    const hasCoordinates = args.lat !== undefined || args.lng !== undefined;
+    if (hasCoordinates && (args.lat === undefined || args.lng === undefined)) {
+      ctx.addIssue({ code: 'custom', path: [args.lat === undefined ? 'lat' : 'lng'], message: 'lat and lng must be given together' });
+    }
+    if (hasCoordinates === (args.address !== undefined)) {
+      ctx.addIssue({ code: 'custom', path: ['address'], message: 'Give either address or lat/lng' });
+    }
+  })
+  .meta({ oneOf: [{ required: ['address'] }, { required: ['lat', 'lng'] }] });
+
+export const GetCurrentTimeArgsSchema = z.object({});
+
+export const GetArrivalsArgsSchema: z.ZodType<GetArrivalsArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name, NS station code or UIC code (e.g., "Amsterdam Centraal", ASD or "Köln Hbf"). Foreign stations are requested by their UIC code automatically. Required if uicCode is not provided'),
+  uicCode: z.string()
+    .min(1)
+    .optional()
+    .describe('UIC code for the station (e.g., 8015458 for Köln Hbf), for foreign stations not known by name. Takes precedence over station. Required if station is not provided'),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`Date and time to list arrivals from, as ${DATE_TIME_FORMATS}. Only supported for arrivals at foreign stations. Defaults to now`),
+  maxJourneys: z.number()
+    .int()
+    .min(1)
+    .max(100)
+    .optional()
+    .describe('Number of arrivals to return')
+    .meta({ default: 40 }),
+  lang: LANG
+    .describe('Language for localizing the arrivals list. Only a small subset of text is translated, mainly notes. Defaults to Dutch'),
+  ...OUTPUT_OPTIONS
+})
+  .refine((args) => args.station !== undefined || args.uicCode !== undefined, {
+    message: 'Either station or uicCode is required'
+  })
+  .meta(STATION_BOARD_REQUIREMENT);
+
+export const GetPricesArgsSchema: z.ZodType<GetPricesArgs> = z.object({
+  fromStation: z.string()
+    .min(1)
+    .describe('Name, station code or UIC code of the origin station'),
+  toStation: z.string()
+    .min(1)
+    .describe('Name, station code or UIC code of the destination station'),
+  travelClass: z.enum(['FIRST_CLASS', 'SECOND_CLASS'])
+    .optional()
+    .describe('Travel class to return the price for'),
+  travelType: z.enum(['single', 'return'])
+    .optional()
+    .describe('Return the price for a single or return trip')
+    .meta({ default: 'single' }),
+  isJointJourney: z.boolean()
+    .optional()
+    .describe('Set to true to return the price including joint journey discount')
+    .meta({ default: false }),
+  adults: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Number of adults to return the price for')
+    .meta({ default: 1 }),
+  children: z.number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of children to return the price for')
+    .meta({ default: 0 }),
+  routeId: z.string()
+    .optional()
+    .describe('Specific identifier for the route to take between the two stations. This routeId is returned in the /api/v3/trips call.'),
+  plannedDepartureTime: DATE_TIME
+    .optional()
+    .describe(`Planned departure time, as ${DATE_TIME_FORMATS}. Used to find the correct route if multiple routes are possible.`),
+  plannedArrivalTime: DATE_TIME
+    .optional()
+    .describe(`Planned arrival time, as ${DATE_TIME_FORMATS}. Used to find the correct route if multiple routes are possible.`),
+  ...OUTPUT_OPTIONS
+});
+
+export const CompareFaresArgsSchema: z.ZodType<CompareFaresArgs> = z.object({
+  fromStation: z.string()
+    .min(1)
+    .describe('Name, station code or UIC code of the origin station'),
+  toStation: z.string()
+    .min(1)
+    .describe('Name, station code or UIC code of the destination station'),
+  adults: z.number()
+    .int()
+    .min(1)
+    .optional()
+    .describe('Number of adults in the group')
+    .meta({ default: 1 }),
+  children: z.number()
+    .int()
+    .min(0)
+    .optional()
+    .describe('Number of children in the group')
+    .meta({ default: 0 }),
+  travelClass: z.enum(['FIRST_CLASS', 'SECOND_CLASS'])
+    .optional()
+    .describe('Only compare this travel class. Both are compared by default'),
+  travelType: z.enum(['single', 'return'])
+    .optional()
+    .describe('Only compare single or return tickets. Both are compared by default'),
+  routeId: z.string()
+    .optional()
+    .describe('Route to price, as returned in the trips of get_travel_advice'),
+  plannedDepartureTime: DATE_TIME
+    .optional()
+    .describe(`Planned departure time, as ${DATE_TIME_FORMATS}. Used to find the correct route if multiple routes are possible.`),
+  plannedArrivalTime: DATE_TIME
+    .optional()
+    .describe(`Planned arrival time, as ${DATE_TIME_FORMATS}. Used to find the correct route if multiple routes are possible.`),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetTripUpdateArgsSchema: z.ZodType<GetTripUpdateArgs> = z.object({
+  tripId: z.string()
+    .min(1)
+    .describe('Trip ID from get_travel_advice (e.g. "3f9a1c2e"), or the trip\'s uid or ctxRecon'),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetJourneyArgsSchema: z.ZodType<GetJourneyArgs> = z.object({
+  train: TRAIN_NUMBER
+    .describe('Train number, as in product.number of a departure or trip leg (e.g. "3529" or "IC 3529")'),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`Date of the train's run, as ${DATE_TIME_FORMATS}. Defaults to today`),
+  station: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name or code to show the train composition at, as it can change along the way. Defaults to where the train starts'),
+  ...OUTPUT_OPTIONS
+});
+
+export const GetDisruptionsForArgsSchema: z.ZodType<GetDisruptionsForArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name or code to check'),
+  fromStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Origin of a route to check, together with toStation. The route is taken from the travel advice between them'),
+  toStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Destination of a route to check, together with fromStation'),
+  tripId: z.string()
+    .min(1)
+    .optional()
+    .describe('Trip ID from get_travel_advice, to check the stations and time window of that trip'),
+  dateTime: DATE_TIME
+    .optional()
+    .describe(`Start of the time window, as ${DATE_TIME_FORMATS}. Defaults to now, or the departure of the trip`),
+  windowMinutes: z.number()
+    .int()
+    .min(1)
+    .max(7 * 24 * 60)
+    .optional()
+    .describe('Length of the time window in minutes. Defaults to 120, or the duration of the trip'),
+  ...OUTPUT_OPTIONS
+})
+  .superRefine((args, ctx) => {
+    const targets = [
+      args.station !== undefined,
+      args.fromStation !== undefined || args.toStation !== undefined,
+      args.tripId !== undefined
+    ].filter(Boolean).length;
+    if (targets !== 1) {
+      ctx.addIssue({ code: 'custom', path: [], message: 'Give exactly one of station, fromStation with toStation, or tripId' });
+    }
+    if ((args.fromStation === undefined) !== (args.toStation === undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [args.fromStation === undefined ? 'fromStation' : 'toStation'],
+        message: 'fromStation and toStation must be given together'
+      });
+    }
+  })
+  .meta({
+    oneOf: [
+      { required: ['station'] },
+      { required: ['fromStation', 'toStation'] },
+      { required: ['tripId'] }
+    ]
+  });
+
+export const CreateWatchArgsSchema: z.ZodType<CreateWatchArgs> = z.object({
+  station: z.string()
+    .min(1)
+    .optional()
+    .describe('Station name or code to watch the departures and disruptions of'),
+  fromStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Origin of a route to watch, together with toStation. Follows the departures towards toStation and disruptions along the route'),
+  toStation: z.string()
+    .min(1)
+    .optional()
+    .describe('Destination of a route to watch, together with fromStation'),
+  train: TRAIN_NUMBER
+    .optional()
+    .describe('Train number to watch the stops and disruptions of (e.g. "3529" or "IC 3529")'),
+  from: DATE_TIME
+    .optional()
+    .describe(`Start of the watched period, as ${DATE_TIME_FORMATS}. Defaults to now`),
+  until: DATE_TIME
+    .optional()
+    .describe(`End of the watched period, as ${DATE_TIME_FORMATS}. Defaults to a day after the start, at most ${MAX_WATCH_DAYS} days`),
+  label: z.string()
+    .min(1)
+    .optional()
+    .describe('Name for the watch, e.g. "Commute"'),
+  ...OUTPUT_OPTIONS
+})
+  .superRefine((args, ctx) => {
+    const targets = [
+      args.station !== undefined,
+      args.fromStation !== undefined || args.toStation !== undefined,
+      args.train !== undefined
+    ].filter(Boolean).length;
+    if (targets !== 1) {
+      ctx.addIssue({ code: 'custom', path: [], message: 'Give exactly one of station, fromStation with toStation, or train' });
+    }
+    if ((args.fromStation === undefined) !== (args.toStation === undefined)) {
+      ctx.addIssue({
+        code: 'custom',
+        path: [args.fromStation === undefined ? 'fromStation' : 'toStation'],
+        message: 'fromStation and toStation must be given together'
+      });
+    }
+    const from = args.from !== undefined ? Date.parse(args.from) : Date.now();
+    const until = args.until !== undefined ? Date.parse(args.until) : undefined;
+    if (until !== undefined && (until <= from || until <= Date.now())) {
+      ctx.addIssue({ code: 'custom', path: ['until'], message: 'until must be in the future and after from' });
+    }
+    if (until !== undefined && until - from > MAX_WATCH_DAYS * 24 * 60 * 60 * 1000) {
+      ctx.addIssue({ code: 'custom', path: ['until'], message: `a watch can last at most ${MAX_WATCH_DAYS} days` });
+    }
+  })
+  .meta({
+    oneOf: [
+      { required: ['station'] },
+      { required: ['fromStation', 'toStation'] },
+      { required: ['train'] }
+    ]
+  });
+
+export const ListWatchesArgsSchema: z.ZodType<ListWatchesArgs> = z.object({
+  ...OUTPUT_OPTIONS
+});
+
+export const CancelWatchArgsSchema: z.ZodType<CancelWatchArgs> = z.object({
+  watchId: z.string()
+    .min(1)
+    .describe('Id of the watch, as returned by create_watch or list_watches'),
+  ...OUTPUT_OPTIONS
+});
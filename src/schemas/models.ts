@@ -0,0 +1,358 @@
+import { z } from 'zod';
+import {
+  AdvisedTrip,
+  DisruptionImpact,
+  ExcludedTrip,
+  FareComparison,
+  ImpactStation,
+  ImpactTarget,
+  NearbyStation,
+  NormalisedLeg,
+  NormalisedStop,
+  NormalisedTrip,
+  OVFietsLocationStatus,
+  OVFietsUsualAvailability,
+  ResolvedLocation,
+  StationFacilities,
+  TrainComposition,
+  TravelAdviceResult,
+  TrainJourney,
+  TrainJourneyStop,
+  TripAccessibility,
+  TripChange,
+  Watch
+} from '../types.js';
+import { OVFietsLocationSchema, PriceSchema } from './responses.js';
+
+/**
+ * Schemas of the server's own models, for tools whose structured output is
+ * derived from NS data rather than passed through
+ */
+
+const CrowdForecastSchema = z.enum(['UNKNOWN', 'LOW', 'MEDIUM', 'HIGH']);
+
+const TrackStepFreeSchema = z.enum(['yes', 'via_lift', 'no', 'unknown']);
+
+const NormalisedStopSchema: z.ZodType<NormalisedStop> = z.object({
+  name: z.string(),
+  uicCode: z.string().optional(),
+  countryCode: z.string().optional(),
+  plannedArrival: z.string().optional(),
+  actualArrival: z.string().optional(),
+  plannedDeparture: z.string().optional(),
+  actualDeparture: z.string().optional(),
+  plannedTrack: z.string().optional(),
+  actualTrack: z.string().optional(),
+  delayMinutes: z.number(),
+  cancelled: z.boolean(),
+  passing: z.boolean()
+});
+
+const NormalisedLegSchema: z.ZodType<NormalisedLeg> = z.object({
+  index: z.number(),
+  mode: z.string(),
+  name: z.string(),
+  category: z.string().optional(),
+  trainNumber: z.string().optional(),
+  operator: z.string().optional(),
+  direction: z.string().optional(),
+  cancelled: z.boolean(),
+  alternativeTransport: z.boolean(),
+  origin: NormalisedStopSchema,
+  destination: NormalisedStopSchema,
+  intermediateStops: z.array(NormalisedStopSchema),
+  crowdForecast: CrowdForecastSchema.optional(),
+  punctuality: z.number().optional(),
+  crossPlatformTransfer: z.boolean(),
+  changePossible: z.boolean(),
+  notes: z.array(z.string()),
+  transferMessages: z.array(z.string())
+});
+
+export const NormalisedTripSchema: z.ZodType<NormalisedTrip> = z.object({
+  uid: z.string(),
+  ctxRecon: z.string().optional(),
+  status: z.string(),
+  optimal: z.boolean(),
+  departure: NormalisedStopSchema,
+  arrival: NormalisedStopSchema,
+  plannedDurationInMinutes: z.number(),
+  actualDurationInMinutes: z.number(),
+  transfers: z.number(),
+  crowdForecast: CrowdForecastSchema.optional(),
+  punctuality: z.number().optional(),
+  fareInCents: z.number().optional(),
+  shareUrl: z.string().optional(),
+  messages: z.array(z.string()),
+  legs: z.array(NormalisedLegSchema)
+});
+
+const TripAccessibilitySchema: z.ZodType<TripAccessibility> = z.object({
+  stops: z.array(z.object({
+    station: z.string(),
+    code: z.string().optional(),
+    role: z.enum(['origin', 'transfer', 'destination']),
+    arrivalTrack: z.string().optional(),
+    departureTrack: z.string().optional(),
+    transferMinutes: z.number().optional(),
+    stepFree: TrackStepFreeSchema,
+    lifts: z.array(z.string()),
+    travelAssistance: z.boolean(),
+    meetingPoint: z.string().optional()
+  })),
+  notAssessed: z.array(z.object({
+    station: z.string(),
+    role: z.enum(['origin', 'transfer', 'destination']),
+    mode: z.string()
+  })),
+  assistanceNeeded: z.boolean(),
+  bookAssistanceBy: z.string().optional()
+});
+
+const AdvisedTripSchema: z.ZodType<AdvisedTrip> = z.intersection(
+  NormalisedTripSchema,
+  z.object({
+    id: z.string(),
+    routeId: z.string().optional(),
+    accessibility: TripAccessibilitySchema.optional(),
+    price: PriceSchema.optional()
+  })
+);
+
+const ExcludedTripSchema: z.ZodType<ExcludedTrip> = z.object({
+  tripId: z.string(),
+  departure: z.string(),
+  reasons: z.array(z.string())
+});
+
+export const TravelAdviceResultSchema: z.ZodType<TravelAdviceResult> = z.object({
+  trips: z.array(AdvisedTripSchema),
+  excludedTrips: z.array(ExcludedTripSchema).optional(),
+  unverifiedTrips: z.array(ExcludedTripSchema).optional(),
+  scrollRequestBackwardContext: z.string().optional(),
+  scrollRequestForwardContext: z.string().optional()
+});
+
+export const TripChangeSchema: z.ZodType<TripChange> = z.object({
+  type: z.enum(['STATUS', 'ROUTE_CHANGED', 'DELAY', 'TRACK_CHANGE', 'CANCELLED', 'RESTORED', 'MISSED_TRANSFER']),
+  legIndex: z.number().optional(),
+  station: z.string().optional(),
+  previous: z.string().optional(),
+  current: z.string().optional(),
+  message: z.string()
+});
+
+const TrainJourneyStopSchema: z.ZodType<TrainJourneyStop> = z.object({
+  name: z.string(),
+  uicCode: z.string().optional(),
+  status: z.string(),
+  plannedArrival: z.string().optional(),
+  actualArrival: z.string().optional(),
+  plannedDeparture: z.string().optional(),
+  actualDeparture: z.string().optional(),
+  plannedTrack: z.string().optional(),
+  actualTrack: z.string().optional(),
+  delayMinutes: z.number(),
+  cancelled: z.boolean(),
+  crowdForecast: CrowdForecastSchema.optional()
+});
+
+const TrainCompositionSchema: z.ZodType<TrainComposition> = z.object({
+  source: z.enum(['virtual-train', 'journey-detail']),
+  trainType: z.string().optional(),
+  carriages: z.number().optional(),
+  lengthInMeters: z.number().optional(),
+  seats: z.number().optional(),
+  shortened: z.boolean(),
+  parts: z.array(z.object({
+    identifier: z.string().optional(),
+    type: z.string().optional(),
+    destination: z.string().optional(),
+    carriages: z.number().optional(),
+    facilities: z.array(z.string()),
+    firstClassSeats: z.number().optional(),
+    secondClassSeats: z.number().optional()
+  }))
+});
+
+export const TrainJourneySchema: z.ZodType<TrainJourney> = z.object({
+  trainNumber: z.string(),
+  category: z.string().optional(),
+  operator: z.string().optional(),
+  destination: z.string().optional(),
+  stops: z.array(TrainJourneyStopSchema),
+  lastStop: z.string().optional(),
+  nextStop: z.string().optional(),
+  composition: TrainCompositionSchema.optional(),
+  position: z.object({
+    lat: z.number(),
+    lng: z.number(),
+    speedKmh: z.number().optional(),
+    heading: z.number().optional()
+  }).optional(),
+  notes: z.array(z.string())
+});
+
+export const DisruptionImpactSchema: z.ZodType<DisruptionImpact> = z.object({
+  id: z.string(),
+  type: z.string(),
+  title: z.string(),
+  isActive: z.boolean(),
+  impact: z.number().optional(),
+  start: z.string(),
+  end: z.string(),
+  period: z.string().optional(),
+  situation: z.string().optional(),
+  cause: z.string().optional(),
+  affectedStations: z.array(z.string()),
+  consequences: z.array(z.string()),
+  additionalTravelTime: z.looseObject({
+    label: z.string(),
+    shortLabel: z.string(),
+    minimumDurationInMinutes: z.number().optional(),
+    maximumDurationInMinutes: z.number()
+  }).optional(),
+  alternativeTransport: z.array(z.object({
+    start: z.string(),
+    end: z.string(),
+    label: z.string(),
+    locations: z.array(z.string())
+  })),
+  advices: z.array(z.string())
+});
+
+const ImpactStationSchema: z.ZodType<ImpactStation> = z.object({
+  name: z.string(),
+  code: z.string().optional(),
+  uicCode: z.string().optional()
+});
+
+export const ImpactTargetSchema: z.ZodType<ImpactTarget> = z.object({
+  description: z.string(),
+  stations: z.array(ImpactStationSchema),
+  from: z.string(),
+  until: z.string()
+});
+
+export const WatchSchema: z.ZodType<Watch> = z.object({
+  id: z.string(),
+  kind: z.enum(['station', 'route', 'train']),
+  label: z.string().optional(),
+  description: z.string(),
+  stations: z.array(ImpactStationSchema),
+  stationCode: z.string().optional(),
+  destinationUicCode: z.string().optional(),
+  train: z.string().optional(),
+  from: z.string(),
+  until: z.string(),
+  createdAt: z.string(),
+  lastCheckedAt: z.string().optional(),
+  recentChanges: z.array(z.object({
+    type: z.enum(['DISRUPTION_NEW', 'DISRUPTION_UPDATED', 'DISRUPTION_ENDED', 'DELAY', 'CANCELLED', 'RESTORED', 'TRACK_CHANGE']),
+    detectedAt: z.string(),
+    message: z.string()
+  }))
+});
+
+export const NearbyStationSchema: z.ZodType<NearbyStation> = z.object({
+  code: z.string(),
+  uicCode: z.string(),
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  distanceInMeters: z.number(),
+  withinStationRadius: z.boolean()
+});
+
+export const ResolvedLocationSchema: z.ZodType<ResolvedLocation> = z.object({
+  name: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  source: z.enum(['coordinates', 'places']),
+  nearestStation: NearbyStationSchema.optional()
+});
+
+export const OVFietsLocationStatusSchema: z.ZodType<OVFietsLocationStatus> = z.intersection(
+  OVFietsLocationSchema,
+  z.object({
+    availableBikes: z.number().optional(),
+    openAtTime: z.boolean().optional(),
+    distanceInMeters: z.number().optional()
+  })
+);
+
+export const OVFietsUsualAvailabilitySchema: z.ZodType<OVFietsUsualAvailability> = z.object({
+  locationCode: z.string(),
+  name: z.string(),
+  timeOfDay: z.string(),
+  dayType: z.enum(['weekday', 'weekend']),
+  samples: z.number(),
+  days: z.number(),
+  medianBikes: z.number(),
+  minBikes: z.number(),
+  maxBikes: z.number(),
+  emptyShare: z.number()
+});
+
+export const StationFacilitiesSchema: z.ZodType<StationFacilities> = z.object({
+  code: z.string(),
+  uicCode: z.string(),
+  name: z.string(),
+  hasKnownFacilities: z.boolean(),
+  availableForAccessibleTravel: z.boolean(),
+  hasTravelAssistance: z.boolean(),
+  areTracksIndependentlyAccessible: z.boolean(),
+  tracks: z.array(z.object({
+    track: z.string(),
+    stepFree: TrackStepFreeSchema,
+    lifts: z.array(z.string())
+  })),
+  facilities: z.array(z.object({
+    category: z.enum([
+      'LIFT', 'ESCALATOR', 'TOILET', 'TRAVEL_ASSISTANCE', 'TICKETS', 'FOOD', 'SHOP', 'PARKING', 'BIKE_PARKING', 'OV_FIETS', 'OTHER'
+    ]),
+    name: z.string(),
+    placeType: z.string(),
+    description: z.string().optional(),
+    tracks: z.array(z.string()),
+    openNow: z.boolean().optional(),
+    openingHours: z.array(z.object({
+      dayOfWeek: z.number(),
+      startTime: z.string(),
+      endTime: z.string(),
+      closesNextDay: z.boolean()
+    })).optional(),
+    lat: z.number(),
+    lng: z.number()
+  }))
+});
+
+const FareVariantSchema = z.object({
+  travelClass: z.enum(['FIRST_CLASS', 'SECOND_CLASS']),
+  travelType: z.enum(['single', 'return']),
+  isJointJourney: z.boolean()
+});
+
+export const FareComparisonSchema: z.ZodType<FareComparison> = z.object({
+  fromStation: z.string(),
+  toStation: z.string(),
+  adults: z.number(),
+  children: z.number(),
+  options: z.array(FareVariantSchema.extend({
+    productId: z.string(),
+    displayName: z.string(),
+    operatorName: z.string(),
+    totalInEuros: z.number(),
+    perAdultInEuros: z.number(),
+    perChildInEuros: z.number(),
+    discountInEuros: z.number(),
+    discountType: z.string(),
+    discountExplanation: z.string().optional(),
+    isBestOption: z.boolean(),
+    isCheapest: z.boolean(),
+    aboveCheapestInEuros: z.number()
+  })),
+  unavailable: z.array(FareVariantSchema.extend({
+    reason: z.string()
+  }))
+});
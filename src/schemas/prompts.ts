@@ -0,0 +1,176 @@
+import { z } from 'zod';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ResponseFormatter } from '../utils/ResponseFormatter.js';
+
+interface PromptDefinition<S extends z.ZodObject = z.ZodObject> {
+  title: string;
+  description: string;
+  arguments: S;  // Prompt arguments are always strings
+  instructions: (args: z.output<S>) => string[];
+}
+
+// Types each prompt's instructions against its own arguments
+function definePrompt<S extends z.ZodObject>(prompt: PromptDefinition<S>): PromptDefinition<S> {
+  return prompt;
+}
+
+const STATION = z.string().trim().min(1);
+
+const COUNT = z.string()
+  .regex(/^\s*\d{1,2}\s*$/, 'expected a whole number such as "2"')
+  .transform((value) => value.trim());
+
+/**
+ * Prompts for common rail travel questions. Each one expands into instructions
+ * naming the tools to call, in order, so clients can offer them as slash commands.
+ */
+export const PROMPTS = {
+  plan_commute: definePrompt({
+    title: 'Plan a commute',
+    description: 'Find the best regular train connection between home and work, what it costs and whether anything disrupts it',
+    arguments: z.object({
+      fromStation: STATION.describe('Station the commute starts from, e.g. "Almere Centrum"'),
+      toStation: STATION.describe('Station the commute goes to, e.g. "Amsterdam Zuid"'),
+      arriveBy: z.string().optional().describe('Time to arrive by, e.g. "09:00"'),
+      days: z.string().optional().describe('Days of the commute, e.g. "Monday to Thursday"')
+    }),
+    instructions: (args) => [
+      `Plan my commute from ${args.fromStation} to ${args.toStation}` +
+        `${args.arriveBy ? `, arriving by ${args.arriveBy}` : ''}${args.days ? ` on ${args.days}` : ''}.`,
+      `1. Call get_travel_advice from ${args.fromStation} to ${args.toStation}` +
+        (args.arriveBy
+          ? ` with dateTime "tomorrow ${args.arriveBy}" and searchForArrival true.`
+          : ' with dateTime "tomorrow 08:00".'),
+      '2. Pick the trip that arrives in time with the fewest transfers, and mention the trip before it as a fallback.',
+      `3. Call get_prices from ${args.fromStation} to ${args.toStation} for a return trip in second class, and say what a week of commuting costs.`,
+      `4. Call get_disruptions_for with fromStation ${args.fromStation} and toStation ${args.toStation} for the coming days, and mention anything that affects the commute.`,
+      '5. Offer to call create_watch for the route, so I am told when something changes.'
+    ]
+  }),
+  last_train_home: definePrompt({
+    title: 'Last train home',
+    description: 'Find the last train connection home tonight, and whether it is disrupted',
+    arguments: z.object({
+      fromStation: STATION.describe('Station to leave from, e.g. "Utrecht Centraal"'),
+      toStation: STATION.describe('Home station, e.g. "Zwolle"'),
+      date: z.string().optional().describe('Night to travel, e.g. "tonight" or "next Saturday". Defaults to tonight')
+    }),
+    instructions: (args) => [
+      `What is the last train from ${args.fromStation} home to ${args.toStation} ${args.date ?? 'tonight'}?`,
+      `1. Call get_travel_advice from ${args.fromStation} to ${args.toStation} with dateTime "${args.date ?? 'today'} 23:00".`,
+      '2. Keep calling get_travel_advice with the context for later trips until there are no later trips that night, and take the last trip that still arrives.',
+      '3. Call get_trip_update with the trip ID of that trip to check it runs as planned.',
+      `4. Call get_disruptions_for with fromStation ${args.fromStation} and toStation ${args.toStation} for the evening.`,
+      '5. Tell me when to leave at the latest, where to transfer and how much margin each transfer has. Warn me if the last connection depends on a tight transfer.'
+    ]
+  }),
+  check_my_train: definePrompt({
+    title: 'Check my train',
+    description: 'Check whether a train or an advised trip runs on time, with delays, track changes and disruptions',
+    arguments: z.object({
+      train: z.string().optional().describe('Train number, e.g. "IC 3529"'),
+      tripId: z.string().optional().describe('Trip ID from get_travel_advice'),
+      station: z.string().optional().describe('Station I board at, e.g. "Den Haag Centraal"')
+    }).refine((args) => args.train !== undefined || args.tripId !== undefined, {
+      message: 'Give a train number or a trip ID'
+    }),
+    instructions: (args) => [
+      `Check whether ${args.tripId ? `trip ${args.tripId}` : `train ${args.train}`} runs on time` +
+        `${args.station ? ` at ${args.station}` : ''}.`,
+      args.tripId
+        ? `1. Call get_trip_update with tripId ${args.tripId} and report every change.`
+        : `1. Call get_journey for train ${args.train}${args.station ? ` with station ${args.station}` : ''} and report its delay, track and where it is now.`,
+      args.tripId
+        ? `2. Call get_disruptions_for with tripId ${args.tripId}.`
+        : `2. Call get_disruptions_for with station ${args.station ?? 'set to the next stop of the train'}.`,
+      '3. Tell me in one sentence whether I need to do anything differently, and what.'
+    ]
+  }),
+  family_trip_cost: definePrompt({
+    title: 'Family trip cost',
+    description: 'Find the cheapest way for a group of adults and children to make a return trip',
+    arguments: z.object({
+      fromStation: STATION.describe('Station to travel from'),
+      toStation: STATION.describe('Station to travel to'),
+      adults: COUNT.describe('Number of adults'),
+      children: COUNT.optional().describe('Number of children. Defaults to 0'),
+      date: z.string().optional().describe('Day to travel, e.g. "Saturday". Defaults to today')
+    }),
+    instructions: (args) => [
+      `What is the cheapest way for ${args.adults} adults and ${args.children ?? '0'} children to travel ` +
+        `from ${args.fromStation} to ${args.toStation} and back${args.date ? ` on ${args.date}` : ''}?`,
+      `1. Call get_travel_advice from ${args.fromStation} to ${args.toStation}${args.date ? ` with dateTime "${args.date} 10:00"` : ''} and pick a convenient trip.`,
+      `2. Call compare_fares for that trip with adults ${args.adults}, children ${args.children ?? '0'} and its routeId and planned times.`,
+      '3. Explain which option is cheapest and by how much, and whether a return or two singles and the joint journey discount are worth it.',
+      `4. Call get_disruptions_for with fromStation ${args.fromStation} and toStation ${args.toStation} for that day, and mention anything that affects the trip.`
+    ]
+  }),
+  accessible_journey: definePrompt({
+    title: 'Accessible journey',
+    description: 'Plan a trip for a traveller with reduced mobility, with step-free transfers and travel assistance',
+    arguments: z.object({
+      fromStation: STATION.describe('Station to travel from'),
+      toStation: STATION.describe('Station to travel to'),
+      dateTime: z.string().optional().describe('When to travel, e.g. "tomorrow 10:00". Defaults to now'),
+      travelAssistance: z.enum(['yes', 'no']).optional().describe('Whether NS travel assistance is needed. Defaults to yes')
+    }),
+    instructions: (args) => [
+      `Plan an accessible trip from ${args.fromStation} to ${args.toStation}${args.dateTime ? ` for ${args.dateTime}` : ''}.`,
+      `1. Call get_travel_advice from ${args.fromStation} to ${args.toStation}${args.dateTime ? ` with dateTime "${args.dateTime}"` : ''}, ` +
+        `accessible true${args.travelAssistance === 'no' ? '' : ' and travelAssistance true'}. ` +
+        'The notes list per trip the tracks, lifts and assistance meeting points, which trips were left out and why, ' +
+        'and which were left out because a station could not be checked (accessibility unverified).',
+      '2. Call get_station_facilities for any station where step-free access is unknown, to find lifts and the travel assistance meeting point.',
+      '3. Call get_station_disruptions for those stations, and mention lifts or escalators that are out of order.',
+      '4. Describe the trip step by step, including how much time each transfer gives and where assistance has to be booked.'
+    ]
+  })
+};
+
+export type PromptName = keyof typeof PROMPTS;
+
+function isPromptName(name: string): name is PromptName {
+  return Object.prototype.hasOwnProperty.call(PROMPTS, name);
+}
+
+/**
+ * Prompts as advertised in prompts/list, with their arguments taken from the schemas
+ */
+export function listPrompts() {
+  return Object.entries(PROMPTS).map(([name, prompt]) => ({
+    name,
+    title: prompt.title,
+    description: prompt.description,
+    arguments: Object.entries(prompt.arguments.shape).map(([argument, schema]) => ({
+      name: argument,
+      description: schema.description,
+      required: !schema.isOptional()
+    }))
+  }));
+}
+
+/**
+ * Expand a prompt into a user message. Throws InvalidParams for unknown
+ * prompts and arguments that are missing or malformed.
+ */
+export function getPrompt(name: string, rawArgs: Record<string, string> | undefined) {
+  if (!isPromptName(name)) {
+    throw ResponseFormatter.createMcpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+  const prompt = PROMPTS[name] as PromptDefinition;
+  const result = prompt.arguments.safeParse(rawArgs ?? {});
+  if (!result.success) {
+    const problems = result.error.issues.map((issue) => `${issue.path.join('.') || 'arguments'}: ${issue.message}`);
+    throw ResponseFormatter.createMcpError(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for prompt ${name}: ${problems.join('; ')}`
+    );
+  }
+  return {
+    description: prompt.description,
+    messages: [{
+      role: 'user' as const,
+      content: { type: 'text' as const, text: prompt.instructions(result.data).join('\n') }
+    }]
+  };
+}
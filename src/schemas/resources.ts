@@ -0,0 +1,104 @@
+interface ResourceDefinition {
+  uri: string;  // A URI, or an RFC 6570 template with {variables} for one path segment each
+  title: string;
+  description: string;
+  mimeType: 'application/json' | 'text/markdown';
+}
+
+/**
+ * Every resource the server offers. Fixed URIs are advertised in resources/list,
+ * templates in resources/templates/list. All of them can be subscribed to.
+ */
+export const RESOURCES = {
+  station: {
+    uri: 'ns://stations/{code}',
+    title: 'Station',
+    description: 'Details of a station by NS station code (e.g. ns://stations/UT): names, location, tracks and accessibility',
+    mimeType: 'application/json'
+  },
+  departures: {
+    uri: 'ns://stations/{code}/departures',
+    title: 'Departure board',
+    description: 'Live departures from a station by NS station code (e.g. ns://stations/ASD/departures), with delays, tracks and cancellations',
+    mimeType: 'text/markdown'
+  },
+  arrivals: {
+    uri: 'ns://stations/{code}/arrivals',
+    title: 'Arrival board',
+    description: 'Live arrivals at a station by NS station code (e.g. ns://stations/ASD/arrivals), with delays, tracks and cancellations',
+    mimeType: 'text/markdown'
+  },
+  active_disruptions: {
+    uri: 'ns://disruptions/active',
+    title: 'Active disruptions',
+    description: 'Disruptions and maintenance currently affecting the Dutch railway network',
+    mimeType: 'text/markdown'
+  },
+  disruption: {
+    uri: 'ns://disruptions/{id}',
+    title: 'Disruption',
+    description: 'Full details of one disruption, maintenance or calamity by its id',
+    mimeType: 'text/markdown'
+  },
+  watch: {
+    uri: 'ns://watches/{id}',
+    title: 'Watch',
+    description: 'A watch created with create_watch and the changes it found. Subscribe to be notified of new changes',
+    mimeType: 'application/json'
+  }
+} satisfies Record<string, ResourceDefinition>;
+
+export type ResourceName = keyof typeof RESOURCES;
+
+export interface ResourceMatch {
+  name: ResourceName;
+  params: Record<string, string>;
+}
+
+/**
+ * Resources with a fixed URI, as advertised in resources/list
+ */
+export function listFixedResources() {
+  return Object.entries(RESOURCES)
+    .filter(([, resource]) => !resource.uri.includes('{'))
+    .map(([name, resource]) => ({ name, ...resource }));
+}
+
+/**
+ * Resource templates as advertised in resources/templates/list
+ */
+export function listResourceTemplates() {
+  return Object.entries(RESOURCES)
+    .filter(([, resource]) => resource.uri.includes('{'))
+    .map(([name, { uri, ...resource }]) => ({ name, uriTemplate: uri, ...resource }));
+}
+
+/**
+ * Find the resource a URI refers to and the values of its template variables.
+ * Fixed URIs take precedence, so ns://disruptions/active is not read as a disruption id.
+ */
+export function matchResourceUri(uri: string): ResourceMatch | undefined {
+  const entries = Object.entries(RESOURCES) as [ResourceName, ResourceDefinition][];
+  const fixed = entries.find(([, resource]) => resource.uri === uri);
+  if (fixed) {
+    return { name: fixed[0], params: {} };
+  }
+
+  for (const [name, resource] of entries) {
+    const variables: string[] = [];
+    const pattern = resource.uri
+      .replace(/[.*+?^$()|[\]\\]/g, '\\$&')
+      .replace(/\{(\w+)\}/g, (_, variable: string) => {
+        variables.push(variable);
+        return '([^/]+)';
+      });
+    const match = new RegExp(`^${pattern}$`).exec(uri);
+    if (match && variables.length > 0) {
+      return {
+        name,
+        params: Object.fromEntries(variables.map((variable, index) => [variable, decodeURIComponent(match[index + 1])]))
+      };
+    }
+  }
+  return undefined;
+}
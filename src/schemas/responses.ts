@@ -0,0 +1,449 @@
+import { z } from 'zod';
+import {
+  AdditionalTravelTime,
+  AlternativeTransportTimespan,
+  Arrival,
+  ArrivalsResponse,
+  Calamity,
+  Coordinate,
+  Departure,
+  DeparturesResponse,
+  Disruption,
+  DisruptionItem,
+  DisruptionStation,
+  OVFietsLocation,
+  OVFietsResponse,
+  Price,
+  PricesResponse,
+  PublicationSection,
+  Station,
+  StationInfoResponse,
+  Timespan,
+  TravelAdvice,
+  TransferMessage,
+  TravelAdviceLeg,
+  TravelAdviceProduct,
+  TravelAdviceStation,
+  TravelAdviceStop,
+  TravelAdviceTrip,
+  TripFare,
+  TripMessage,
+  TripNote
+} from '../types.js';
+
+/**
+ * Runtime schemas for NS API responses, mirroring the interfaces in types.ts.
+ * Each schema is typed against its interface, so the compiler flags drift
+ * between the two. Objects are loose: fields NS adds later pass through,
+ * missing or mistyped fields are reported as upstream API drift.
+ */
+
+const CoordinateSchema: z.ZodType<Coordinate> = z.looseObject({
+  lat: z.number(),
+  lng: z.number()
+});
+
+const DisruptionStationSchema: z.ZodType<DisruptionStation> = z.looseObject({
+  coordinate: CoordinateSchema,
+  countryCode: z.string(),
+  name: z.string(),
+  stationCode: z.string(),
+  uicCode: z.string()
+});
+
+const SectionSchema = z.looseObject({
+  stations: z.array(DisruptionStationSchema),
+  direction: z.string()
+});
+
+const PublicationSectionSchema: z.ZodType<PublicationSection> = z.looseObject({
+  section: SectionSchema,
+  consequence: z.looseObject({
+    section: SectionSchema,
+    description: z.string(),
+    level: z.string()
+  }),
+  sectionType: z.string()
+});
+
+const AdditionalTravelTimeSchema: z.ZodType<AdditionalTravelTime> = z.looseObject({
+  label: z.string(),
+  shortLabel: z.string(),
+  minimumDurationInMinutes: z.number().optional(),
+  maximumDurationInMinutes: z.number()
+});
+
+const TimespanSchema: z.ZodType<Timespan> = z.looseObject({
+  start: z.string(),
+  end: z.string(),
+  period: z.string(),
+  situation: z.looseObject({ label: z.string() }),
+  cause: z.looseObject({ label: z.string() }),
+  additionalTravelTime: AdditionalTravelTimeSchema.optional(),
+  alternativeTransport: z.looseObject({
+    label: z.string(),
+    shortLabel: z.string()
+  }).optional(),
+  advices: z.array(z.string())
+});
+
+const AlternativeTransportTimespanSchema: z.ZodType<AlternativeTransportTimespan> = z.looseObject({
+  start: z.string(),
+  end: z.string(),
+  alternativeTransport: z.looseObject({
+    location: z.array(z.looseObject({
+      station: DisruptionStationSchema,
+      description: z.string()
+    })),
+    label: z.string(),
+    shortLabel: z.string()
+  })
+});
+
+export const DisruptionSchema: z.ZodType<Disruption> = z.looseObject({
+  type: z.string(),
+  id: z.string(),
+  title: z.string(),
+  isActive: z.boolean(),
+  topic: z.string().optional(),
+  local: z.boolean(),
+  description: z.string().optional(),
+  titleSections: z.array(z.array(z.looseObject({ type: z.string(), value: z.string() }))).optional(),
+  registrationTime: z.string(),
+  releaseTime: z.string(),
+  start: z.string(),
+  end: z.string(),
+  phase: z.looseObject({ id: z.string(), label: z.string() }).optional(),
+  impact: z.looseObject({ value: z.number() }).optional(),
+  expectedDuration: z.looseObject({ description: z.string(), endTime: z.string() }).optional(),
+  publicationSections: z.array(PublicationSectionSchema).optional(),
+  summaryAdditionalTravelTime: AdditionalTravelTimeSchema.optional(),
+  timespans: z.array(TimespanSchema).optional(),
+  alternativeTransportTimespans: z.array(AlternativeTransportTimespanSchema).optional()
+});
+
+export const CalamitySchema: z.ZodType<Calamity> = z.looseObject({
+  type: z.string(),
+  id: z.string(),
+  title: z.string(),
+  description: z.string().optional(),
+  url: z.string().optional(),
+  lastUpdated: z.string().optional(),
+  isActive: z.boolean(),
+  priority: z.string().optional(),
+  expectedDuration: z.looseObject({ description: z.string(), endTime: z.string() }).optional(),
+  buttons: z.looseObject({
+    items: z.array(z.looseObject({
+      type: z.string().optional(),
+      label: z.string(),
+      url: z.string(),
+      accessibilityLabel: z.string().optional()
+    }))
+  }).optional(),
+  bodyItems: z.array(z.looseObject({ objectType: z.string().optional(), content: z.string() })).optional()
+});
+
+// Calamities are told apart by their type, every other type is a disruption
+export const DisruptionItemSchema: z.ZodType<DisruptionItem> = z.union([
+  CalamitySchema.refine((item) => item.type === 'CALAMITY'),
+  DisruptionSchema
+]);
+
+const CrowdForecastSchema = z.enum(['UNKNOWN', 'LOW', 'MEDIUM', 'HIGH']);
+
+const TripNoteSchema: z.ZodType<TripNote> = z.looseObject({
+  value: z.string(),
+  key: z.string().optional(),
+  noteType: z.string().optional(),
+  priority: z.number().optional(),
+  routeIdx: z.number().optional(),
+  link: z.looseObject({ title: z.string().optional(), url: z.string() }).optional(),
+  isPresentationRequired: z.boolean().optional(),
+  category: z.string().optional()
+});
+
+const TripMessageSchema: z.ZodType<TripMessage> = z.looseObject({
+  id: z.string().optional(),
+  head: z.string().optional(),
+  text: z.string().optional(),
+  lead: z.string().optional(),
+  type: z.string().optional(),
+  routeIdxFrom: z.number().optional(),
+  routeIdxTo: z.number().optional(),
+  startDate: z.string().optional(),
+  endDate: z.string().optional()
+});
+
+const TransferMessageSchema: z.ZodType<TransferMessage> = z.looseObject({
+  message: z.string(),
+  accessibilityMessage: z.string().optional(),
+  type: z.string().optional()
+});
+
+const TravelAdviceStationSchema: z.ZodType<TravelAdviceStation> = z.looseObject({
+  name: z.string(),
+  lng: z.number(),
+  lat: z.number(),
+  type: z.string().optional(),
+  countryCode: z.string().optional(),
+  uicCode: z.string().optional(),
+  stationCode: z.string().optional(),
+  plannedDateTime: z.string(),
+  plannedTimeZoneOffset: z.number().optional(),
+  actualDateTime: z.string().optional(),
+  actualTimeZoneOffset: z.number().optional(),
+  plannedTrack: z.string().optional(),
+  actualTrack: z.string().optional(),
+  exitSide: z.string().optional(),
+  checkinStatus: z.string().optional(),
+  notes: z.array(TripNoteSchema).optional()
+});
+
+const TravelAdviceStopSchema: z.ZodType<TravelAdviceStop> = z.looseObject({
+  name: z.string(),
+  uicCode: z.string().optional(),
+  countryCode: z.string().optional(),
+  lat: z.number().optional(),
+  lng: z.number().optional(),
+  routeIdx: z.number().optional(),
+  plannedArrivalDateTime: z.string().optional(),
+  actualArrivalDateTime: z.string().optional(),
+  plannedDepartureDateTime: z.string().optional(),
+  actualDepartureDateTime: z.string().optional(),
+  plannedArrivalTrack: z.string().optional(),
+  actualArrivalTrack: z.string().optional(),
+  plannedDepartureTrack: z.string().optional(),
+  actualDepartureTrack: z.string().optional(),
+  arrivalDelayInSeconds: z.number().optional(),
+  departureDelayInSeconds: z.number().optional(),
+  cancelled: z.boolean().optional(),
+  passing: z.boolean().optional(),
+  borderStop: z.boolean().optional(),
+  notes: z.array(TripNoteSchema).optional()
+});
+
+const TravelAdviceProductSchema: z.ZodType<TravelAdviceProduct> = z.looseObject({
+  displayName: z.string(),
+  type: z.string(),
+  number: z.string(),
+  operatorName: z.string(),
+  operatorCode: z.string().optional(),
+  categoryCode: z.string().optional(),
+  shortCategoryName: z.string().optional(),
+  longCategoryName: z.string().optional(),
+  notes: z.array(z.array(TripNoteSchema)).optional()
+});
+
+const TravelAdviceLegSchema: z.ZodType<TravelAdviceLeg> = z.looseObject({
+  idx: z.string(),
+  name: z.string(),
+  travelType: z.string().optional(),
+  direction: z.string().optional(),
+  cancelled: z.boolean(),
+  partCancelled: z.boolean().optional(),
+  changePossible: z.boolean().optional(),
+  alternativeTransport: z.boolean().optional(),
+  origin: TravelAdviceStationSchema,
+  destination: TravelAdviceStationSchema,
+  product: TravelAdviceProductSchema.optional(),
+  stops: z.array(TravelAdviceStopSchema).optional(),
+  notes: z.array(TripNoteSchema).optional(),
+  messages: z.array(TripMessageSchema).optional(),
+  transferMessages: z.array(TransferMessageSchema).optional(),
+  crowdForecast: CrowdForecastSchema.optional(),
+  punctuality: z.number().optional(),
+  crossPlatformTransfer: z.boolean().optional(),
+  shorterStock: z.boolean().optional(),
+  bicycleSpotCount: z.number().optional(),
+  plannedDurationInMinutes: z.number().optional(),
+  actualDurationInMinutes: z.number().optional(),
+  distanceInMeters: z.number().optional(),
+  journeyDetailRef: z.string().optional()
+});
+
+const TripFareSchema: z.ZodType<TripFare> = z.looseObject({
+  priceInCents: z.number(),
+  priceInCentsExcludingSupplement: z.number().optional(),
+  supplementInCents: z.number().optional(),
+  buyableTicketPriceInCents: z.number().optional(),
+  product: z.string().optional(),
+  travelClass: z.string().optional(),
+  discountType: z.string().optional()
+});
+
+const TravelAdviceTripSchema: z.ZodType<TravelAdviceTrip> = z.looseObject({
+  uid: z.string(),
+  idx: z.number().optional(),
+  plannedDurationInMinutes: z.number(),
+  actualDurationInMinutes: z.number().optional(),
+  status: z.string(),
+  legs: z.array(TravelAdviceLegSchema),
+  crowdForecast: CrowdForecastSchema.optional(),
+  punctuality: z.number().optional(),
+  optimal: z.boolean(),
+  realtime: z.boolean().optional(),
+  transfers: z.number().optional(),
+  ctxRecon: z.string().optional(),
+  routeId: z.string().optional(),
+  type: z.string().optional(),
+  messages: z.array(TripMessageSchema).optional(),
+  productFare: TripFareSchema.optional(),
+  fares: z.array(TripFareSchema).optional(),
+  shareUrl: z.looseObject({ uri: z.string() }).optional()
+});
+
+export const TravelAdviceSchema: z.ZodType<TravelAdvice> = z.looseObject({
+  source: z.string(),
+  trips: z.array(TravelAdviceTripSchema),
+  scrollRequestBackwardContext: z.string().optional(),
+  scrollRequestForwardContext: z.string().optional()
+});
+
+const ProductSchema = z.looseObject({
+  number: z.string(),
+  categoryCode: z.string(),
+  shortCategoryName: z.string(),
+  longCategoryName: z.string(),
+  operatorName: z.string(),
+  operatorCode: z.string(),
+  type: z.string()
+});
+
+const MessageSchema = z.looseObject({
+  message: z.string(),
+  style: z.string()
+});
+
+const DepartureSchema: z.ZodType<Departure> = z.looseObject({
+  direction: z.string(),
+  name: z.string(),
+  plannedDateTime: z.string(),
+  plannedTimeZoneOffset: z.number(),
+  actualDateTime: z.string(),
+  actualTimeZoneOffset: z.number(),
+  plannedTrack: z.string().optional(),
+  actualTrack: z.string().optional(),
+  product: ProductSchema,
+  trainCategory: z.string(),
+  cancelled: z.boolean(),
+  routeStations: z.array(z.looseObject({ uicCode: z.string(), mediumName: z.string() })),
+  messages: z.array(MessageSchema),
+  departureStatus: z.string()
+});
+
+export const DeparturesResponseSchema: z.ZodType<DeparturesResponse> = z.looseObject({
+  payload: z.looseObject({
+    source: z.string(),
+    departures: z.array(DepartureSchema)
+  })
+});
+
+const ArrivalSchema: z.ZodType<Arrival> = z.looseObject({
+  origin: z.string(),
+  recognizableDestination: z.looseObject({ code: z.string(), name: z.string() }).optional(),
+  name: z.string(),
+  plannedDateTime: z.string(),
+  plannedTimeZoneOffset: z.number(),
+  actualDateTime: z.string(),
+  actualTimeZoneOffset: z.number(),
+  plannedTrack: z.string().optional(),
+  actualTrack: z.string().optional(),
+  product: ProductSchema,
+  trainCategory: z.string(),
+  cancelled: z.boolean(),
+  messages: z.array(MessageSchema),
+  arrivalStatus: z.string()
+});
+
+export const ArrivalsResponseSchema: z.ZodType<ArrivalsResponse> = z.looseObject({
+  payload: z.looseObject({
+    source: z.string(),
+    arrivals: z.array(ArrivalSchema)
+  })
+});
+
+export const OVFietsLocationSchema: z.ZodType<OVFietsLocation> = z.looseObject({
+  distance: z.number().optional(),
+  name: z.string(),
+  stationCode: z.string(),
+  lat: z.number(),
+  lng: z.number(),
+  open: z.string(),
+  description: z.string(),
+  openingHours: z.array(z.looseObject({
+    dayOfWeek: z.number(),
+    startTime: z.string(),
+    endTime: z.string(),
+    closesNextDay: z.boolean()
+  })),
+  extra: z.looseObject({
+    serviceType: z.string(),
+    rentalBikes: z.string(),
+    locationCode: z.string(),
+    type: z.string()
+  }),
+  street: z.string(),
+  houseNumber: z.string(),
+  postalCode: z.string(),
+  city: z.string()
+});
+
+export const OVFietsResponseSchema: z.ZodType<OVFietsResponse> = z.looseObject({
+  payload: z.array(z.looseObject({
+    locations: z.array(OVFietsLocationSchema)
+  }))
+});
+
+const StationSchema: z.ZodType<Station> = z.looseObject({
+  id: z.looseObject({
+    uicCode: z.string(),
+    evaCode: z.string(),
+    cdCode: z.number(),
+    code: z.string()
+  }),
+  stationType: z.string(),
+  names: z.looseObject({
+    long: z.string(),
+    medium: z.string(),
+    short: z.string(),
+    synonyms: z.array(z.string())
+  }),
+  location: z.looseObject({ lat: z.number(), lng: z.number() }),
+  tracks: z.array(z.string()),
+  hasKnownFacilities: z.boolean(),
+  availableForAccessibleTravel: z.boolean(),
+  hasTravelAssistance: z.boolean(),
+  areTracksIndependentlyAccessible: z.boolean(),
+  isBorderStop: z.boolean(),
+  country: z.string(),
+  radius: z.number(),
+  approachingRadius: z.number(),
+  startDate: z.string(),
+  nearbyMeLocationId: z.looseObject({ value: z.string(), type: z.string() })
+});
+
+export const StationInfoResponseSchema: z.ZodType<StationInfoResponse> = z.looseObject({
+  payload: z.array(StationSchema)
+});
+
+export const PriceSchema: z.ZodType<Price> = z.looseObject({
+  totalPriceInCents: z.number(),
+  pricePerAdultInCents: z.number(),
+  discountInCents: z.number(),
+  operatorName: z.string(),
+  discountType: z.string(),
+  travelClass: z.enum(['FIRST_CLASS', 'SECOND_CLASS']),
+  displayName: z.string(),
+  conditionsHeader: z.string(),
+  productId: z.string(),
+  isBestOption: z.boolean(),
+  pricePerChildInCents: z.number(),
+  validity: z.looseObject({ label: z.string(), value: z.string() }),
+  conditionsList: z.array(z.string())
+});
+
+export const PricesResponseSchema: z.ZodType<PricesResponse> = z.looseObject({
+  payload: z.looseObject({
+    prices: z.array(PriceSchema)
+  })
+});
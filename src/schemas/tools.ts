@@ -0,0 +1,262 @@
+import { z } from 'zod';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { ResponseFormatter } from '../utils/ResponseFormatter.js';
+import {
+  CancelWatchArgsSchema,
+  CompareFaresArgsSchema,
+  CreateWatchArgsSchema,
+  FindNearestStationsArgsSchema,
+  GetArrivalsArgsSchema,
+  GetCalamitiesArgsSchema,
+  GetCurrentTimeArgsSchema,
+  GetDeparturesArgsSchema,
+  GetDisruptionArgsSchema,
+  GetDisruptionsArgsSchema,
+  GetDisruptionsForArgsSchema,
+  GetJourneyArgsSchema,
+  GetOVFietsArgsSchema,
+  GetPricesArgsSchema,
+  GetStationFacilitiesArgsSchema,
+  GetStationDisruptionsArgsSchema,
+  GetTravelAdviceArgsSchema,
+  GetTripUpdateArgsSchema,
+  ListWatchesArgsSchema,
+  StationInfoArgsSchema
+} from './arguments.js';
+import {
+  DisruptionImpactSchema,
+  FareComparisonSchema,
+  ImpactTargetSchema,
+  NearbyStationSchema,
+  NormalisedTripSchema,
+  OVFietsLocationStatusSchema,
+  OVFietsUsualAvailabilitySchema,
+  ResolvedLocationSchema,
+  StationFacilitiesSchema,
+  TrainJourneySchema,
+  TravelAdviceResultSchema,
+  TripChangeSchema,
+  WatchSchema
+} from './models.js';
+import {
+  ArrivalsResponseSchema,
+  CalamitySchema,
+  DeparturesResponseSchema,
+  DisruptionItemSchema,
+  PricesResponseSchema,
+  StationInfoResponseSchema
+} from './responses.js';
+
+interface ToolDefinition {
+  description: string;
+  arguments: z.ZodType;
+  output: z.ZodType;  // Schema of the tool's structuredContent
+}
+
+type JsonObjectSchema = { type: 'object'; [key: string]: unknown };
+
+/**
+ * Every tool with its description, argument schema and output schema.
+ * This is the single source for both tools/list and call validation.
+ */
+export const TOOLS = {
+  get_disruptions: {
+    description: 'Get comprehensive information about current and planned disruptions on the Dutch railway network. Returns details about maintenance work, unexpected disruptions, alternative transport options, impact on travel times, and relevant advice. Can filter for active disruptions and specific disruption types.',
+    arguments: GetDisruptionsArgsSchema,
+    output: z.object({ disruptions: z.array(DisruptionItemSchema) })
+  },
+  get_station_disruptions: {
+    description: 'Get the disruptions, maintenance and calamities affecting one station, such as closed tracks, lifts out of order or an evacuated station. Returns the same details as get_disruptions, limited to that station.',
+    arguments: GetStationDisruptionsArgsSchema,
+    output: z.object({ disruptions: z.array(DisruptionItemSchema) })
+  },
+  get_disruption: {
+    description: 'Get the full details of one disruption, maintenance or calamity by its id: affected stations, periods, cause, extra travel time, alternative transport and travel advice.',
+    arguments: GetDisruptionArgsSchema,
+    output: DisruptionItemSchema
+  },
+  get_calamities: {
+    description: 'Get current calamities: nationwide notices and major incidents such as strikes, network-wide outages or severe weather, with their expected duration and links to more information.',
+    arguments: GetCalamitiesArgsSchema,
+    output: z.object({ calamities: z.array(CalamitySchema) })
+  },
+  get_travel_advice: {
+    description: 'Get detailed travel routes between two train stations, including transfers, real-time updates, platform information, and journey duration. Can plan trips for immediate departure or for a specific future time, with options to optimize for arrival time. Supports via stations with a stopover, addresses, places or coordinates as origin or destination with walking, cycling or driving to and from the station included as legs, excluding high-speed or reservation-only trains, accessible trips with travel assistance and an accessible mode that checks every station on the trip for step-free tracks, lifts and assistance meeting points, transfer time and transfer count limits, the price of every trip, choosing and sorting trips by price, duration, transfers or crowding, and paging to earlier or later trips with the returned context. Returns multiple route options with status and crowding information, as normalised trips with the trip ID used by get_trip_update and get_disruptions_for.',
+    arguments: GetTravelAdviceArgsSchema,
+    output: TravelAdviceResultSchema
+  },
+  get_departures: {
+    description: 'Get real-time departure information for trains from a specific station, including platform numbers, delays, route details, and any relevant travel notes. Returns a list of upcoming departures with timing, destination, and status information.',
+    arguments: GetDeparturesArgsSchema,
+    output: DeparturesResponseSchema
+  },
+  get_ovfiets: {
+    description: 'Get OV-fiets (rental bike) availability at a train station, or at all locations around an address or coordinates, nearest first. Reports the number of bikes left and whether each location is open at the requested time, suggests the nearest alternatives when no bike can be rented, and can tell how many bikes are usually left at a time of day (e.g. "18:00") from counts collected over the past weeks.',
+    arguments: GetOVFietsArgsSchema,
+    output: z.object({
+      locations: z.array(OVFietsLocationStatusSchema),
+      alternatives: z.array(OVFietsLocationStatusSchema),
+      usually: z.array(OVFietsUsualAvailabilitySchema)
+    })
+  },
+  get_station_info: {
+    description: 'Get detailed information about a train station',
+    arguments: StationInfoArgsSchema,
+    output: StationInfoResponseSchema
+  },
+  get_station_facilities: {
+    description: 'Get the facilities at a station from the NS places API (lifts, escalators, toilets, travel assistance meeting points, ticket machines and service desks, food, shops, car and bicycle parking, OV-fiets) with whether each is open now, together with the station\'s accessibility: whether it is available for accessible travel, offers travel assistance, and for each track whether it can be reached without steps and by which lift.',
+    arguments: GetStationFacilitiesArgsSchema,
+    output: StationFacilitiesSchema
+  },
+  find_nearest_stations: {
+    description: 'Find the stations closest to an address, place or coordinates, nearest first, with the distance as the crow flies and whether the location is at the station itself. Addresses are looked up with the NS places API.',
+    arguments: FindNearestStationsArgsSchema,
+    output: z.object({
+      location: ResolvedLocationSchema,
+      stations: z.array(NearbyStationSchema)
+    })
+  },
+  get_current_time_in_rfc3339: {
+    description: 'Get the current time in the Europe/Amsterdam timezone in RFC3339 format, with the offset in effect (+01:00, or +02:00 in summer). Other tools also accept natural-language times such as "tomorrow 08:15" or "in 30 minutes" directly.',
+    arguments: GetCurrentTimeArgsSchema,
+    output: z.object({
+      datetime: z.string(),
+      timezone: z.string()
+    })
+  },
+  get_arrivals: {
+    description: 'Get real-time arrival information for trains at a specific station, including platform numbers, delays, origin stations, and any relevant travel notes. Returns a list of upcoming arrivals with timing, origin, and status information.',
+    arguments: GetArrivalsArgsSchema,
+    output: ArrivalsResponseSchema
+  },
+  get_prices: {
+    description: 'Get price information for domestic train journeys, including different travel classes, ticket types, and discounts. Returns detailed pricing information with conditions and validity.',
+    arguments: GetPricesArgsSchema,
+    output: PricesResponseSchema
+  },
+  compare_fares: {
+    description: 'Compare what a journey costs a group of adults and children across first and second class, single and return tickets, and with and without the joint journey discount (samenreiskorting). Returns every option in euros, cheapest first, with how much more each costs than the cheapest, the options NS recommends, and what each discount is and what it is taken off.',
+    arguments: CompareFaresArgsSchema,
+    output: FareComparisonSchema
+  },
+  get_trip_update: {
+    description: 'Check how a trip found earlier with get_travel_advice runs now. Takes the trip ID shown in the travel advice, fetches the latest version of exactly that trip and reports what changed since it was advised: delays per leg, track changes, cancellations and transfers that can no longer be made.',
+    arguments: GetTripUpdateArgsSchema,
+    output: z.object({
+      tripId: z.string(),
+      comparedWith: z.enum(['advice', 'timetable']),
+      changes: z.array(TripChangeSchema),
+      trip: NormalisedTripSchema
+    })
+  },
+  get_journey: {
+    description: 'Get everything about one train run by its train number (e.g. IC 3529, as found in product.number of departures and trip legs): all stops in order with planned and actual times and tracks, crowding per stop, the train composition (type, carriages, seats, facilities such as toilets, bicycle spaces and silence zones) and its current position.',
+    arguments: GetJourneyArgsSchema,
+    output: TrainJourneySchema
+  },
+  get_disruptions_for: {
+    description: 'Find the disruptions and maintenance that affect one station, a route between two stations or a trip from get_travel_advice, within a time window. Returns only disruptions whose sections touch the stations involved, most severe first, with the extra travel time, alternative transport and advice relevant to that window.',
+    arguments: GetDisruptionsForArgsSchema,
+    output: z.object({
+      target: ImpactTargetSchema,
+      disruptions: z.array(DisruptionImpactSchema)
+    })
+  },
+  create_watch: {
+    description: 'Watch a station, a route between two stations or a train for a period of time (e.g. "my Almere–Amsterdam commute this week"). The server checks disruptions and departures every few minutes and notifies the client of new or changed disruptions, delays, cancellations and track changes, as log messages and as updates of the resource ns://watches/{id}. Watches survive server restarts and end automatically.',
+    arguments: CreateWatchArgsSchema,
+    output: WatchSchema
+  },
+  list_watches: {
+    description: 'List the active watches created with create_watch, with their period, when they were last checked and the changes they found.',
+    arguments: ListWatchesArgsSchema,
+    output: z.object({ watches: z.array(WatchSchema) })
+  },
+  cancel_watch: {
+    description: 'Stop a watch created with create_watch, by its id.',
+    arguments: CancelWatchArgsSchema,
+    output: WatchSchema
+  }
+} satisfies Record<string, ToolDefinition>;
+
+export type ToolName = keyof typeof TOOLS;
+export type ToolArguments<N extends ToolName> = z.output<typeof TOOLS[N]['arguments']>;
+
+function isToolName(name: string): name is ToolName {
+  return Object.prototype.hasOwnProperty.call(TOOLS, name);
+}
+
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonObjectSchema {
+  const { $schema, ...jsonSchema } = z.toJSONSchema(schema, { io, unrepresentable: 'any' });
+  return { ...jsonSchema, type: 'object' };
+}
+
+let toolList: { name: string; description: string; inputSchema: JsonObjectSchema; outputSchema: JsonObjectSchema }[] | undefined;
+
+/**
+ * Tools as advertised in tools/list, generated once from the schemas
+ */
+export function listTools() {
+  toolList ??= Object.entries(TOOLS).map(([name, tool]) => ({
+    name,
+    description: tool.description,
+    inputSchema: toJsonSchema(tool.arguments, 'input'),
+    outputSchema: toJsonSchema(tool.output, 'output')
+  }));
+  return toolList;
+}
+
+/**
+ * Validate a tool call's arguments. Throws InvalidParams naming every field
+ * that is wrong, what was expected and what was received.
+ */
+export function parseToolArguments<N extends ToolName>(name: N, rawArgs: unknown): ToolArguments<N> {
+  const result = TOOLS[name].arguments.safeParse(rawArgs ?? {}, { reportInput: true });
+  if (result.success) {
+    return result.data as ToolArguments<N>;
+  }
+
+  const problems = result.error.issues.map((issue) => {
+    const field = formatPath(issue.path) || 'arguments';
+    // Type errors already name what was received
+    const received = 'input' in issue && issue.code !== 'custom' && !issue.message.includes('received')
+      ? ` (received ${describeValue(issue.input)})`
+      : '';
+    return `${field}: ${issue.message}${received}`;
+  });
+  throw ResponseFormatter.createMcpError(
+    ErrorCode.InvalidParams,
+    `Invalid arguments for ${name}: ${problems.join('; ')}`
+  );
+}
+
+/**
+ * Check a tool's structured output against its schema. Returns readable
+ * issues such as "payload.departures[3].plannedDateTime: expected string,
+ * received undefined", or an empty list when the output matches.
+ */
+export function validateToolOutput(name: string, output: unknown): string[] {
+  if (!isToolName(name)) {
+    return [];
+  }
+  const result = TOOLS[name].output.safeParse(output);
+  if (result.success) {
+    return [];
+  }
+  return result.error.issues.map((issue) => `${formatPath(issue.path) || '(root)'}: ${issue.message}`);
+}
+
+function formatPath(path: PropertyKey[]): string {
+  return path
+    .map((segment, index) => typeof segment === 'number' ? `[${segment}]` : `${index === 0 ? '' : '.'}${String(segment)}`)
+    .join('');
+}
+
+function describeValue(value: unknown): string {
+  if (value === undefined) {
+    return 'nothing';
+  }
+  const text = JSON.stringify(value);
+  return text.length > 60 ? `${text.slice(0, 57)}...` : text;
+}
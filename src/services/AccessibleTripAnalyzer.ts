@@ -0,0 +1,170 @@
+import { toRfc3339 } from '../utils/time.js';
+import {
+  AccessibleStop,
+  isRideable,
+  NormalisedLeg,
+  NormalisedStop,
+  NormalisedTrip,
+  StationFacilities,
+  TrackAccessibility,
+  TripAccessibility,
+  UnassessedStop
+} from '../types.js';
+
+/**
+ * Checks whether a trip can be made by a traveller who cannot use stairs: for
+ * every station where the trip boards, transfers or alights, whether the tracks
+ * used are step-free and whether NS travel assistance is available there.
+ * Trips with a station that offers neither are excluded, with the reasons.
+ * Stations without details cannot be checked, and are returned as unverified.
+ * Bus, tram, metro and ferry stops are not stations NS describes, and are
+ * listed as not assessed without counting against the trip.
+ */
+export class AccessibleTripAnalyzer {
+  // NS travel assistance has to be booked at least an hour before the trip
+  static readonly ASSISTANCE_BOOKING_LEAD_MINUTES = 60;
+
+  // Least accessible first
+  private static readonly STEP_FREE_ORDER: TrackAccessibility['stepFree'][] = ['no', 'unknown', 'via_lift', 'yes'];
+
+  /**
+   * UIC codes of the stations the trip boards, transfers or alights at by train,
+   * the stations whose facilities {@link analyse} needs
+   */
+  static railStations(trip: NormalisedTrip): string[] {
+    return [...new Set(trip.legs
+      .filter(AccessibleTripAnalyzer.isRail)
+      .flatMap((leg) => [leg.origin.uicCode, leg.destination.uicCode])
+      .filter((uicCode): uicCode is string => uicCode !== undefined))];
+  }
+
+  /**
+   * @param stations Facilities by UIC code, missing for stations without details (e.g. abroad or when their lookup failed)
+   * @param assistanceRequested Whether the traveller asked for travel assistance anyway
+   */
+  static analyse(
+    trip: NormalisedTrip,
+    stations: Map<string, StationFacilities>,
+    assistanceRequested: boolean
+  ): { accessibility: TripAccessibility; reasons: string[]; unverified: string[] } {
+    const rides = trip.legs.filter(isRideable);
+    const stops: AccessibleStop[] = [];
+    const notAssessed: UnassessedStop[] = [];
+    const reasons: string[] = [];
+    const unverified: string[] = [];
+
+    // Only stops where a train arrives or departs are stations NS describes
+    const visit = (role: AccessibleStop['role'], arriving?: NormalisedLeg, departing?: NormalisedLeg) => {
+      const railArrival = arriving && AccessibleTripAnalyzer.isRail(arriving) ? arriving.destination : undefined;
+      const railDeparture = departing && AccessibleTripAnalyzer.isRail(departing) ? departing.origin : undefined;
+      const at = railArrival ?? railDeparture;
+      if (!at) {
+        const leg = departing ?? arriving;
+        notAssessed.push({ station: (departing?.origin ?? arriving?.destination)?.name ?? '', role, mode: leg?.mode ?? 'UNKNOWN' });
+        return;
+      }
+      const stop = AccessibleTripAnalyzer.stop(role, at, railArrival, railDeparture, stations);
+      if (arriving && departing) {
+        stop.transferMinutes = AccessibleTripAnalyzer.transferMinutes(arriving, departing);
+      }
+      stops.push(stop);
+    };
+    rides.forEach((leg, index) => {
+      visit(index === 0 ? 'origin' : 'transfer', rides[index - 1], leg);
+      if (index === rides.length - 1) {
+        visit('destination', leg, undefined);
+      }
+    });
+
+    for (const stop of stops) {
+      // Stations without details have no code
+      if (stop.code === undefined) {
+        unverified.push(stop.station);
+        continue;
+      }
+      if (stop.travelAssistance || AccessibleTripAnalyzer.isStepFree(stop)) {
+        continue;
+      }
+      const tracks = [...new Set([stop.arrivalTrack, stop.departureTrack].filter(Boolean))].join(' and ');
+      reasons.push(stop.stepFree === 'no'
+        ? `${stop.station} is not available for accessible travel and has no travel assistance`
+        : `track ${tracks || '?'} at ${stop.station} is not known to be step-free and there is no travel assistance`);
+    }
+
+    const assistanceNeeded = stops.some((stop) => !AccessibleTripAnalyzer.isStepFree(stop));
+    const departure = Date.parse(trip.departure.plannedDeparture ?? '');
+    const bookBy = (assistanceNeeded || assistanceRequested) && !Number.isNaN(departure)
+      ? toRfc3339(new Date(departure - AccessibleTripAnalyzer.ASSISTANCE_BOOKING_LEAD_MINUTES * 60 * 1000))
+      : undefined;
+    return {
+      accessibility: { stops, notAssessed, assistanceNeeded, bookAssistanceBy: bookBy },
+      reasons,
+      unverified: [...new Set(unverified)]
+    };
+  }
+
+  private static isRail(leg: NormalisedLeg): boolean {
+    return leg.mode === 'TRAIN';
+  }
+
+  /**
+   * @param arrival Where a train arrives at the station, if one does
+   * @param departure Where a train departs from the station, if one does
+   */
+  private static stop(
+    role: AccessibleStop['role'],
+    at: NormalisedStop,
+    arrival: NormalisedStop | undefined,
+    departure: NormalisedStop | undefined,
+    stations: Map<string, StationFacilities>
+  ): AccessibleStop {
+    const station = at.uicCode !== undefined ? stations.get(at.uicCode) : undefined;
+    const arrivalTrack = arrival?.actualTrack ?? arrival?.plannedTrack;
+    const departureTrack = departure?.actualTrack ?? departure?.plannedTrack;
+    const tracks = [arrivalTrack, departureTrack]
+      .filter((track): track is string => track !== undefined)
+      .map((track) => AccessibleTripAnalyzer.trackAccessibility(station, track));
+    const stepFree = tracks.length === 0
+      ? (station ? AccessibleTripAnalyzer.stationAccessibility(station) : 'unknown')
+      : tracks.map((track) => track.stepFree)
+        .sort((a, b) => AccessibleTripAnalyzer.STEP_FREE_ORDER.indexOf(a) - AccessibleTripAnalyzer.STEP_FREE_ORDER.indexOf(b))[0];
+
+    return {
+      station: station?.name ?? at.name,
+      code: station?.code,
+      role,
+      arrivalTrack,
+      departureTrack,
+      stepFree,
+      lifts: [...new Set(tracks.flatMap((track) => track.lifts))],
+      travelAssistance: station?.hasTravelAssistance ?? false,
+      meetingPoint: station?.facilities.find((facility) => facility.category === 'TRAVEL_ASSISTANCE')?.name
+    };
+  }
+
+  private static isStepFree(stop: AccessibleStop): boolean {
+    return stop.stepFree === 'yes' || stop.stepFree === 'via_lift';
+  }
+
+  private static trackAccessibility(station: StationFacilities | undefined, track: string): TrackAccessibility {
+    if (!station) {
+      return { track, stepFree: 'unknown', lifts: [] };
+    }
+    // Tracks can be split into sections, e.g. 5a and 5b of track 5
+    return station.tracks.find((candidate) => candidate.track.toLowerCase() === track.toLowerCase()) ??
+      station.tracks.find((candidate) => candidate.track === track.replace(/[a-z]+$/i, '')) ??
+      { track, stepFree: AccessibleTripAnalyzer.stationAccessibility(station), lifts: [] };
+  }
+
+  private static stationAccessibility(station: StationFacilities): TrackAccessibility['stepFree'] {
+    return !station.availableForAccessibleTravel ? 'no' : station.areTracksIndependentlyAccessible ? 'yes' : 'unknown';
+  }
+
+  private static transferMinutes(from: NormalisedLeg, to: NormalisedLeg): number | undefined {
+    const minutes = Math.round(
+      (Date.parse(to.origin.actualDeparture ?? to.origin.plannedDeparture ?? '') -
+        Date.parse(from.destination.actualArrival ?? from.destination.plannedArrival ?? '')) / 60000
+    );
+    return Number.isNaN(minutes) ? undefined : minutes;
+  }
+}
@@ -0,0 +1,60 @@
+import { createHash, timingSafeEqual } from 'crypto';
+import { TokenBucket } from './http/TokenBucket.js';
+
+/**
+ * A client allowed to use a hosted server, as configured in MCP_AUTH_CLIENTS_FILE
+ */
+export interface ClientCredentials {
+  id: string;
+  token?: string;               // Bearer token in plain text
+  tokenSha256?: string;         // Or its hex-encoded SHA-256 hash
+  nsApiKey?: string;            // Own NS subscription key, defaults to the shared NS_API_KEY
+  toolCallsPerMinute?: number;  // Quota when sharing a key with other clients
+}
+
+export interface AuthenticatedClient {
+  id: string;
+  nsApiKey?: string;
+  quota?: TokenBucket;
+}
+
+/**
+ * Maps bearer tokens to configured clients. Tokens are compared as SHA-256
+ * digests in constant time, so plain and hashed tokens are handled alike.
+ */
+export class ClientAuthenticator {
+  private readonly clients: { digest: Buffer; client: AuthenticatedClient }[];
+
+  constructor(credentials: ClientCredentials[]) {
+    this.clients = credentials.map((credential) => ({
+      digest: credential.tokenSha256
+        ? Buffer.from(credential.tokenSha256, 'hex')
+        : ClientAuthenticator.digest(credential.token ?? ''),
+      client: {
+        id: credential.id,
+        nsApiKey: credential.nsApiKey,
+        quota: credential.toolCallsPerMinute
+          ? new TokenBucket(credential.toolCallsPerMinute)
+          : undefined
+      }
+    }));
+  }
+
+  /**
+   * Find the client for an Authorization header, or undefined if it is missing or invalid
+   */
+  authenticate(authorization: string | undefined): AuthenticatedClient | undefined {
+    const match = /^Bearer\s+(\S+)\s*$/i.exec(authorization ?? '');
+    if (!match) {
+      return undefined;
+    }
+    const digest = ClientAuthenticator.digest(match[1]);
+    return this.clients.find((entry) =>
+      entry.digest.length === digest.length && timingSafeEqual(entry.digest, digest)
+    )?.client;
+  }
+
+  private static digest(token: string): Buffer {
+    return createHash('sha256').update(token).digest();
+  }
+}
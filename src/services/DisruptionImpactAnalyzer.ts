@@ -0,0 +1,117 @@
+import {
+  Disruption,
+  DisruptionImpact,
+  DisruptionStation,
+  ImpactStation,
+  ImpactTarget,
+  Section
+} from '../types.js';
+import { StationRegistry } from './StationRegistry.js';
+
+/**
+ * Narrows network-wide disruptions down to those touching a station, route or
+ * trip within a time window, ranked by impact. Only the timespans, extra travel
+ * time and alternative transport that overlap the window are kept.
+ */
+export class DisruptionImpactAnalyzer {
+  static analyse(disruptions: Disruption[], target: ImpactTarget): DisruptionImpact[] {
+    const from = Date.parse(target.from);
+    const until = Date.parse(target.until);
+
+    return disruptions
+      .map((disruption) => DisruptionImpactAnalyzer.impactOf(disruption, target, from, until))
+      .filter((impact): impact is DisruptionImpact => impact !== undefined)
+      .sort((a, b) =>
+        (b.impact ?? 0) - (a.impact ?? 0) ||
+        Number(b.isActive) - Number(a.isActive) ||
+        Date.parse(a.start) - Date.parse(b.start)
+      );
+  }
+
+  private static impactOf(
+    disruption: Disruption,
+    target: ImpactTarget,
+    from: number,
+    until: number
+  ): DisruptionImpact | undefined {
+    if (!DisruptionImpactAnalyzer.overlaps(disruption.start, disruption.end, from, until)) {
+      return undefined;
+    }
+
+    const touching = (disruption.publicationSections ?? []).filter((publication) =>
+      DisruptionImpactAnalyzer.touches(publication.section, target.stations) ||
+      DisruptionImpactAnalyzer.touches(publication.consequence?.section, target.stations)
+    );
+    if (touching.length === 0) {
+      return undefined;
+    }
+
+    const affectedStations = target.stations
+      .filter((station) => touching.some((publication) =>
+        DisruptionImpactAnalyzer.sectionStations(publication.section)
+          .some((candidate) => DisruptionImpactAnalyzer.isSameStation(candidate, station))
+      ))
+      .map((station) => station.name);
+
+    const timespans = (disruption.timespans ?? [])
+      .filter((timespan) => DisruptionImpactAnalyzer.overlaps(timespan.start, timespan.end, from, until));
+    const alternativeTransport = (disruption.alternativeTransportTimespans ?? [])
+      .filter((timespan) => DisruptionImpactAnalyzer.overlaps(timespan.start, timespan.end, from, until))
+      .map((timespan) => ({
+        start: timespan.start,
+        end: timespan.end,
+        label: timespan.alternativeTransport.label,
+        locations: timespan.alternativeTransport.location
+          .filter((location) => target.stations.some((station) =>
+            DisruptionImpactAnalyzer.isSameStation(location.station, station)
+          ))
+          .map((location) => `${location.station.name}: ${location.description}`)
+      }));
+
+    const current = timespans[0];
+    return {
+      id: disruption.id,
+      type: disruption.type,
+      title: disruption.title,
+      isActive: disruption.isActive,
+      impact: disruption.impact?.value,
+      start: disruption.start,
+      end: disruption.end,
+      period: current?.period ?? disruption.expectedDuration?.description,
+      situation: current?.situation?.label,
+      cause: current?.cause?.label,
+      affectedStations: [...new Set(affectedStations)],
+      consequences: [...new Set(touching.map((publication) => publication.consequence?.description).filter(Boolean))],
+      additionalTravelTime: current?.additionalTravelTime ?? disruption.summaryAdditionalTravelTime,
+      alternativeTransport,
+      advices: [...new Set(timespans.flatMap((timespan) => timespan.advices ?? []))]
+    };
+  }
+
+  private static touches(section: Section | undefined, stations: ImpactStation[]): boolean {
+    return DisruptionImpactAnalyzer.sectionStations(section).some((candidate) =>
+      stations.some((station) => DisruptionImpactAnalyzer.isSameStation(candidate, station))
+    );
+  }
+
+  private static sectionStations(section: Section | undefined): DisruptionStation[] {
+    return section?.stations ?? [];
+  }
+
+  private static isSameStation(candidate: DisruptionStation, station: ImpactStation): boolean {
+    if (station.uicCode && candidate.uicCode) {
+      return station.uicCode === candidate.uicCode;
+    }
+    if (station.code && candidate.stationCode) {
+      return station.code.toUpperCase() === candidate.stationCode.toUpperCase();
+    }
+    return StationRegistry.normalise(station.name) === StationRegistry.normalise(candidate.name);
+  }
+
+  // Open-ended or unparseable periods are taken to overlap
+  private static overlaps(start: string | undefined, end: string | undefined, from: number, until: number): boolean {
+    const startsAt = Date.parse(start ?? '');
+    const endsAt = Date.parse(end ?? '');
+    return (Number.isNaN(startsAt) || startsAt <= until) && (Number.isNaN(endsAt) || endsAt >= from);
+  }
+}
@@ -0,0 +1,88 @@
+import { euros } from '../formatting/text.js';
+import { CompareFaresArgs, FareComparison, FareOption, FareVariant, Price } from '../types.js';
+
+/**
+ * Turns the prices NS returns for every combination of class, single or return
+ * and joint journey discount into one comparison in euros, cheapest first.
+ */
+export class FareComparer {
+  /**
+   * The combinations to ask the prices endpoint for
+   */
+  static variants(args: Pick<CompareFaresArgs, 'travelClass' | 'travelType'>): FareVariant[] {
+    const classes: FareVariant['travelClass'][] = args.travelClass ? [args.travelClass] : ['SECOND_CLASS', 'FIRST_CLASS'];
+    const types: FareVariant['travelType'][] = args.travelType ? [args.travelType] : ['single', 'return'];
+    return classes.flatMap((travelClass) => types.flatMap((travelType) =>
+      [false, true].map((isJointJourney) => ({ travelClass, travelType, isJointJourney }))
+    ));
+  }
+
+  static compare(
+    group: Pick<FareComparison, 'fromStation' | 'toStation' | 'adults' | 'children'>,
+    results: { variant: FareVariant; prices?: Price[]; reason?: string }[]
+  ): FareComparison {
+    const options = results.flatMap(({ variant, prices }) => (prices ?? [])
+      // Asked for one class, NS can still list the other
+      .filter((price) => price.travelClass === variant.travelClass)
+      .map((price) => FareComparer.option(variant, price)));
+    const unique = options.filter((option) => !option.isJointJourney || !options.some((other) =>
+      !other.isJointJourney && FareComparer.sameFare(option, other)));
+    const cheapest = Math.min(...unique.map((option) => option.totalInEuros));
+
+    return {
+      ...group,
+      options: unique
+        .map((option) => ({
+          ...option,
+          isCheapest: option.totalInEuros === cheapest,
+          aboveCheapestInEuros: FareComparer.toEuros(Math.round((option.totalInEuros - cheapest) * 100))
+        }))
+        // Equal prices: NS's best option first, then second class before first
+        .sort((a, b) => a.totalInEuros - b.totalInEuros ||
+          Number(b.isBestOption) - Number(a.isBestOption) ||
+          b.travelClass.localeCompare(a.travelClass)),
+      unavailable: results
+        .filter((result): result is typeof result & { reason: string } => result.reason !== undefined)
+        .map(({ variant, reason }) => ({ ...variant, reason }))
+    };
+  }
+
+  private static option(variant: FareVariant, price: Price): FareOption {
+    return {
+      ...variant,
+      productId: price.productId,
+      displayName: price.displayName,
+      operatorName: price.operatorName,
+      totalInEuros: FareComparer.toEuros(price.totalPriceInCents),
+      perAdultInEuros: FareComparer.toEuros(price.pricePerAdultInCents),
+      perChildInEuros: FareComparer.toEuros(price.pricePerChildInCents),
+      discountInEuros: FareComparer.toEuros(price.discountInCents),
+      discountType: price.discountType,
+      discountExplanation: FareComparer.explain(variant, price),
+      isBestOption: price.isBestOption,
+      isCheapest: false,
+      aboveCheapestInEuros: 0
+    };
+  }
+
+  // "€9.36 off the full fare of €23.40: 40% discount for travelling together"
+  private static explain(variant: FareVariant, price: Price): string | undefined {
+    if (!price.discountInCents) {
+      return undefined;
+    }
+    const percent = /(\d+)_PERCENT/.exec(price.discountType)?.[1];
+    const kind = percent ? `${percent}% discount` : price.discountType.toLowerCase().replace(/_/g, ' ');
+    return `${euros(price.discountInCents)} off the full fare of ${euros(price.totalPriceInCents + price.discountInCents)}: ` +
+      `${kind}${variant.isJointJourney ? ' for travelling together (joint journey discount)' : ''}`;
+  }
+
+  // A joint journey price no different from the regular one adds nothing to the comparison
+  private static sameFare(a: FareOption, b: FareOption): boolean {
+    return a.travelClass === b.travelClass && a.travelType === b.travelType &&
+      a.productId === b.productId && a.totalInEuros === b.totalInEuros;
+  }
+
+  private static toEuros(cents: number): number {
+    return Math.round(cents) / 100;
+  }
+}
@@ -0,0 +1,156 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { NSApiService } from './NSApiService.js';
+import { StationRegistry } from './StationRegistry.js';
+import { ResponseFormatter } from '../utils/ResponseFormatter.js';
+import { distanceInMeters, parseCoordinates, Point } from '../utils/geo.js';
+import { toRfc3339 } from '../utils/time.js';
+import { PlaceLocation, ResolvedLocation, TravelAdviceLeg, TravelAdviceTrip } from '../types.js';
+
+export type AccessMode = 'WALK' | 'BIKE' | 'CAR';
+
+/**
+ * Start or end of a door-to-door trip away from the station
+ */
+export interface AccessPoint extends Point {
+  name: string;
+  mode: AccessMode;
+}
+
+/**
+ * Turns addresses, places and coordinates into points for door-to-door trips,
+ * with the station nearest to each. Addresses and places are looked up in the
+ * NS places API.
+ */
+export class LocationResolver {
+  // Average speeds in metres per minute, and how much longer roads are than a straight line
+  private static readonly SPEEDS: Record<AccessMode, number> = { WALK: 75, BIKE: 250, CAR: 500 };
+  private static readonly DETOUR_FACTOR = 1.3;
+  // Closer than this to the station, NS is assumed to have planned from the point itself
+  private static readonly MIN_ACCESS_METERS = 100;
+
+  constructor(
+    private readonly nsApiService: NSApiService,
+    private readonly stationRegistry: StationRegistry
+  ) {}
+
+  /**
+   * Resolve coordinates ("52.3389,4.8730") or an address or place name.
+   * Throws an InvalidParams error when the places API knows nothing by that name.
+   */
+  async resolve(input: string): Promise<ResolvedLocation> {
+    const coordinates = parseCoordinates(input);
+    return coordinates ? this.at(coordinates) : this.at(await this.geocode(input.trim()));
+  }
+
+  /**
+   * A point with the station nearest to it
+   */
+  async at(point: Point & Partial<Pick<ResolvedLocation, 'name' | 'source'>>): Promise<ResolvedLocation> {
+    const [nearestStation] = await this.stationRegistry.nearest(point, 1);
+    return {
+      name: point.name ?? `${point.lat}, ${point.lng}`,
+      lat: point.lat,
+      lng: point.lng,
+      source: point.source ?? 'coordinates',
+      nearestStation
+    };
+  }
+
+  private async geocode(query: string): Promise<Point & Pick<ResolvedLocation, 'name' | 'source'>> {
+    const response = await this.nsApiService.getPlaces({ query, limit: 5 });
+    const location = (response.payload ?? []).flatMap((place) => place.locations ?? [])[0];
+    if (!location) {
+      throw ResponseFormatter.createMcpError(
+        ErrorCode.InvalidParams,
+        `Could not find "${query}". Use a street address with its city (e.g. "Jaarbeursplein 6, Utrecht"), ` +
+          'a well-known place, or coordinates such as "52.3389,4.8730"'
+      );
+    }
+    return { name: LocationResolver.describe(location), lat: location.lat, lng: location.lng, source: 'places' };
+  }
+
+  private static describe(location: PlaceLocation): string {
+    const street = [location.street, location.houseNumber].filter(Boolean).join(' ');
+    // Addresses are often named after their street
+    const name = street.startsWith(location.name) ? undefined : location.name;
+    return [...new Set([name, street, location.city].filter(Boolean))].join(', ');
+  }
+
+  /**
+   * Add the walk, ride or drive between a point and the station at either end
+   * of a trip, when NS planned the trip from or to the station only
+   */
+  static withAccessLegs(trip: TravelAdviceTrip, origin?: AccessPoint, destination?: AccessPoint): TravelAdviceTrip {
+    const first = trip.legs[0];
+    const last = trip.legs[trip.legs.length - 1];
+    if (!first || !last) {
+      return trip;
+    }
+
+    const before = origin && LocationResolver.needsAccessLeg(first, origin, 'origin')
+      ? LocationResolver.accessLeg('origin', origin, first.origin)
+      : undefined;
+    const after = destination && LocationResolver.needsAccessLeg(last, destination, 'destination')
+      ? LocationResolver.accessLeg('destination', destination, last.destination)
+      : undefined;
+    if (!before && !after) {
+      return trip;
+    }
+
+    const extraMinutes = (before?.plannedDurationInMinutes ?? 0) + (after?.plannedDurationInMinutes ?? 0);
+    return {
+      ...trip,
+      plannedDurationInMinutes: trip.plannedDurationInMinutes + extraMinutes,
+      actualDurationInMinutes: trip.actualDurationInMinutes !== undefined ? trip.actualDurationInMinutes + extraMinutes : undefined,
+      legs: [...(before ? [before] : []), ...trip.legs, ...(after ? [after] : [])]
+    };
+  }
+
+  // NS already adds these legs itself when it planned from the coordinates
+  private static needsAccessLeg(leg: TravelAdviceLeg, point: AccessPoint, end: 'origin' | 'destination'): boolean {
+    const station = end === 'origin' ? leg.origin : leg.destination;
+    const isAtStation = leg.product !== undefined || leg.travelType === 'PUBLIC_TRANSIT';
+    return isAtStation && distanceInMeters(point, station) > LocationResolver.MIN_ACCESS_METERS;
+  }
+
+  private static accessLeg(
+    end: 'origin' | 'destination',
+    point: AccessPoint,
+    station: TravelAdviceLeg['origin']
+  ): TravelAdviceLeg {
+    const distance = Math.round(distanceInMeters(point, station) * LocationResolver.DETOUR_FACTOR);
+    const minutes = Math.max(1, Math.ceil(distance / LocationResolver.SPEEDS[point.mode]));
+    // Away from the station the leg starts earlier or ends later by its own duration
+    const offset = (end === 'origin' ? -minutes : minutes) * 60 * 1000;
+    const shift = (dateTime: string) => toRfc3339(new Date(Date.parse(dateTime) + offset));
+    const atStation: TravelAdviceLeg['origin'] = {
+      name: station.name,
+      lat: station.lat,
+      lng: station.lng,
+      type: station.type,
+      uicCode: station.uicCode,
+      stationCode: station.stationCode,
+      plannedDateTime: station.plannedDateTime,
+      actualDateTime: station.actualDateTime
+    };
+    const atPoint: TravelAdviceLeg['origin'] = {
+      name: point.name,
+      lat: point.lat,
+      lng: point.lng,
+      type: 'ADDRESS',
+      plannedDateTime: shift(station.plannedDateTime),
+      actualDateTime: station.actualDateTime !== undefined ? shift(station.actualDateTime) : undefined
+    };
+    const verb = { WALK: 'Walk', BIKE: 'Cycle', CAR: 'Drive' }[point.mode];
+    return {
+      idx: `access-${end}`,
+      name: `${verb} (estimated)`,
+      travelType: point.mode,
+      cancelled: false,
+      origin: end === 'origin' ? atPoint : atStation,
+      destination: end === 'origin' ? atStation : atPoint,
+      plannedDurationInMinutes: minutes,
+      distanceInMeters: distance
+    };
+  }
+}
@@ -1,146 +1,603 @@
 import axios, { AxiosInstance } from 'axios';
 import { 
-  Disruption, 
+  Calamity,
+  DisruptionItem,
+  GetCalamitiesArgs,
+  GetDisruptionArgs,
   GetDisruptionsArgs, 
+  GetStationDisruptionsArgs,
+  isCalamity,
+  isRideable,
   TravelAdvice, 
   GetTravelAdviceArgs,
   DeparturesResponse,
   GetDeparturesArgs,
   OVFietsResponse,
   GetOVFietsArgs,
+  GetPlacesArgs,
+  PlacesResponse,
   StationInfoArgs,
   StationInfoResponse,
   ArrivalsResponse,
   GetArrivalsArgs,
   PricesResponse,
-  GetPricesArgs
+  GetPricesArgs,
+  GetTripArgs,
+  GetJourneyArgs,
+  JourneyDetailResponse,
+  JourneyDetailStop,
+  NormalisedLeg,
+  NormalisedStop,
+  NormalisedTrip,
+  TravelAdviceLeg,
+  TravelAdviceStation,
+  TravelAdviceStop,
+  TravelAdviceTrip,
+  TrainComposition,
+  TrainCompositionPart,
+  TrainCompositionResponse,
+  TrainJourney,
+  TrainJourneyStop,
+  VehiclePosition,
+  VehiclePositionsResponse
 } from '../types.js';
+import { CachePolicy, ResponseCache } from './cache/ResponseCache.js';
+import { CacheStore } from './cache/CacheStore.js';
+import { MemoryCacheStore } from './cache/MemoryCacheStore.js';
+import { RetryOptions, RetryPolicy } from './http/RetryPolicy.js';
+import { TokenBucket } from './http/TokenBucket.js';
+import { CircuitBreaker } from './http/CircuitBreaker.js';
+import { RetryExhaustedError } from './http/errors.js';
+
+export interface HttpOptions extends RetryOptions {
+  timeoutMs: number;
+  requestsPerMinute: number;      // Client-side rate limit, 0 disables it
+  maxQueueWaitMs: number;         // How long a request may wait for rate limit capacity
+  circuitFailureThreshold: number;
+  circuitResetTimeoutMs: number;
+}
+
+export interface NSApiServiceOptions {
+  cacheStore?: CacheStore | null; // Defaults to an in-memory LRU, null disables caching
+  http?: Partial<HttpOptions>;
+}
+
+interface EndpointDefinition {
+  path: string;
+  cache: CachePolicy;
+}
+
+const SECOND = 1000;
+const MINUTE = 60 * SECOND;
+const HOUR = 60 * MINUTE;
+
+const DEFAULT_HTTP_OPTIONS: HttpOptions = {
+  timeoutMs: 10 * SECOND,
+  maxRetries: 3,
+  baseDelayMs: 300,
+  maxDelayMs: 5 * SECOND,
+  maxRetryAfterMs: 30 * SECOND,
+  requestsPerMinute: 300,
+  maxQueueWaitMs: 10 * SECOND,
+  circuitFailureThreshold: 5,
+  circuitResetTimeoutMs: 30 * SECOND
+};
 
 export class NSApiService {
   private axiosInstance: AxiosInstance;
   private static readonly BASE_URL = 'https://gateway.apiportal.ns.nl';
   private static readonly ENDPOINTS = {
-    DISRUPTIONS: '/disruptions/v3',
-    TRIPS: '/reisinformatie-api/api/v3/trips',
-    DEPARTURES: '/reisinformatie-api/api/v2/departures',
-    ARRIVALS: '/reisinformatie-api/api/v2/arrivals',
-    PRICES: '/reisinformatie-api/api/v3/price',
-    OVFIETS: '/places-api/v2/ovfiets',
-    STATIONS: '/nsapp-stations/v3'
-  } as const;
-
-  constructor(apiKey: string) {
+    DISRUPTIONS: { path: '/disruptions/v3', cache: { ttlMs: 2 * MINUTE } },
+    TRIPS: { path: '/reisinformatie-api/api/v3/trips', cache: { ttlMs: MINUTE } },
+    TRIP: { path: '/reisinformatie-api/api/v3/trips/trip', cache: { ttlMs: 30 * SECOND } },
+    DEPARTURES: {
+      path: '/reisinformatie-api/api/v2/departures',
+      cache: { ttlMs: 30 * SECOND, staleWhileRevalidateMs: 2 * MINUTE }
+    },
+    ARRIVALS: {
+      path: '/reisinformatie-api/api/v2/arrivals',
+      cache: { ttlMs: 30 * SECOND, staleWhileRevalidateMs: 2 * MINUTE }
+    },
+    PRICES: { path: '/reisinformatie-api/api/v3/price', cache: { ttlMs: 6 * HOUR } },
+    JOURNEY: { path: '/reisinformatie-api/api/v2/journey', cache: { ttlMs: 30 * SECOND } },
+    COMPOSITION: { path: '/virtual-train-api/api/v1/trein', cache: { ttlMs: 5 * MINUTE } },
+    VEHICLES: { path: '/virtual-train-api/api/vehicle', cache: { ttlMs: 15 * SECOND } },
+    OVFIETS: { path: '/places-api/v2/ovfiets', cache: { ttlMs: MINUTE } },
+    PLACES: { path: '/places-api/v2/places', cache: { ttlMs: 24 * HOUR } },
+    STATIONS: { path: '/nsapp-stations/v3', cache: { ttlMs: 24 * HOUR } }
+  } satisfies Record<string, EndpointDefinition>;
+
+  private readonly cache: ResponseCache;
+  private readonly httpOptions: HttpOptions;
+  private readonly retryPolicy: RetryPolicy;
+  private readonly rateLimiter?: TokenBucket;
+  private readonly circuitBreaker: CircuitBreaker;
+
+  constructor(apiKey: string, options: NSApiServiceOptions = {}) {
+    // Unset options fall back to the defaults
+    const httpOverrides = Object.fromEntries(
+      Object.entries(options.http ?? {}).filter(([, value]) => value !== undefined)
+    );
+    this.httpOptions = { ...DEFAULT_HTTP_OPTIONS, ...httpOverrides };
     this.axiosInstance = axios.create({
       baseURL: NSApiService.BASE_URL,
+      timeout: this.httpOptions.timeoutMs,
       headers: {
         'Ocp-Apim-Subscription-Key': apiKey,
       },
     });
+    this.cache = new ResponseCache(
+      options.cacheStore === undefined ? new MemoryCacheStore() : options.cacheStore
+    );
+    this.retryPolicy = new RetryPolicy(this.httpOptions);
+    if (this.httpOptions.requestsPerMinute > 0) {
+      this.rateLimiter = new TokenBucket(this.httpOptions.requestsPerMinute);
+    }
+    this.circuitBreaker = new CircuitBreaker(
+      this.httpOptions.circuitFailureThreshold,
+      this.httpOptions.circuitResetTimeoutMs
+    );
   }
 
-  async getDisruptions(args: GetDisruptionsArgs): Promise<Disruption[]> {
-    const response = await this.axiosInstance.get<Disruption[]>(
-      NSApiService.ENDPOINTS.DISRUPTIONS,
-      {
-        params: {
-          isActive: args.isActive,
-          type: args.type,
-        },
-      }
-    );
-    return response.data;
-  }
-
-  async getTravelAdvice(args: GetTravelAdviceArgs): Promise<TravelAdvice[]> {
-    const response = await this.axiosInstance.get<TravelAdvice[]>(
-      NSApiService.ENDPOINTS.TRIPS,
-      {
-        params: {
-          fromStation: args.fromStation,
-          toStation: args.toStation,
-          dateTime: args.dateTime,
-          searchForArrival: args.searchForArrival,
-        },
-      }
+  async getDisruptions(args: GetDisruptionsArgs): Promise<DisruptionItem[]> {
+    return this.get<DisruptionItem[]>(NSApiService.ENDPOINTS.DISRUPTIONS, {
+      isActive: args.isActive,
+      type: args.type,
+      lang: args.lang
+    });
+  }
+
+  /**
+   * Disruptions, maintenance and calamities affecting one station
+   */
+  async getStationDisruptions(args: GetStationDisruptionsArgs): Promise<DisruptionItem[]> {
+    return this.get<DisruptionItem[]>(
+      NSApiService.withPath(NSApiService.ENDPOINTS.DISRUPTIONS, 'station', args.station),
+      { lang: args.lang }
     );
-    return response.data;
   }
 
-  async getDepartures(args: GetDeparturesArgs): Promise<DeparturesResponse> {
-    const response = await this.axiosInstance.get<DeparturesResponse>(
-      NSApiService.ENDPOINTS.DEPARTURES,
-      {
-        params: {
-          station: args.station,
-          dateTime: args.dateTime,
-          maxJourneys: args.maxJourneys,
-          lang: args.lang
-        },
-      }
+  /**
+   * A single disruption, maintenance or calamity by id. Its type is part of the
+   * path, so it is looked up in the national list when not given.
+   */
+  async getDisruption(args: GetDisruptionArgs): Promise<DisruptionItem> {
+    const type = args.type ??
+      (await this.getDisruptions({ lang: args.lang })).find((item) => item.id === args.id)?.type ??
+      'DISRUPTION';
+    return this.get<DisruptionItem>(
+      NSApiService.withPath(NSApiService.ENDPOINTS.DISRUPTIONS, type.toLowerCase(), args.id),
+      { lang: args.lang }
     );
-    return response.data;
   }
 
-  async getOVFiets(args: GetOVFietsArgs): Promise<OVFietsResponse> {
-    const response = await this.axiosInstance.get<OVFietsResponse>(
-      NSApiService.ENDPOINTS.OVFIETS,
-      {
-        params: {
-          station_code: args.stationCode
-        }
-      }
+  async getCalamities(args: GetCalamitiesArgs): Promise<Calamity[]> {
+    const items = await this.get<DisruptionItem[]>(NSApiService.ENDPOINTS.DISRUPTIONS, {
+      type: 'CALAMITY',
+      lang: args.lang
+    });
+    return items.filter(isCalamity);
+  }
+
+  async getTravelAdvice(args: GetTravelAdviceArgs): Promise<TravelAdvice> {
+    return this.get<TravelAdvice>(NSApiService.ENDPOINTS.TRIPS, {
+      fromStation: args.fromStation,
+      toStation: args.toStation,
+      dateTime: args.dateTime,
+      searchForArrival: args.searchForArrival,
+      context: args.context,
+      originLat: args.originLat,
+      originLng: args.originLng,
+      originName: args.originName,
+      originWalk: args.originWalk,
+      originBike: args.originBike,
+      originCar: args.originCar,
+      destinationLat: args.destinationLat,
+      destinationLng: args.destinationLng,
+      destinationName: args.destinationName,
+      destinationWalk: args.destinationWalk,
+      destinationBike: args.destinationBike,
+      destinationCar: args.destinationCar,
+      viaStation: args.viaStation,
+      viaWaitTime: args.viaWaitTime,
+      excludeHighSpeedTrains: args.excludeHighSpeedTrains,
+      excludeTrainsWithReservationRequired: args.excludeTrainsWithReservationRequired,
+      localTrainsOnly: args.localTrainsOnly,
+      disabledTransportModalities: args.disabledTransportModalities?.join(','),
+      bikeCarriageRequired: args.bikeCarriageRequired,
+      travelAssistance: args.travelAssistance,
+      searchForAccessibleTrip: args.searchForAccessibleTrip,
+      addChangeTime: args.addChangeTime,
+      shorterChange: args.shorterChange
+    });
+  }
+
+  /**
+   * Reconstruct a single trip from its ctxRecon, with up-to-date times and tracks
+   */
+  async getTrip(args: GetTripArgs): Promise<TravelAdviceTrip> {
+    return this.get<TravelAdviceTrip>(NSApiService.ENDPOINTS.TRIP, {
+      ctxRecon: args.ctxRecon
+    });
+  }
+
+  /**
+   * A train's stops from the journey-detail endpoint, combined with its composition
+   * and live position from the virtual-train API. Composition and position are
+   * left out, with a note, when the virtual-train API has no data for the train.
+   */
+  async getJourney(args: GetJourneyArgs): Promise<TrainJourney> {
+    const journey = await this.get<JourneyDetailResponse>(NSApiService.ENDPOINTS.JOURNEY, {
+      train: args.train,
+      dateTime: args.dateTime
+    });
+    const compositionEndpoint = args.station
+      ? NSApiService.withPath(NSApiService.ENDPOINTS.COMPOSITION, args.train, args.station)
+      : NSApiService.withPath(NSApiService.ENDPOINTS.COMPOSITION, args.train);
+    const [composition, vehicles] = await Promise.allSettled([
+      this.get<TrainCompositionResponse>(compositionEndpoint, { features: 'zitplaats' }),
+      this.get<VehiclePositionsResponse>(NSApiService.ENDPOINTS.VEHICLES, {})
+    ]);
+
+    const notes: string[] = [];
+    if (composition.status === 'rejected') {
+      console.error(`[NSApiService] No composition for train ${args.train}`, composition.reason);
+      notes.push('Live composition is not available, showing the composition from the timetable.');
+    }
+    if (vehicles.status === 'rejected') {
+      console.error('[NSApiService] Failed to fetch vehicle positions', vehicles.reason);
+    }
+
+    return NSApiService.normaliseJourney(
+      args.train,
+      journey,
+      composition.status === 'fulfilled' ? composition.value : undefined,
+      vehicles.status === 'fulfilled'
+        ? vehicles.value.payload?.treinen?.find((vehicle) => String(vehicle.treinNummer) === args.train)
+        : undefined,
+      notes
     );
-    return response.data;
+  }
+
+  async getDepartures(args: GetDeparturesArgs): Promise<DeparturesResponse> {
+    return this.get<DeparturesResponse>(NSApiService.ENDPOINTS.DEPARTURES, {
+      station: args.station,
+      uicCode: args.uicCode,
+      dateTime: args.dateTime,
+      maxJourneys: args.maxJourneys,
+      lang: args.lang
+    });
+  }
+
+  /**
+   * OV-fiets rental locations at a station, or every location in the country
+   * when no station code is given
+   */
+  async getOVFiets(args: Pick<GetOVFietsArgs, 'stationCode'>): Promise<OVFietsResponse> {
+    return this.get<OVFietsResponse>(NSApiService.ENDPOINTS.OVFIETS, {
+      station_code: args.stationCode
+    });
+  }
+
+  /**
+   * Search the places API: addresses, stations and other points of interest,
+   * by text or around a point
+   */
+  async getPlaces(args: GetPlacesArgs): Promise<PlacesResponse> {
+    return this.get<PlacesResponse>(NSApiService.ENDPOINTS.PLACES, {
+      q: args.query,
+      type: args.type,
+      lat: args.lat,
+      lng: args.lng,
+      radius: args.radius,
+      limit: args.limit,
+      lang: args.lang
+    });
   }
 
   async getStationInfo(args: StationInfoArgs): Promise<StationInfoResponse> {
-    const response = await this.axiosInstance.get<StationInfoResponse>(
-      NSApiService.ENDPOINTS.STATIONS,
-      {
-        params: {
-          q: args.query,
-          includeNonPlannableStations: args.includeNonPlannableStations ?? false,
-          limit: args.limit ?? 10
-        }
-      }
-    );
-    return response.data;
+    return this.get<StationInfoResponse>(NSApiService.ENDPOINTS.STATIONS, {
+      q: args.query || undefined,
+      includeNonPlannableStations: args.includeNonPlannableStations ?? false,
+      limit: args.limit ?? 10
+    });
   }
 
   async getArrivals(args: GetArrivalsArgs): Promise<ArrivalsResponse> {
-    const response = await this.axiosInstance.get<ArrivalsResponse>(
-      NSApiService.ENDPOINTS.ARRIVALS,
-      {
-        params: {
-          station: args.station,
-          uicCode: args.uicCode,
-          dateTime: args.dateTime,
-          maxJourneys: args.maxJourneys,
-          lang: args.lang
-        },
-      }
-    );
-    return response.data;
+    return this.get<ArrivalsResponse>(NSApiService.ENDPOINTS.ARRIVALS, {
+      station: args.station,
+      uicCode: args.uicCode,
+      dateTime: args.dateTime,
+      maxJourneys: args.maxJourneys,
+      lang: args.lang
+    });
   }
 
   async getPrices(args: GetPricesArgs): Promise<PricesResponse> {
-    const response = await this.axiosInstance.get<PricesResponse>(
-      NSApiService.ENDPOINTS.PRICES,
-      {
-        params: {
-          fromStation: args.fromStation,
-          toStation: args.toStation,
-          travelClass: args.travelClass,
-          travelType: args.travelType,
-          isJointJourney: args.isJointJourney,
-          adults: args.adults,
-          children: args.children,
-          routeId: args.routeId,
-          plannedDepartureTime: args.plannedDepartureTime,
-          plannedArrivalTime: args.plannedArrivalTime
-        },
-      }
+    return this.get<PricesResponse>(NSApiService.ENDPOINTS.PRICES, {
+      fromStation: args.fromStation,
+      toStation: args.toStation,
+      travelClass: args.travelClass,
+      travelType: args.travelType,
+      isJointJourney: args.isJointJourney,
+      adults: args.adults,
+      children: args.children,
+      routeId: args.routeId,
+      plannedDepartureTime: args.plannedDepartureTime,
+      plannedArrivalTime: args.plannedArrivalTime
+    });
+  }
+
+  /**
+   * Map a trip from the trips response to the normalised model. Stops get a single
+   * planned and actual time and track, walking and cycling legs get a mode instead
+   * of a product, and missing optional fields get stable defaults.
+   */
+  static normaliseTrip(trip: TravelAdviceTrip): NormalisedTrip {
+    const legs = trip.legs.map((leg, index) => NSApiService.normaliseLeg(leg, index));
+    const first = legs[0];
+    const last = legs[legs.length - 1];
+    const fare = trip.productFare ?? trip.fares?.[0];
+    return {
+      uid: trip.uid,
+      ctxRecon: trip.ctxRecon,
+      status: trip.status,
+      optimal: trip.optimal,
+      departure: first?.origin ?? NSApiService.emptyStop(),
+      arrival: last?.destination ?? NSApiService.emptyStop(),
+      plannedDurationInMinutes: trip.plannedDurationInMinutes,
+      actualDurationInMinutes: trip.actualDurationInMinutes ?? trip.plannedDurationInMinutes,
+      // Walking, cycling and driving legs are not counted as transfers
+      transfers: trip.transfers ?? Math.max(0, legs.filter(isRideable).length - 1),
+      crowdForecast: trip.crowdForecast,
+      punctuality: trip.punctuality,
+      fareInCents: fare?.priceInCents,
+      shareUrl: trip.shareUrl?.uri,
+      messages: NSApiService.unique((trip.messages ?? []).map((message) => message.head ?? message.text ?? '')),
+      legs
+    };
+  }
+
+  private static normaliseLeg(leg: TravelAdviceLeg, index: number): NormalisedLeg {
+    const stops = leg.stops ?? [];
+    return {
+      index,
+      mode: leg.product?.type ?? leg.travelType ?? 'UNKNOWN',
+      name: leg.name,
+      category: leg.product?.displayName,
+      trainNumber: leg.product?.number || undefined,
+      operator: leg.product?.operatorName,
+      direction: leg.direction,
+      cancelled: leg.cancelled,
+      alternativeTransport: leg.alternativeTransport ?? false,
+      origin: NSApiService.normaliseEndpoint(leg.origin, leg.cancelled, 'departure'),
+      destination: NSApiService.normaliseEndpoint(leg.destination, leg.cancelled, 'arrival'),
+      // NS lists the leg's origin and destination as first and last stop
+      intermediateStops: stops.slice(1, -1)
+        .filter((stop) => !stop.passing)
+        .map((stop) => NSApiService.normaliseStop(stop)),
+      crowdForecast: leg.crowdForecast,
+      punctuality: leg.punctuality,
+      crossPlatformTransfer: leg.crossPlatformTransfer ?? false,
+      changePossible: leg.changePossible ?? true,
+      notes: NSApiService.unique([
+        ...(leg.notes ?? []),
+        ...(leg.product?.notes ?? []).flat()
+      ].map((note) => note.value)),
+      transferMessages: NSApiService.unique((leg.transferMessages ?? []).map((message) => message.message))
+    };
+  }
+
+  private static normaliseEndpoint(
+    station: TravelAdviceStation,
+    cancelled: boolean,
+    role: 'departure' | 'arrival'
+  ): NormalisedStop {
+    const time = { planned: station.plannedDateTime, actual: station.actualDateTime ?? station.plannedDateTime };
+    return {
+      name: station.name,
+      uicCode: station.uicCode,
+      countryCode: station.countryCode,
+      plannedDeparture: role === 'departure' ? time.planned : undefined,
+      actualDeparture: role === 'departure' ? time.actual : undefined,
+      plannedArrival: role === 'arrival' ? time.planned : undefined,
+      actualArrival: role === 'arrival' ? time.actual : undefined,
+      plannedTrack: station.plannedTrack,
+      actualTrack: station.actualTrack ?? station.plannedTrack,
+      delayMinutes: NSApiService.delayMinutes(time.planned, time.actual),
+      cancelled,
+      passing: false
+    };
+  }
+
+  private static normaliseStop(stop: TravelAdviceStop): NormalisedStop {
+    const plannedTrack = stop.plannedDepartureTrack ?? stop.plannedArrivalTrack;
+    const delaySeconds = stop.departureDelayInSeconds ?? stop.arrivalDelayInSeconds;
+    return {
+      name: stop.name,
+      uicCode: stop.uicCode,
+      countryCode: stop.countryCode,
+      plannedArrival: stop.plannedArrivalDateTime,
+      actualArrival: stop.actualArrivalDateTime ?? stop.plannedArrivalDateTime,
+      plannedDeparture: stop.plannedDepartureDateTime,
+      actualDeparture: stop.actualDepartureDateTime ?? stop.plannedDepartureDateTime,
+      plannedTrack,
+      actualTrack: stop.actualDepartureTrack ?? stop.actualArrivalTrack ?? plannedTrack,
+      delayMinutes: delaySeconds !== undefined
+        ? Math.round(delaySeconds / 60)
+        : NSApiService.delayMinutes(stop.plannedDepartureDateTime, stop.actualDepartureDateTime),
+      cancelled: stop.cancelled ?? false,
+      passing: stop.passing ?? false
+    };
+  }
+
+  // Facility codes from both the journey-detail (English) and virtual-train (Dutch) APIs
+  private static readonly FACILITIES: Record<string, string> = {
+    TOILET: 'toilet',
+    SILENCE: 'silence zone',
+    STILTE: 'silence zone',
+    BICYCLE: 'bicycles',
+    FIETS: 'bicycles',
+    WIFI: 'wifi',
+    POWER_SOCKETS: 'power sockets',
+    STROOM: 'power sockets',
+    ACCESSIBLE: 'accessible',
+    TOEGANKELIJK: 'accessible',
+    BISTRO: 'bistro'
+  };
+
+  /**
+   * Map the journey-detail stops, composition and vehicle position of a train to
+   * the normalised journey model. Passing stops are left out.
+   */
+  static normaliseJourney(
+    trainNumber: string,
+    journey: JourneyDetailResponse,
+    composition: TrainCompositionResponse | undefined,
+    vehicle: VehiclePosition | undefined,
+    notes: string[] = []
+  ): TrainJourney {
+    const calls = (journey.payload?.stops ?? []).filter((stop) => stop.status !== 'PASSING');
+    const stops = calls.map((call): TrainJourneyStop => {
+      const arrival = call.arrivals?.[0];
+      const departure = call.departures?.[0];
+      const event = departure ?? arrival;
+      const delaySeconds = departure?.delayInSeconds ?? arrival?.delayInSeconds;
+      return {
+        name: call.stop.name,
+        uicCode: call.stop.uicCode,
+        status: call.status ?? 'STOP',
+        plannedArrival: arrival?.plannedTime,
+        actualArrival: arrival?.actualTime ?? arrival?.plannedTime,
+        plannedDeparture: departure?.plannedTime,
+        actualDeparture: departure?.actualTime ?? departure?.plannedTime,
+        plannedTrack: event?.plannedTrack,
+        actualTrack: event?.actualTrack ?? event?.plannedTrack,
+        delayMinutes: delaySeconds !== undefined
+          ? Math.round(delaySeconds / 60)
+          : NSApiService.delayMinutes(event?.plannedTime, event?.actualTime),
+        cancelled: event?.cancelled ?? false,
+        crowdForecast: event?.crowdForecast
+      };
+    });
+
+    // The last stop whose actual time has passed is where the train is or has just left
+    const now = Date.now();
+    const reached = stops.filter((stop) => Date.parse(stop.actualDeparture ?? stop.actualArrival ?? '') <= now);
+    const lastStop = reached[reached.length - 1];
+    const nextStop = stops[lastStop ? stops.indexOf(lastStop) + 1 : 0];
+
+    const product = calls.flatMap((call) => [...(call.departures ?? []), ...(call.arrivals ?? [])])
+      .find((event) => event.product)?.product;
+    const firstDeparture = calls.find((call) => call.departures?.length)?.departures?.[0];
+
+    return {
+      trainNumber,
+      category: product?.longCategoryName ?? product?.shortCategoryName,
+      operator: product?.operatorName,
+      destination: firstDeparture?.destination?.name ?? stops[stops.length - 1]?.name,
+      stops,
+      lastStop: lastStop?.name,
+      nextStop: nextStop?.name,
+      composition: composition
+        ? NSApiService.normaliseComposition(composition)
+        : NSApiService.normaliseStock(calls.find((call) => call.actualStock ?? call.plannedStock)),
+      position: vehicle
+        ? { lat: vehicle.lat, lng: vehicle.lng, speedKmh: vehicle.snelheid, heading: vehicle.richting }
+        : undefined,
+      notes: NSApiService.unique([
+        ...(journey.payload?.notes ?? []).map((note) => note.value),
+        ...notes
+      ])
+    };
+  }
+
+  private static normaliseComposition(composition: TrainCompositionResponse): TrainComposition {
+    const parts = (composition.materieeldelen ?? []).map((unit): TrainCompositionPart => ({
+      identifier: unit.materieelnummer !== undefined ? String(unit.materieelnummer) : undefined,
+      type: unit.type,
+      destination: unit.eindbestemming,
+      carriages: unit.bakken?.length,
+      facilities: NSApiService.facilities(unit.faciliteiten),
+      firstClassSeats: unit.zitplaatsen?.zitplaatsEersteKlas,
+      secondClassSeats: unit.zitplaatsen?.zitplaatsTweedeKlas
+    }));
+    const seats = parts.reduce((sum, part) => sum + (part.firstClassSeats ?? 0) + (part.secondClassSeats ?? 0), 0);
+    return {
+      source: 'virtual-train',
+      trainType: composition.type,
+      carriages: composition.lengte,
+      lengthInMeters: composition.lengteInMeters,
+      seats: seats || undefined,
+      shortened: composition.ingekort ?? false,
+      parts
+    };
+  }
+
+  private static normaliseStock(call: JourneyDetailStop | undefined): TrainComposition | undefined {
+    const stock = call?.actualStock ?? call?.plannedStock;
+    if (!stock) {
+      return undefined;
+    }
+    return {
+      source: 'journey-detail',
+      trainType: stock.trainType,
+      seats: stock.numberOfSeats,
+      shortened: false,
+      parts: (stock.trainParts ?? []).map((part) => ({
+        identifier: part.stockIdentifier,
+        destination: part.destination?.name,
+        facilities: NSApiService.facilities(part.facilities)
+      }))
+    };
+  }
+
+  private static facilities(codes: string[] | undefined): string[] {
+    return NSApiService.unique((codes ?? []).map((code) =>
+      NSApiService.FACILITIES[code.toUpperCase()] ?? code.toLowerCase().replace(/_/g, ' ')
+    ));
+  }
+
+  private static emptyStop(): NormalisedStop {
+    return { name: '', delayMinutes: 0, cancelled: false, passing: false };
+  }
+
+  private static delayMinutes(planned: string | undefined, actual: string | undefined): number {
+    const delay = Math.round((Date.parse(actual ?? '') - Date.parse(planned ?? '')) / MINUTE);
+    return Number.isNaN(delay) ? 0 : delay;
+  }
+
+  private static unique(values: string[]): string[] {
+    return [...new Set(values.filter(Boolean))];
+  }
+
+  /**
+   * GET an endpoint through the response cache, circuit breaker, retry policy
+   * and rate limiter, in that order
+   */
+  private async get<T>(endpoint: EndpointDefinition, params: Record<string, unknown>): Promise<T> {
+    return this.cache.getOrFetch(endpoint.path, params, endpoint.cache, () =>
+      this.circuitBreaker.execute(
+        () => this.retryPolicy.execute(async () => {
+          await this.rateLimiter?.take(this.httpOptions.maxQueueWaitMs);
+          const response = await this.axiosInstance.get<T>(endpoint.path, { params });
+          return response.data;
+        }),
+        NSApiService.isGatewayFailure
+      )
     );
-    return response.data;
   }
-} 
\ No newline at end of file
+
+  // Endpoint for a resource below the endpoint's path, e.g. /disruptions/v3/station/UT
+  private static withPath(endpoint: EndpointDefinition, ...segments: string[]): EndpointDefinition {
+    return {
+      ...endpoint,
+      path: [endpoint.path, ...segments.map((segment) => encodeURIComponent(segment))].join('/')
+    };
+  }
+
+  // Rate limiting by NS means the gateway is up, so it does not open the circuit
+  private static isGatewayFailure(error: unknown): boolean {
+    return error instanceof RetryExhaustedError && error.lastError.response?.status !== 429;
+  }
+}
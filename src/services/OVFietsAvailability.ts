@@ -0,0 +1,93 @@
+import { distanceInMeters, Point } from '../utils/geo.js';
+import { localDayAndMinute } from '../utils/time.js';
+import { OpeningHours, OVFietsLocation, OVFietsLocationStatus } from '../types.js';
+
+/**
+ * Works out from an OV-fiets location as NS returns it how many bikes it has
+ * and whether it is open at a given time, and finds alternatives nearby
+ */
+export class OVFietsAvailability {
+  private static readonly MAX_ALTERNATIVES = 3;
+  // NS's open flag describes the moment of the request only
+  private static readonly OPEN_FLAG_VALID_MS = 5 * 60 * 1000;
+
+  /**
+   * The location with its number of bikes, whether it is open at the given
+   * time and its distance from a point
+   */
+  static status(location: OVFietsLocation, at: Date, from?: Point): OVFietsLocationStatus {
+    return {
+      ...location,
+      availableBikes: OVFietsAvailability.bikes(location),
+      openAtTime: OVFietsAvailability.isOpenAt(location, at),
+      distanceInMeters: from ? distanceInMeters(from, location) : undefined
+    };
+  }
+
+  /**
+   * Number of bikes ready to rent. NS sends it as text, undefined when it holds no number.
+   */
+  static bikes(location: OVFietsLocation): number | undefined {
+    const match = /\d+/.exec(location.extra?.rentalBikes ?? '');
+    return match ? Number(match[0]) : undefined;
+  }
+
+  /**
+   * Whether a location is open at an instant. Opening hours that close the
+   * next day also cover the early hours of the day after. Without opening hours
+   * only NS's open flag for the current moment is known. Also applies to other
+   * places with opening hours, such as station facilities.
+   */
+  static isOpenAt(location: { openingHours?: OpeningHours[]; open?: string }, at: Date): boolean | undefined {
+    const openingHours = location.openingHours ?? [];
+    if (openingHours.length === 0) {
+      const isNow = Math.abs(at.getTime() - Date.now()) <= OVFietsAvailability.OPEN_FLAG_VALID_MS;
+      return isNow && (location.open === 'Yes' || location.open === 'No') ? location.open === 'Yes' : undefined;
+    }
+
+    const { weekday, minuteOfDay } = localDayAndMinute(at);
+    const today = weekday === 0 ? 7 : weekday;
+    const yesterday = today === 1 ? 7 : today - 1;
+    return openingHours.some((hours) => {
+      const start = OVFietsAvailability.minutes(hours.startTime);
+      const end = OVFietsAvailability.minutes(hours.endTime);
+      if (start === undefined || end === undefined) {
+        return false;
+      }
+      if (hours.dayOfWeek === today && minuteOfDay >= start && (hours.closesNextDay || minuteOfDay < end)) {
+        return true;
+      }
+      return hours.dayOfWeek === yesterday && hours.closesNextDay && minuteOfDay < end;
+    });
+  }
+
+  /**
+   * Whether a bike can be rented there: it has bikes and is not known to be closed
+   */
+  static isUsable(status: OVFietsLocationStatus): boolean {
+    return (status.availableBikes ?? 0) > 0 && status.openAtTime !== false;
+  }
+
+  /**
+   * Usable locations nearest to a point, leaving out the given location codes
+   */
+  static alternatives(
+    locations: OVFietsLocation[],
+    from: Point,
+    at: Date,
+    exclude: Set<string>
+  ): OVFietsLocationStatus[] {
+    return locations
+      .filter((location) => !exclude.has(location.extra?.locationCode))
+      .map((location) => OVFietsAvailability.status(location, at, from))
+      .filter(OVFietsAvailability.isUsable)
+      .sort((a, b) => (a.distanceInMeters ?? 0) - (b.distanceInMeters ?? 0))
+      .slice(0, OVFietsAvailability.MAX_ALTERNATIVES);
+  }
+
+  // "07:30" as 450, "24:00" as 1440
+  private static minutes(time: OpeningHours['startTime']): number | undefined {
+    const match = /^(\d{1,2}):(\d{2})/.exec(time ?? '');
+    return match ? Number(match[1]) * 60 + Number(match[2]) : undefined;
+  }
+}
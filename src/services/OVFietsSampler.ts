@@ -0,0 +1,180 @@
+import { NSApiService } from './NSApiService.js';
+import { OVFietsAvailability } from './OVFietsAvailability.js';
+import { JsonFileStore } from '../utils/JsonFileStore.js';
+import { localDayAndMinute, toRfc3339 } from '../utils/time.js';
+import { OVFietsLocation, OVFietsUsualAvailability } from '../types.js';
+
+export interface OVFietsSamplerOptions {
+  file: string;        // Where samples are kept across restarts
+  intervalMs: number;  // How often followed locations are sampled
+}
+
+/**
+ * A location whose bikes are counted, with its counts as [time in ms, bikes]
+ */
+interface FollowedLocation {
+  name: string;
+  followUntil: number;
+  samples: [number, number][];
+}
+
+/**
+ * Counts the bikes at OV-fiets locations over time, so it can tell how many
+ * a location usually has at a time of day. Locations are followed for two
+ * weeks after they were last looked up, and all of them are sampled with a
+ * single request for the whole country. Samples are saved to a file and kept
+ * for four weeks.
+ */
+export class OVFietsSampler {
+  private static readonly FOLLOW_MS = 14 * 24 * 60 * 60 * 1000;
+  private static readonly RETENTION_MS = 28 * 24 * 60 * 60 * 1000;
+  // Samples this close to the requested time of day count towards the usual availability
+  private static readonly WINDOW_MINUTES = 30;
+  private static readonly MIN_SAMPLES = 3;
+
+  private readonly locations = new Map<string, FollowedLocation>();  // By location code
+  private timer?: NodeJS.Timeout;
+  private sampling = false;
+  private readonly store: JsonFileStore<{ locations: Record<string, FollowedLocation> }>;
+
+  constructor(
+    private readonly nsApiService: () => NSApiService | undefined,
+    private readonly options: OVFietsSamplerOptions
+  ) {
+    this.store = new JsonFileStore(options.file, 'OVFietsSampler', 'samples');
+  }
+
+  /**
+   * Load saved samples and start sampling
+   */
+  async start(): Promise<void> {
+    await this.load();
+    this.timer = setInterval(() => {
+      this.sample().catch((error) => console.error('[OVFietsSampler] Sampling failed', error));
+    }, this.options.intervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    await this.store.flush();
+  }
+
+  /**
+   * Count the bikes at locations that were just looked up, and keep following them
+   */
+  async record(locations: OVFietsLocation[]): Promise<void> {
+    const now = Date.now();
+    for (const location of locations) {
+      const code = location.extra?.locationCode;
+      if (!code) {
+        continue;
+      }
+      const followed = this.locations.get(code) ?? { name: location.description || location.name, followUntil: 0, samples: [] };
+      followed.followUntil = now + OVFietsSampler.FOLLOW_MS;
+      this.locations.set(code, followed);
+      this.add(followed, location, now);
+    }
+    await this.save();
+  }
+
+  /**
+   * How many bikes a location usually has around the time of day of `at`, on
+   * the same kind of day (weekday or weekend). Undefined until there are
+   * enough samples.
+   */
+  usually(locationCode: string, at: Date): OVFietsUsualAvailability | undefined {
+    const followed = this.locations.get(locationCode);
+    if (!followed) {
+      return undefined;
+    }
+
+    const target = localDayAndMinute(at);
+    const dayType = OVFietsSampler.dayType(target.weekday);
+    const matching = followed.samples.filter(([time]) => {
+      const sample = localDayAndMinute(new Date(time));
+      const difference = Math.abs(sample.minuteOfDay - target.minuteOfDay);
+      return OVFietsSampler.dayType(sample.weekday) === dayType &&
+        Math.min(difference, 24 * 60 - difference) <= OVFietsSampler.WINDOW_MINUTES;
+    });
+    if (matching.length < OVFietsSampler.MIN_SAMPLES) {
+      return undefined;
+    }
+
+    const bikes = matching.map(([, count]) => count).sort((a, b) => a - b);
+    const middle = Math.floor(bikes.length / 2);
+    return {
+      locationCode,
+      name: followed.name,
+      timeOfDay: `${String(Math.floor(target.minuteOfDay / 60)).padStart(2, '0')}:${String(target.minuteOfDay % 60).padStart(2, '0')}`,
+      dayType,
+      samples: bikes.length,
+      days: new Set(matching.map(([time]) => toRfc3339(new Date(time)).slice(0, 10))).size,
+      medianBikes: bikes.length % 2 === 1 ? bikes[middle] : Math.round((bikes[middle - 1] + bikes[middle]) / 2),
+      minBikes: bikes[0],
+      maxBikes: bikes[bikes.length - 1],
+      emptyShare: Math.round(bikes.filter((count) => count === 0).length / bikes.length * 100) / 100
+    };
+  }
+
+  /**
+   * Count the bikes at every followed location, and forget locations that are
+   * no longer followed and samples past their retention
+   */
+  async sample(): Promise<void> {
+    if (this.sampling) {
+      return;
+    }
+    this.sampling = true;
+    try {
+      const now = Date.now();
+      for (const [code, followed] of this.locations) {
+        followed.samples = followed.samples.filter(([time]) => time >= now - OVFietsSampler.RETENTION_MS);
+        if (followed.followUntil < now && followed.samples.length === 0) {
+          this.locations.delete(code);
+        }
+      }
+
+      const nsApiService = this.nsApiService();
+      const followed = [...this.locations.values()].some((location) => location.followUntil >= now);
+      if (nsApiService && followed) {
+        const response = await nsApiService.getOVFiets({});
+        for (const location of (response.payload ?? []).flatMap((entry) => entry.locations ?? [])) {
+          const candidate = this.locations.get(location.extra?.locationCode);
+          if (candidate && candidate.followUntil >= now) {
+            this.add(candidate, location, now);
+          }
+        }
+      }
+      await this.save();
+    } finally {
+      this.sampling = false;
+    }
+  }
+
+  // Looking a location up right after a sample adds no information
+  private add(followed: FollowedLocation, location: OVFietsLocation, now: number): void {
+    const bikes = OVFietsAvailability.bikes(location);
+    const last = followed.samples[followed.samples.length - 1];
+    if (bikes !== undefined && (!last || now - last[0] >= this.options.intervalMs / 2)) {
+      followed.samples.push([now, bikes]);
+    }
+  }
+
+  private static dayType(weekday: number): OVFietsUsualAvailability['dayType'] {
+    return weekday === 0 || weekday === 6 ? 'weekend' : 'weekday';
+  }
+
+  private async load(): Promise<void> {
+    const saved = await this.store.load();
+    for (const [code, followed] of Object.entries(saved?.locations ?? {})) {
+      if (Array.isArray(followed?.samples)) {
+        this.locations.set(code, followed);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.store.save({ locations: Object.fromEntries(this.locations) });
+  }
+}
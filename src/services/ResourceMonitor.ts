@@ -0,0 +1,76 @@
+import { createHash } from 'crypto';
+
+/**
+ * Keeps the resources a client subscribed to under watch. Every interval it
+ * reads them again and reports the ones whose content changed, so a client can
+ * keep a live departure board in its context without calling a tool each time.
+ * Only polls while there are subscriptions.
+ */
+export class ResourceMonitor {
+  private static readonly DEFAULT_INTERVAL_MS = 60 * 1000;
+
+  private readonly subscriptions = new Map<string, string | undefined>();  // URI to hash of its last content
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+
+  constructor(
+    private readonly read: (uri: string) => Promise<string>,
+    private readonly onUpdated: (uri: string) => Promise<void>,
+    private readonly intervalMs: number = ResourceMonitor.DEFAULT_INTERVAL_MS
+  ) {}
+
+  /**
+   * Start following a resource. Its current content is the baseline, so the
+   * first update is only sent once something changes.
+   */
+  async subscribe(uri: string): Promise<void> {
+    this.subscriptions.set(uri, ResourceMonitor.hash(await this.read(uri)));
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.poll().catch((error) => console.error('[ResourceMonitor] Poll failed', error));
+      }, this.intervalMs);
+      this.timer.unref();
+    }
+  }
+
+  unsubscribe(uri: string): void {
+    this.subscriptions.delete(uri);
+    if (this.subscriptions.size === 0) {
+      this.stop();
+    }
+  }
+
+  stop(): void {
+    clearInterval(this.timer);
+    this.timer = undefined;
+  }
+
+  private async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      for (const [uri, previous] of [...this.subscriptions]) {
+        let hash: string;
+        try {
+          hash = ResourceMonitor.hash(await this.read(uri));
+        } catch (error) {
+          console.error(`[ResourceMonitor] Failed to read ${uri}`, error);
+          continue;
+        }
+        // Skip resources unsubscribed while reading
+        if (hash !== previous && this.subscriptions.has(uri)) {
+          this.subscriptions.set(uri, hash);
+          await this.onUpdated(uri);
+        }
+      }
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private static hash(content: string): string {
+    return createHash('sha256').update(content).digest('hex');
+  }
+}
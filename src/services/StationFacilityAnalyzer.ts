@@ -0,0 +1,135 @@
+import { OVFietsAvailability } from './OVFietsAvailability.js';
+import { distanceInMeters } from '../utils/geo.js';
+import {
+  FacilityCategory,
+  Place,
+  PlaceLocation,
+  Station,
+  StationFacilities,
+  StationFacility,
+  TrackAccessibility
+} from '../types.js';
+
+/**
+ * Combines a station's accessibility flags with the facilities the places API
+ * knows around it: which facilities there are, and which tracks can be reached
+ * without steps.
+ */
+export class StationFacilityAnalyzer {
+  private static readonly DEFAULT_RADIUS_METERS = 250;
+
+  // First match wins, so specific categories come before general ones. Names are Dutch or English.
+  private static readonly CATEGORIES: [FacilityCategory, RegExp][] = [
+    ['TRAVEL_ASSISTANCE', /reisassistentie|travel assistance|ontmoetingspunt|meeting ?point/],
+    ['OV_FIETS', /ov-?fiets/],
+    ['BIKE_PARKING', /fietsenstalling|fietsparkeren|fietskluis|bicycle|bike ?(parking|storage)/],
+    ['LIFT', /\blift|elevator/],
+    ['ESCALATOR', /roltrap|escalator/],
+    ['TOILET', /toilet|\bwc\b/],
+    ['PARKING', /parkeer|parking|p\+r|park ?and ?ride/],
+    ['TICKETS', /kaartautomaat|ticket|servicebalie|service desk|ns ?service|loket/],
+    ['FOOD', /koffie|coffee|caf[eé]|restaurant|kiosk|to go|broodje|smullers|burger|starbucks|food|snack/],
+    ['SHOP', /winkel|shop|store|bruna|hema|kruidvat|apotheek|bloem/]
+  ];
+
+  // Accessibility first, then what travellers look for most
+  private static readonly DISPLAY_ORDER: FacilityCategory[] = [
+    'TRAVEL_ASSISTANCE', 'LIFT', 'ESCALATOR', 'TOILET', 'TICKETS', 'FOOD', 'SHOP', 'PARKING', 'BIKE_PARKING', 'OV_FIETS', 'OTHER'
+  ];
+
+  // "spoor 5", "sporen 5/6", "track 11a", "perron 1 en 2"
+  private static readonly TRACK_MENTION = /(?:spoor|sporen|track|tracks|perron|platform)s?\s+(\d+[a-z]?(?:\s*(?:\/|,|-|en|and|t\/m)\s*\d+[a-z]?)*)/gi;
+
+  static analyse(station: Station, places: Place[], at: Date = new Date()): StationFacilities {
+    const radius = station.radius || StationFacilityAnalyzer.DEFAULT_RADIUS_METERS;
+    const facilities = places
+      .flatMap((place) => (place.locations ?? []).map((location) => ({ place, location })))
+      .filter(({ location }) => location.stationCode === station.id.code ||
+        distanceInMeters(station.location, location) <= radius)
+      .map(({ place, location }) => StationFacilityAnalyzer.facility(place, location, at))
+      .filter((facility): facility is StationFacility => facility !== undefined);
+
+    return {
+      code: station.id.code,
+      uicCode: station.id.uicCode,
+      name: station.names.long,
+      hasKnownFacilities: station.hasKnownFacilities,
+      availableForAccessibleTravel: station.availableForAccessibleTravel,
+      hasTravelAssistance: station.hasTravelAssistance,
+      areTracksIndependentlyAccessible: station.areTracksIndependentlyAccessible,
+      tracks: (station.tracks ?? []).map((track) => StationFacilityAnalyzer.trackAccessibility(station, track, facilities)),
+      facilities: StationFacilityAnalyzer.unique(facilities)
+        .sort((a, b) => StationFacilityAnalyzer.DISPLAY_ORDER.indexOf(a.category) -
+          StationFacilityAnalyzer.DISPLAY_ORDER.indexOf(b.category) || a.name.localeCompare(b.name))
+    };
+  }
+
+  private static facility(place: Place, location: PlaceLocation, at: Date): StationFacility | undefined {
+    // Addresses and stations themselves are no facilities
+    if (/^(address|stationv2|station)$/i.test(place.type ?? '')) {
+      return undefined;
+    }
+    const text = `${location.name ?? ''} ${location.description ?? ''}`;
+    // Names tend to be generic ("Lift") and descriptions specific ("Lift spoor 5/6")
+    return {
+      category: StationFacilityAnalyzer.categoryOf(`${place.type ?? ''} ${place.name ?? ''} ${text}`),
+      name: location.description || location.name || place.name,
+      placeType: place.type,
+      description: location.description && !location.description.toLowerCase().includes((location.name ?? '').toLowerCase())
+        ? location.name
+        : undefined,
+      tracks: StationFacilityAnalyzer.tracksIn(text),
+      openNow: OVFietsAvailability.isOpenAt({ openingHours: location.openingHours }, at),
+      openingHours: location.openingHours?.length ? location.openingHours : undefined,
+      lat: location.lat,
+      lng: location.lng
+    };
+  }
+
+  private static categoryOf(text: string): FacilityCategory {
+    const lower = text.toLowerCase();
+    return StationFacilityAnalyzer.CATEGORIES.find(([, pattern]) => pattern.test(lower))?.[0] ?? 'OTHER';
+  }
+
+  private static tracksIn(text: string): string[] {
+    const tracks = new Set<string>();
+    for (const match of text.matchAll(StationFacilityAnalyzer.TRACK_MENTION)) {
+      const numbers = match[1].toLowerCase().match(/\d+[a-z]?/g) ?? [];
+      // "5 t/m 8" and "5-8" are ranges, other separators list single tracks
+      const range = /t\/m|-/.test(match[1]) && numbers.length === 2 ? [parseInt(numbers[0], 10), parseInt(numbers[1], 10)] : undefined;
+      if (range && range[1] > range[0] && range[1] - range[0] <= 20) {
+        for (let track = range[0]; track <= range[1]; track++) {
+          tracks.add(String(track));
+        }
+      } else {
+        numbers.forEach((track) => tracks.add(track));
+      }
+    }
+    return [...tracks];
+  }
+
+  private static trackAccessibility(station: Station, track: string, facilities: StationFacility[]): TrackAccessibility {
+    // A lift for track 5 also serves 5a and 5b
+    const lifts = facilities
+      .filter((facility) => facility.category === 'LIFT' &&
+        facility.tracks.some((served) => served === track || served === track.replace(/[a-z]+$/i, '')))
+      .map((facility) => facility.name);
+    const stepFree = !station.availableForAccessibleTravel ? 'no'
+      : station.areTracksIndependentlyAccessible ? 'yes'
+        : lifts.length > 0 ? 'via_lift'
+          : 'unknown';
+    return { track, stepFree, lifts };
+  }
+
+  // The places API can list a facility under more than one place type
+  private static unique(facilities: StationFacility[]): StationFacility[] {
+    const byKey = new Map<string, StationFacility>();
+    for (const facility of facilities) {
+      const key = `${facility.category}|${facility.name}|${facility.lat}|${facility.lng}`;
+      if (!byKey.has(key)) {
+        byKey.set(key, facility);
+      }
+    }
+    return [...byKey.values()];
+  }
+}
@@ -0,0 +1,288 @@
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { NSApiService } from './NSApiService.js';
+import { ResponseFormatter } from '../utils/ResponseFormatter.js';
+import { STATION_SNAPSHOT } from '../data/stationSnapshot.js';
+import { distanceInMeters, Point } from '../utils/geo.js';
+import { NearbyStation, StationCatalogueEntry, StationMatch } from '../types.js';
+
+export interface StationRegistryOptions {
+  refresh: boolean;          // Fetch the full catalogue from NS on first use
+  refreshIntervalMs: number; // How long a fetched catalogue stays valid
+}
+
+/**
+ * Resolves station names, synonyms and codes to a single catalogue entry.
+ * Starts from a bundled snapshot and optionally replaces it with the full
+ * catalogue from the NS stations API.
+ */
+export class StationRegistry {
+  private static readonly MAX_CATALOGUE_SIZE = 5000;
+  private static readonly MIN_CANDIDATE_SCORE = 0.5;
+  private static readonly MIN_RESOLVE_SCORE = 0.8;
+  private static readonly MIN_RESOLVE_MARGIN = 0.1;
+  private static readonly MAX_SUGGESTIONS = 5;
+  // Stations in the bundled snapshot have no radius of their own
+  private static readonly DEFAULT_STATION_RADIUS_METERS = 250;
+  // After a failed refresh, wait this long before trying again
+  private static readonly RETRY_AFTER_FAILURE_MS = 5 * 60 * 1000;
+
+  // Common abbreviations, applied per token after normalisation
+  private static readonly ABBREVIATIONS: Record<string, string> = {
+    adam: 'amsterdam',
+    rdam: 'rotterdam',
+    cs: 'centraal',
+    c: 'centraal'
+  };
+
+  private catalogue: StationCatalogueEntry[] = STATION_SNAPSHOT;
+  private refreshedAt?: number;
+  private failedAt?: number;
+  private pendingRefresh?: Promise<void>;
+
+  constructor(
+    private readonly nsApiService: NSApiService,
+    private readonly options: StationRegistryOptions
+  ) {}
+
+  /**
+   * Replace the catalogue with the full station list from NS.
+   * Keeps the current catalogue when the request fails, and waits a while before
+   * lookups try again.
+   */
+  async refresh(): Promise<void> {
+    if (!this.pendingRefresh) {
+      this.pendingRefresh = this.nsApiService.getStationInfo({
+        query: '',
+        includeNonPlannableStations: false,
+        limit: StationRegistry.MAX_CATALOGUE_SIZE
+      })
+        .then((response) => {
+          if (response.payload?.length) {
+            this.catalogue = response.payload;
+          }
+          this.refreshedAt = Date.now();
+          this.failedAt = undefined;
+        })
+        .catch((error) => {
+          this.failedAt = Date.now();
+          console.error('[StationRegistry] Failed to refresh station catalogue, using snapshot', error);
+        })
+        .finally(() => {
+          this.pendingRefresh = undefined;
+        });
+    }
+    return this.pendingRefresh;
+  }
+
+  /**
+   * Resolve user input (name, synonym, NS code, UIC or EVA code) to a station.
+   * Throws an InvalidParams error listing candidates when the input is ambiguous or unknown.
+   */
+  async resolve(input: string): Promise<StationCatalogueEntry> {
+    await this.ensureFresh();
+
+    const trimmed = input.trim();
+    if (!trimmed) {
+      throw ResponseFormatter.createMcpError(ErrorCode.InvalidParams, 'Station name or code must not be empty');
+    }
+
+    const exact = this.findByCode(trimmed);
+    if (exact) {
+      return exact;
+    }
+
+    const matches = this.search(trimmed);
+    const [best, runnerUp] = matches;
+    const exactMatches = matches.filter((match) => match.score === 1);
+
+    if (exactMatches.length === 1) {
+      return exactMatches[0].station;
+    }
+
+    if (
+      best &&
+      exactMatches.length === 0 &&
+      best.score >= StationRegistry.MIN_RESOLVE_SCORE &&
+      (!runnerUp || best.score - runnerUp.score >= StationRegistry.MIN_RESOLVE_MARGIN)
+    ) {
+      return best.station;
+    }
+
+    if (!best) {
+      throw ResponseFormatter.createMcpError(
+        ErrorCode.InvalidParams,
+        `Unknown station "${trimmed}". Use a station name, NS station code (e.g. ASD) or UIC code (e.g. 8400058).`
+      );
+    }
+
+    const suggestions = matches
+      .slice(0, StationRegistry.MAX_SUGGESTIONS)
+      .map((match) => StationRegistry.describe(match.station))
+      .join(', ');
+    throw ResponseFormatter.createMcpError(
+      ErrorCode.InvalidParams,
+      `Station "${trimmed}" is ambiguous or not recognised. Did you mean: ${suggestions}?`
+    );
+  }
+
+  /**
+   * Look up a station by exact NS, UIC or EVA code, without fuzzy matching
+   */
+  async lookup(code: string): Promise<StationCatalogueEntry | undefined> {
+    await this.ensureFresh();
+    return this.findByCode(code.trim());
+  }
+
+  /**
+   * Resolve user input to the NS station code used by most endpoints
+   */
+  async resolveCode(input: string): Promise<string> {
+    const station = await this.resolve(input);
+    return station.id.code;
+  }
+
+  /**
+   * Stations closest to a point, nearest first
+   */
+  async nearest(point: Point, limit: number): Promise<NearbyStation[]> {
+    await this.ensureFresh();
+    return this.catalogue
+      .map((station) => {
+        const distance = distanceInMeters(point, station.location);
+        return {
+          code: station.id.code,
+          uicCode: station.id.uicCode,
+          name: station.names.long,
+          lat: station.location.lat,
+          lng: station.location.lng,
+          distanceInMeters: distance,
+          withinStationRadius: distance <= (station.radius ?? StationRegistry.DEFAULT_STATION_RADIUS_METERS)
+        };
+      })
+      .sort((a, b) => a.distanceInMeters - b.distanceInMeters)
+      .slice(0, limit);
+  }
+
+  /**
+   * Rank catalogue entries against free-text input, best match first
+   */
+  search(input: string): StationMatch[] {
+    const query = StationRegistry.normalise(input);
+    if (!query) {
+      return [];
+    }
+
+    const matches: StationMatch[] = [];
+    for (const station of this.catalogue) {
+      let best: StationMatch | undefined;
+      for (const name of StationRegistry.namesOf(station)) {
+        const score = StationRegistry.score(query, StationRegistry.normalise(name));
+        if (!best || score > best.score) {
+          best = { station, score, matchedOn: name };
+        }
+      }
+      if (best && best.score >= StationRegistry.MIN_CANDIDATE_SCORE) {
+        matches.push(best);
+      }
+    }
+
+    return matches.sort((a, b) => b.score - a.score);
+  }
+
+  private async ensureFresh(): Promise<void> {
+    if (!this.options.refresh) {
+      return;
+    }
+    const now = Date.now();
+    const isStale = this.refreshedAt === undefined || now - this.refreshedAt > this.options.refreshIntervalMs;
+    // While NS is down, resolve from the current catalogue instead of retrying on every lookup
+    const isBackingOff = this.failedAt !== undefined &&
+      now - this.failedAt < Math.min(StationRegistry.RETRY_AFTER_FAILURE_MS, this.options.refreshIntervalMs);
+    if (isStale && !isBackingOff) {
+      await this.refresh();
+    }
+  }
+
+  private findByCode(input: string): StationCatalogueEntry | undefined {
+    const upper = input.toUpperCase();
+    if (/^\d+$/.test(upper)) {
+      return this.catalogue.find((station) =>
+        station.id.uicCode === upper || station.id.evaCode === upper
+      );
+    }
+    return this.catalogue.find((station) => station.id.code.toUpperCase() === upper);
+  }
+
+  private static namesOf(station: StationCatalogueEntry): string[] {
+    return [
+      station.names.long,
+      station.names.medium,
+      station.names.short,
+      ...(station.names.synonyms ?? [])
+    ].filter(Boolean);
+  }
+
+  private static describe(station: StationCatalogueEntry): string {
+    return `${station.names.long} (${station.id.code}, UIC ${station.id.uicCode})`;
+  }
+
+  /**
+   * Lowercase, strip accents and punctuation and expand common abbreviations,
+   * so "A'dam CS" and "Amsterdam Centraal" compare equal.
+   */
+  static normalise(value: string): string {
+    return value
+      .normalize('NFD')
+      .replace(/[\u0300-\u036f]/g, '')
+      .toLowerCase()
+      .replace(/['’`´.]/g, '')
+      .replace(/[^a-z0-9]+/g, ' ')
+      .trim()
+      .split(' ')
+      .filter(Boolean)
+      .map((token) => StationRegistry.ABBREVIATIONS[token] ?? token)
+      .join(' ');
+  }
+
+  private static score(query: string, name: string): number {
+    if (!name) {
+      return 0;
+    }
+    if (query === name) {
+      return 1;
+    }
+
+    // Every query token is the start of a token in the name, e.g. "utr cen"
+    const nameTokens = name.split(' ');
+    const isTokenPrefix = query
+      .split(' ')
+      .every((token) => nameTokens.some((nameToken) => nameToken.startsWith(token)));
+    if (isTokenPrefix) {
+      return 0.9;
+    }
+
+    // Typo tolerance, both on the whole name and per token ("Utrect" vs "Utrecht Centraal")
+    const queryTokens = query.split(' ');
+    const tokenSimilarity = queryTokens
+      .map((token) => Math.max(...nameTokens.map((nameToken) => StationRegistry.similarity(token, nameToken))))
+      .reduce((sum, value) => sum + value, 0) / queryTokens.length;
+    return Math.max(StationRegistry.similarity(query, name), tokenSimilarity) * 0.85;
+  }
+
+  private static similarity(a: string, b: string): number {
+    return 1 - StationRegistry.levenshtein(a, b) / Math.max(a.length, b.length);
+  }
+
+  private static levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+        current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + cost);
+      }
+      previous = current;
+    }
+    return previous[b.length];
+  }
+}
@@ -0,0 +1,157 @@
+import { isRideable, NormalisedLeg, NormalisedStop, NormalisedTrip, TripChange } from '../types.js';
+import { clockTime } from '../formatting/text.js';
+
+/**
+ * Works out what changed between a trip as advised and the same trip as it
+ * runs now: delays per leg, track changes, cancellations and transfers that
+ * can no longer be made. Without the advised trip, the current trip is
+ * compared with its own timetable.
+ */
+export class TripChangeDetector {
+  static compare(original: NormalisedTrip | undefined, current: NormalisedTrip): TripChange[] {
+    const changes: TripChange[] = [];
+
+    const previousStatus = original?.status ?? 'NORMAL';
+    if (current.status !== previousStatus) {
+      changes.push({
+        type: 'STATUS',
+        previous: previousStatus,
+        current: current.status,
+        message: `Trip status is now ${current.status} (was ${previousStatus})`
+      });
+    }
+
+    if (original && !TripChangeDetector.isSameRoute(original, current)) {
+      changes.push({
+        type: 'ROUTE_CHANGED',
+        previous: TripChangeDetector.describeRoute(original),
+        current: TripChangeDetector.describeRoute(current),
+        message: `Route changed to ${TripChangeDetector.describeRoute(current)} (was ${TripChangeDetector.describeRoute(original)})`
+      });
+      return changes;
+    }
+
+    for (const leg of current.legs) {
+      if (!isRideable(leg)) {
+        continue;
+      }
+      changes.push(...TripChangeDetector.compareLeg(original?.legs[leg.index], leg));
+    }
+
+    changes.push(...TripChangeDetector.missedTransfers(original, current));
+    return changes;
+  }
+
+  private static compareLeg(original: NormalisedLeg | undefined, current: NormalisedLeg): TripChange[] {
+    const changes: TripChange[] = [];
+    const name = TripChangeDetector.describeLeg(current);
+
+    if (current.cancelled && !original?.cancelled) {
+      changes.push({ type: 'CANCELLED', legIndex: current.index, message: `${name} is cancelled` });
+      return changes;
+    }
+    if (!current.cancelled && original?.cancelled) {
+      changes.push({ type: 'RESTORED', legIndex: current.index, message: `${name} runs again` });
+    }
+
+    for (const [stop, previous, verb, preposition] of [
+      [current.origin, original?.origin, 'departs', 'from'],
+      [current.destination, original?.destination, 'arrives at', 'on']
+    ] as const) {
+      const previousDelay = previous?.delayMinutes ?? 0;
+      if (stop.delayMinutes !== previousDelay) {
+        const delay = TripChangeDetector.describeDelay(stop.delayMinutes);
+        changes.push({
+          type: 'DELAY',
+          legIndex: current.index,
+          station: stop.name,
+          previous: TripChangeDetector.describeDelay(previousDelay),
+          current: delay,
+          message: `${name} ${verb} ${stop.name} at ${clockTime(TripChangeDetector.actualTime(stop))} ` +
+            `(${delay}, was ${TripChangeDetector.describeDelay(previousDelay)})`
+        });
+      }
+
+      const previousTrack = previous?.actualTrack ?? stop.plannedTrack;
+      if (stop.actualTrack && previousTrack && stop.actualTrack !== previousTrack) {
+        changes.push({
+          type: 'TRACK_CHANGE',
+          legIndex: current.index,
+          station: stop.name,
+          previous: previousTrack,
+          current: stop.actualTrack,
+          message: `${name} ${verb} ${stop.name} ${preposition} track ${stop.actualTrack} (was ${previousTrack})`
+        });
+      }
+    }
+    return changes;
+  }
+
+  private static missedTransfers(original: NormalisedTrip | undefined, current: NormalisedTrip): TripChange[] {
+    const changes: TripChange[] = [];
+    const rides = current.legs.filter((leg) => isRideable(leg) && !leg.cancelled);
+
+    for (let i = 0; i < rides.length - 1; i++) {
+      const arriving = rides[i];
+      const departing = rides[i + 1];
+      if (TripChangeDetector.canTransfer(arriving, departing)) {
+        continue;
+      }
+      const wasMissed = original !== undefined &&
+        original.legs[arriving.index] !== undefined &&
+        original.legs[departing.index] !== undefined &&
+        !TripChangeDetector.canTransfer(original.legs[arriving.index], original.legs[departing.index]);
+      if (wasMissed) {
+        continue;
+      }
+      changes.push({
+        type: 'MISSED_TRANSFER',
+        legIndex: departing.index,
+        station: departing.origin.name,
+        message: `Transfer at ${departing.origin.name} from ${TripChangeDetector.describeLeg(arriving)} to ` +
+          `${TripChangeDetector.describeLeg(departing)} is no longer possible ` +
+          `(arrives ${clockTime(TripChangeDetector.actualTime(arriving.destination))}, ` +
+          `departs ${clockTime(TripChangeDetector.actualTime(departing.origin))})`
+      });
+    }
+    return changes;
+  }
+
+  private static canTransfer(arriving: NormalisedLeg, departing: NormalisedLeg): boolean {
+    // NS flags impossible transfers on either side of the transfer
+    if (!arriving.changePossible || !departing.changePossible) {
+      return false;
+    }
+    const arrival = Date.parse(TripChangeDetector.actualTime(arriving.destination) ?? '');
+    const departure = Date.parse(TripChangeDetector.actualTime(departing.origin) ?? '');
+    return Number.isNaN(arrival) || Number.isNaN(departure) || arrival <= departure;
+  }
+
+  private static isSameRoute(original: NormalisedTrip, current: NormalisedTrip): boolean {
+    return original.legs.length === current.legs.length &&
+      original.legs.every((leg, index) =>
+        leg.trainNumber === current.legs[index].trainNumber &&
+        leg.origin.name === current.legs[index].origin.name &&
+        leg.destination.name === current.legs[index].destination.name
+      );
+  }
+
+  private static actualTime(stop: NormalisedStop): string | undefined {
+    return stop.actualDeparture ?? stop.actualArrival;
+  }
+
+  private static describeLeg(leg: NormalisedLeg): string {
+    return `${leg.category ?? leg.name}${leg.trainNumber ? ` ${leg.trainNumber}` : ''}`;
+  }
+
+  private static describeRoute(trip: NormalisedTrip): string {
+    return trip.legs.filter(isRideable).map(TripChangeDetector.describeLeg).join(' → ');
+  }
+
+  private static describeDelay(minutes: number): string {
+    if (minutes === 0) {
+      return 'on time';
+    }
+    return minutes > 0 ? `+${minutes} min` : `${-minutes} min early`;
+  }
+}
@@ -0,0 +1,79 @@
+import { NSApiService } from './NSApiService.js';
+import { CrowdForecast, GetPricesArgs, GetTravelAdviceArgs, isRideable, Price, TravelAdviceTrip } from '../types.js';
+
+export type TripCriteria = Pick<GetTravelAdviceArgs, 'maxPriceInEuros' | 'maxDurationInMinutes' | 'maxCrowdForecast' | 'sortBy'>;
+
+/**
+ * Chooses and orders advised trips by price, duration, transfers or crowding,
+ * which NS cannot do itself. Trips whose price or crowding is unknown are
+ * given the benefit of the doubt and kept, after the trips that are known.
+ */
+export class TripSelector {
+  private static readonly CROWD_ORDER: CrowdForecast[] = ['LOW', 'MEDIUM', 'HIGH', 'UNKNOWN'];
+
+  /**
+   * What to ask the prices endpoint for a trip: its route between the first and
+   * last ride, without walking or cycling to and from the station. Undefined for
+   * trips without a ride between stations NS can price.
+   */
+  static priceRequest(trip: TravelAdviceTrip): Omit<GetPricesArgs, 'travelClass'> | undefined {
+    // NS gives walking legs a product too, so rides are told apart by their normalised mode
+    const rides = NSApiService.normaliseTrip(trip).legs.filter(isRideable);
+    if (rides.length === 0) {
+      return undefined;
+    }
+    const first = trip.legs[rides[0].index];
+    const last = trip.legs[rides[rides.length - 1].index];
+    const fromStation = first.origin.stationCode ?? first.origin.uicCode;
+    const toStation = last.destination.stationCode ?? last.destination.uicCode;
+    if (fromStation === undefined || toStation === undefined) {
+      return undefined;
+    }
+    return {
+      fromStation,
+      toStation,
+      routeId: trip.routeId,
+      plannedDepartureTime: first.origin.plannedDateTime,
+      plannedArrivalTime: last.destination.plannedDateTime
+    };
+  }
+
+  /**
+   * The price NS recommends in the class asked for, or else the cheapest in that class
+   */
+  static pickPrice(prices: Price[], travelClass: Price['travelClass']): Price | undefined {
+    const inClass = prices.filter((price) => price.travelClass === travelClass);
+    return inClass.find((price) => price.isBestOption) ??
+      [...inClass].sort((a, b) => a.totalPriceInCents - b.totalPriceInCents)[0];
+  }
+
+  static select(trips: TravelAdviceTrip[], criteria: TripCriteria): TravelAdviceTrip[] {
+    const { maxPriceInEuros, maxDurationInMinutes, maxCrowdForecast, sortBy } = criteria;
+    const kept = trips.filter((trip) =>
+      (maxPriceInEuros === undefined || !trip.price || trip.price.totalPriceInCents <= maxPriceInEuros * 100) &&
+      (maxDurationInMinutes === undefined || TripSelector.duration(trip) <= maxDurationInMinutes) &&
+      (maxCrowdForecast === undefined || !trip.crowdForecast || trip.crowdForecast === 'UNKNOWN' ||
+        TripSelector.crowd(trip) <= TripSelector.CROWD_ORDER.indexOf(maxCrowdForecast))
+    );
+    if (!sortBy || sortBy === 'departure') {
+      // NS already lists trips by departure
+      return kept;
+    }
+    const key: Record<Exclude<typeof sortBy, 'departure'>, (trip: TravelAdviceTrip) => number> = {
+      price: (trip) => trip.price?.totalPriceInCents ?? Number.POSITIVE_INFINITY,
+      duration: TripSelector.duration,
+      transfers: (trip) => NSApiService.normaliseTrip(trip).transfers,
+      crowd: TripSelector.crowd
+    };
+    // Sorting is stable, so equal trips stay in order of departure
+    return [...kept].sort((a, b) => key[sortBy](a) - key[sortBy](b));
+  }
+
+  private static duration(trip: TravelAdviceTrip): number {
+    return trip.actualDurationInMinutes ?? trip.plannedDurationInMinutes;
+  }
+
+  private static crowd(trip: TravelAdviceTrip): number {
+    return TripSelector.CROWD_ORDER.indexOf(trip.crowdForecast ?? 'UNKNOWN');
+  }
+}
@@ -0,0 +1,58 @@
+import { createHash } from 'crypto';
+import { NormalisedTrip, TravelAdviceTrip } from '../types.js';
+import { NSApiService } from './NSApiService.js';
+
+export interface RememberedTrip {
+  id: string;
+  ctxRecon: string;
+  trip: NormalisedTrip;  // The trip as it was advised
+  rememberedAt: number;
+}
+
+/**
+ * Remembers trips returned by get_travel_advice under a short ID, so they can
+ * be looked up again later and compared with how they run now.
+ * Holds the most recent trips only, the oldest are forgotten first.
+ */
+export class TripStore {
+  private static readonly DEFAULT_MAX_TRIPS = 500;
+
+  private readonly trips = new Map<string, RememberedTrip>();
+
+  constructor(private readonly maxTrips: number = TripStore.DEFAULT_MAX_TRIPS) {}
+
+  /**
+   * Short, stable ID for a trip, derived from its uid
+   */
+  static idFor(trip: { uid: string }): string {
+    return createHash('sha256').update(trip.uid).digest('hex').slice(0, 8);
+  }
+
+  remember(trips: TravelAdviceTrip[]): void {
+    for (const trip of trips) {
+      if (!trip.ctxRecon) {
+        continue;
+      }
+      const id = TripStore.idFor(trip);
+      this.trips.delete(id);
+      this.trips.set(id, {
+        id,
+        ctxRecon: trip.ctxRecon,
+        trip: NSApiService.normaliseTrip(trip),
+        rememberedAt: Date.now()
+      });
+    }
+    while (this.trips.size > this.maxTrips) {
+      const oldest = this.trips.keys().next().value as string;
+      this.trips.delete(oldest);
+    }
+  }
+
+  /**
+   * Find a trip by its short ID or by its uid
+   */
+  find(identifier: string): RememberedTrip | undefined {
+    const trimmed = identifier.trim();
+    return this.trips.get(trimmed.toLowerCase()) ?? this.trips.get(TripStore.idFor({ uid: trimmed }));
+  }
+}
@@ -0,0 +1,93 @@
+import { WatchChange, WatchedDeparture, WatchedDisruption, WatchSnapshot } from '../types.js';
+
+/**
+ * Compares what a watch sees now with what it saw on its previous check:
+ * disruptions that appeared, changed phase or period, or ended, and departures
+ * that got delayed, cancelled or moved to another track.
+ */
+export class WatchChangeDetector {
+  // Delays drift by a minute at a time, smaller changes are not worth a notification
+  private static readonly MIN_DELAY_CHANGE_MINUTES = 3;
+
+  /**
+   * Changes since the previous snapshot, and the snapshot to compare the next check with.
+   * Delay changes too small to report are left out of that snapshot, so they add up.
+   */
+  static compare(
+    previous: WatchSnapshot,
+    current: WatchSnapshot,
+    detectedAt: string
+  ): { changes: WatchChange[]; snapshot: WatchSnapshot } {
+    const changes: WatchChange[] = [];
+    const change = (type: WatchChange['type'], message: string) => changes.push({ type, detectedAt, message });
+
+    for (const [id, disruption] of Object.entries(current.disruptions)) {
+      const before = previous.disruptions[id];
+      if (!before) {
+        change('DISRUPTION_NEW', `New disruption: ${WatchChangeDetector.describeDisruption(disruption)}`);
+        continue;
+      }
+      if (disruption.phase !== before.phase && disruption.phase) {
+        change('DISRUPTION_UPDATED', `${disruption.title} is now ${disruption.phase.toLowerCase()}` +
+          `${before.phase ? ` (was ${before.phase.toLowerCase()})` : ''}`);
+      }
+      if (disruption.timespans.join('\n') !== before.timespans.join('\n')) {
+        change('DISRUPTION_UPDATED', `Disruption changed: ${WatchChangeDetector.describeDisruption(disruption)}`);
+      }
+    }
+    for (const [id, disruption] of Object.entries(previous.disruptions)) {
+      if (!current.disruptions[id]) {
+        change('DISRUPTION_ENDED', `Disruption over: ${disruption.title}`);
+      }
+    }
+
+    const departures: Record<string, WatchedDeparture> = {};
+    for (const [key, departure] of Object.entries(current.departures)) {
+      const before = previous.departures[key];
+      departures[key] = departure;
+
+      if (departure.cancelled) {
+        if (!before?.cancelled) {
+          change('CANCELLED', `${departure.description} is cancelled`);
+        }
+        continue;
+      }
+      if (before?.cancelled) {
+        change('RESTORED', `${departure.description} runs again${WatchChangeDetector.delayPhrase(departure.delayMinutes)}`);
+        continue;
+      }
+
+      const previousDelay = before?.delayMinutes ?? 0;
+      if (Math.abs(departure.delayMinutes - previousDelay) >= WatchChangeDetector.MIN_DELAY_CHANGE_MINUTES) {
+        change('DELAY', `${departure.description} now runs ${WatchChangeDetector.describeDelay(departure.delayMinutes)}` +
+          ` (was ${WatchChangeDetector.describeDelay(previousDelay)})`);
+      } else {
+        departures[key] = { ...departure, delayMinutes: previousDelay };
+      }
+
+      const previousTrack = before?.track ?? departure.plannedTrack;
+      if (departure.track && previousTrack && departure.track !== previousTrack) {
+        change('TRACK_CHANGE', `${departure.description} now uses track ${departure.track} (was ${previousTrack})`);
+      }
+    }
+
+    return { changes, snapshot: { disruptions: current.disruptions, departures } };
+  }
+
+  private static describeDisruption(disruption: WatchedDisruption): string {
+    return disruption.timespans.length
+      ? `${disruption.title} (${disruption.timespans.join('; ')})`
+      : disruption.title;
+  }
+
+  private static describeDelay(minutes: number): string {
+    if (minutes === 0) {
+      return 'on time';
+    }
+    return minutes > 0 ? `${minutes} min late` : `${-minutes} min early`;
+  }
+
+  private static delayPhrase(minutes: number): string {
+    return minutes > 0 ? `, ${minutes} min late` : '';
+  }
+}
@@ -0,0 +1,249 @@
+import { randomBytes } from 'crypto';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { NSApiService } from './NSApiService.js';
+import { DisruptionImpactAnalyzer } from './DisruptionImpactAnalyzer.js';
+import { WatchChangeDetector } from './WatchChangeDetector.js';
+import { ResponseFormatter } from '../utils/ResponseFormatter.js';
+import { JsonFileStore } from '../utils/JsonFileStore.js';
+import { clockTime, delayMinutes } from '../formatting/text.js';
+import { toRfc3339 } from '../utils/time.js';
+import { Departure, Disruption, isCalamity, Watch, WatchChange, WatchedDeparture, WatchSnapshot } from '../types.js';
+
+export interface WatcherOptions {
+  file: string;            // Where watches are kept across restarts
+  pollIntervalMs: number;  // How often every watch is checked
+}
+
+/**
+ * A watch as persisted, with the client it belongs to and what it saw last
+ */
+interface StoredWatch {
+  watch: Watch;
+  owner?: string;  // Authenticated client id, absent without authentication
+  snapshot?: WatchSnapshot;
+}
+
+export type WatchListener = (watch: Watch, changes: WatchChange[], owner?: string) => void;
+
+/**
+ * Follows stations, routes and trains for a period of time. Every poll it
+ * checks the disruptions and departures of each active watch, compares them
+ * with the previous check and tells listeners what changed. Watches are saved
+ * to a file, so they survive restarts, and are dropped once their period ends.
+ */
+export class Watcher {
+  private static readonly MAX_WATCHES_PER_OWNER = 20;
+  private static readonly MAX_RECENT_CHANGES = 20;
+
+  private readonly watches = new Map<string, StoredWatch>();
+  private readonly listeners = new Set<WatchListener>();
+  private timer?: NodeJS.Timeout;
+  private polling = false;
+  private readonly store: JsonFileStore<{ watches: StoredWatch[] }>;
+
+  constructor(
+    // NS API client to check a watch with, undefined once its owner is no longer known
+    private readonly nsApiServiceFor: (owner?: string) => NSApiService | undefined,
+    private readonly options: WatcherOptions
+  ) {
+    this.store = new JsonFileStore(options.file, 'Watcher', 'watches');
+  }
+
+  /**
+   * Load saved watches and start polling
+   */
+  async start(): Promise<void> {
+    await this.load();
+    this.timer = setInterval(() => {
+      this.poll().catch((error) => console.error('[Watcher] Poll failed', error));
+    }, this.options.pollIntervalMs);
+    this.timer.unref();
+  }
+
+  async stop(): Promise<void> {
+    clearInterval(this.timer);
+    await this.store.flush();
+  }
+
+  onChange(listener: WatchListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * Add a watch and take its first snapshot, which later checks are compared with
+   */
+  async create(target: Omit<Watch, 'id' | 'createdAt' | 'recentChanges'>, owner?: string): Promise<Watch> {
+    if (this.list(owner).length >= Watcher.MAX_WATCHES_PER_OWNER) {
+      throw ResponseFormatter.createMcpError(
+        ErrorCode.InvalidRequest,
+        `At most ${Watcher.MAX_WATCHES_PER_OWNER} watches can be active, cancel one with cancel_watch first`
+      );
+    }
+    const stored: StoredWatch = {
+      watch: { ...target, id: randomBytes(4).toString('hex'), createdAt: toRfc3339(new Date()), recentChanges: [] },
+      owner
+    };
+    if (Date.parse(stored.watch.from) <= Date.now()) {
+      await this.check(stored);
+    }
+    this.watches.set(stored.watch.id, stored);
+    await this.save();
+    return stored.watch;
+  }
+
+  list(owner?: string): Watch[] {
+    return [...this.watches.values()]
+      .filter((stored) => stored.owner === owner)
+      .map((stored) => stored.watch);
+  }
+
+  find(id: string, owner?: string): Watch | undefined {
+    const stored = this.watches.get(id.trim().toLowerCase());
+    return stored && stored.owner === owner ? stored.watch : undefined;
+  }
+
+  async cancel(id: string, owner?: string): Promise<Watch | undefined> {
+    const watch = this.find(id, owner);
+    if (watch) {
+      this.watches.delete(watch.id);
+      await this.save();
+    }
+    return watch;
+  }
+
+  /**
+   * Check every watch within its period, one at a time to spread the load on NS
+   */
+  async poll(): Promise<void> {
+    if (this.polling) {
+      return;
+    }
+    this.polling = true;
+    try {
+      const now = Date.now();
+      for (const stored of [...this.watches.values()]) {
+        if (Date.parse(stored.watch.until) < now) {
+          this.watches.delete(stored.watch.id);
+          continue;
+        }
+        if (Date.parse(stored.watch.from) > now) {
+          continue;
+        }
+        try {
+          const changes = await this.check(stored);
+          if (changes.length > 0) {
+            this.notify(stored, changes);
+          }
+        } catch (error) {
+          console.error(`[Watcher] Failed to check watch ${stored.watch.id}`, error);
+        }
+      }
+      await this.save();
+    } finally {
+      this.polling = false;
+    }
+  }
+
+  private async check(stored: StoredWatch): Promise<WatchChange[]> {
+    const nsApiService = this.nsApiServiceFor(stored.owner);
+    if (!nsApiService) {
+      this.watches.delete(stored.watch.id);
+      return [];
+    }
+
+    const current = await Watcher.snapshot(stored.watch, nsApiService);
+    const checkedAt = toRfc3339(new Date());
+    stored.watch.lastCheckedAt = checkedAt;
+    if (!stored.snapshot) {
+      stored.snapshot = current;
+      return [];
+    }
+
+    const { changes, snapshot } = WatchChangeDetector.compare(stored.snapshot, current, checkedAt);
+    stored.snapshot = snapshot;
+    stored.watch.recentChanges = [...changes, ...stored.watch.recentChanges].slice(0, Watcher.MAX_RECENT_CHANGES);
+    return changes;
+  }
+
+  private static async snapshot(watch: Watch, nsApiService: NSApiService): Promise<WatchSnapshot> {
+    const disruptions = (await nsApiService.getDisruptions({}))
+      .filter((item): item is Disruption => !isCalamity(item));
+    const impacts = DisruptionImpactAnalyzer.analyse(disruptions, {
+      description: watch.description,
+      stations: watch.stations,
+      from: toRfc3339(new Date(Math.max(Date.now(), Date.parse(watch.from)))),
+      until: watch.until
+    });
+
+    const snapshot: WatchSnapshot = { disruptions: {}, departures: {} };
+    for (const impact of impacts) {
+      const disruption = disruptions.find((candidate) => candidate.id === impact.id);
+      snapshot.disruptions[impact.id] = {
+        title: impact.title,
+        phase: disruption?.phase?.label,
+        timespans: (disruption?.timespans ?? []).map((timespan) => `${timespan.period}: ${timespan.situation.label}`)
+      };
+    }
+
+    if (watch.train !== undefined) {
+      const journey = await nsApiService.getJourney({ train: watch.train });
+      for (const stop of journey.stops) {
+        const planned = stop.plannedDeparture ?? stop.plannedArrival;
+        snapshot.departures[`${watch.train}@${stop.uicCode ?? stop.name}`] = {
+          description: `${journey.category ?? 'Train'} ${watch.train} at ${stop.name}${planned ? ` (${clockTime(planned)})` : ''}`,
+          delayMinutes: stop.delayMinutes,
+          plannedTrack: stop.plannedTrack,
+          track: stop.actualTrack,
+          cancelled: stop.cancelled
+        };
+      }
+    } else if (watch.stationCode !== undefined) {
+      const response = await nsApiService.getDepartures({ station: watch.stationCode });
+      for (const departure of response.payload.departures) {
+        if (watch.destinationUicCode !== undefined &&
+            !departure.routeStations.some((station) => station.uicCode === watch.destinationUicCode)) {
+          continue;
+        }
+        snapshot.departures[`${departure.product.number}@${departure.plannedDateTime}`] = Watcher.watchedDeparture(departure);
+      }
+    }
+    return snapshot;
+  }
+
+  private static watchedDeparture(departure: Departure): WatchedDeparture {
+    return {
+      description: `${departure.product.shortCategoryName} ${departure.product.number} to ${departure.direction} ` +
+        `at ${clockTime(departure.plannedDateTime)}`,
+      delayMinutes: delayMinutes(departure.plannedDateTime, departure.actualDateTime),
+      plannedTrack: departure.plannedTrack,
+      track: departure.actualTrack,
+      cancelled: departure.cancelled
+    };
+  }
+
+  private notify(stored: StoredWatch, changes: WatchChange[]): void {
+    for (const listener of this.listeners) {
+      try {
+        listener(stored.watch, changes, stored.owner);
+      } catch (error) {
+        console.error('[Watcher] Listener failed', error);
+      }
+    }
+  }
+
+  private async load(): Promise<void> {
+    const saved = await this.store.load();
+    for (const stored of saved?.watches ?? []) {
+      if (stored?.watch?.id && Date.parse(stored.watch.until) >= Date.now()) {
+        this.watches.set(stored.watch.id, stored);
+      }
+    }
+  }
+
+  private save(): Promise<void> {
+    return this.store.save({ watches: [...this.watches.values()] });
+  }
+}
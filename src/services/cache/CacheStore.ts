@@ -0,0 +1,20 @@
+/**
+ * A cached API response with its freshness window
+ */
+export interface CacheEntry<T = unknown> {
+  value: T;
+  storedAt: number;   // Epoch millis when the response was fetched
+  expiresAt: number;  // Fresh until this moment
+  staleUntil: number; // May still be served (and revalidated) until this moment
+}
+
+/**
+ * Storage backend for cached responses. Implementations decide where entries
+ * live; freshness is handled by ResponseCache.
+ */
+export interface CacheStore {
+  get<T>(key: string): Promise<CacheEntry<T> | undefined>;
+  set<T>(key: string, entry: CacheEntry<T>): Promise<void>;
+  delete(key: string): Promise<void>;
+  clear(): Promise<void>;
+}
@@ -0,0 +1,49 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { CacheEntry, CacheStore } from './CacheStore.js';
+
+/**
+ * On-disk store that keeps one JSON file per entry, so cached responses
+ * survive restarts and can be shared between server processes.
+ */
+export class FileCacheStore implements CacheStore {
+  constructor(private readonly directory: string) {}
+
+  async get<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    const file = this.fileFor(key);
+    let entry: CacheEntry<T>;
+    try {
+      entry = JSON.parse(await fs.readFile(file, 'utf8'));
+    } catch {
+      return undefined;
+    }
+    if (entry.staleUntil <= Date.now()) {
+      await this.delete(key);
+      return undefined;
+    }
+    return entry;
+  }
+
+  async set<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    await fs.mkdir(this.directory, { recursive: true });
+    // Write to a temporary file first so readers never see a partial entry
+    const file = this.fileFor(key);
+    const temporary = `${file}.${process.pid}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry), 'utf8');
+    await fs.rename(temporary, file);
+  }
+
+  async delete(key: string): Promise<void> {
+    await fs.rm(this.fileFor(key), { force: true });
+  }
+
+  async clear(): Promise<void> {
+    await fs.rm(this.directory, { recursive: true, force: true });
+  }
+
+  private fileFor(key: string): string {
+    const hash = createHash('sha256').update(key).digest('hex');
+    return path.join(this.directory, `${hash}.json`);
+  }
+}
@@ -0,0 +1,144 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { CacheEntry, CacheStore } from './CacheStore.js';
+
+/**
+ * How long responses from a single endpoint may be reused
+ */
+export interface CachePolicy {
+  ttlMs: number;                    // Serve from cache without contacting NS
+  staleWhileRevalidateMs?: number;  // Serve the stale entry while refreshing in the background
+}
+
+export type CacheStatus = 'hit' | 'stale' | 'miss' | 'bypass';
+
+/**
+ * Cache outcome of a single NS request, reported in tool results
+ */
+export interface CacheEvent {
+  endpoint: string;
+  status: CacheStatus;
+  ageSeconds: number;
+  ttlSeconds: number;
+}
+
+/**
+ * Wraps a CacheStore with TTLs, stale-while-revalidate and de-duplication of
+ * concurrent requests for the same key.
+ */
+export class ResponseCache {
+  private static readonly trace = new AsyncLocalStorage<CacheEvent[]>();
+  private readonly inFlight = new Map<string, Promise<unknown>>();
+
+  constructor(private readonly store: CacheStore | null) {}
+
+  /**
+   * Run a function and collect the cache events of every NS request it makes
+   */
+  static async track<T>(fn: () => Promise<T>): Promise<{ result: T; cache: CacheEvent[] }> {
+    const cache: CacheEvent[] = [];
+    const result = await ResponseCache.trace.run(cache, fn);
+    return { result, cache };
+  }
+
+  /**
+   * Build a stable cache key from an endpoint and its query parameters.
+   * Parameters without a value are dropped and the rest are sorted.
+   */
+  static keyFor(endpoint: string, params: Record<string, unknown>): string {
+    const query = Object.keys(params)
+      .filter((name) => params[name] !== undefined && params[name] !== null && params[name] !== '')
+      .sort()
+      .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(String(params[name]))}`)
+      .join('&');
+    return query ? `${endpoint}?${query}` : endpoint;
+  }
+
+  async getOrFetch<T>(
+    endpoint: string,
+    params: Record<string, unknown>,
+    policy: CachePolicy,
+    fetcher: () => Promise<T>
+  ): Promise<T> {
+    if (!this.store || policy.ttlMs <= 0) {
+      ResponseCache.record(endpoint, 'bypass', 0, policy);
+      return fetcher();
+    }
+
+    const key = ResponseCache.keyFor(endpoint, params);
+    const entry = await this.readEntry<T>(key);
+    const now = Date.now();
+
+    if (entry && entry.expiresAt > now) {
+      ResponseCache.record(endpoint, 'hit', now - entry.storedAt, policy);
+      return entry.value;
+    }
+
+    if (entry && entry.staleUntil > now) {
+      ResponseCache.record(endpoint, 'stale', now - entry.storedAt, policy);
+      this.fetchAndStore(key, policy, fetcher).catch((error) => {
+        console.error(`[ResponseCache] Background refresh failed for ${key}`, error);
+      });
+      return entry.value;
+    }
+
+    ResponseCache.record(endpoint, 'miss', 0, policy);
+    return this.fetchAndStore(key, policy, fetcher);
+  }
+
+  async clear(): Promise<void> {
+    await this.store?.clear();
+  }
+
+  private fetchAndStore<T>(key: string, policy: CachePolicy, fetcher: () => Promise<T>): Promise<T> {
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending as Promise<T>;
+    }
+
+    const request = fetcher()
+      .then(async (value) => {
+        const storedAt = Date.now();
+        const entry: CacheEntry<T> = {
+          value,
+          storedAt,
+          expiresAt: storedAt + policy.ttlMs,
+          staleUntil: storedAt + policy.ttlMs + (policy.staleWhileRevalidateMs ?? 0)
+        };
+        await this.writeEntry(key, entry);
+        return value;
+      })
+      .finally(() => {
+        this.inFlight.delete(key);
+      });
+
+    this.inFlight.set(key, request);
+    return request;
+  }
+
+  // A broken store degrades to uncached requests instead of failing the tool call
+  private async readEntry<T>(key: string): Promise<CacheEntry<T> | undefined> {
+    try {
+      return await this.store?.get<T>(key);
+    } catch (error) {
+      console.error(`[ResponseCache] Failed to read ${key}`, error);
+      return undefined;
+    }
+  }
+
+  private async writeEntry<T>(key: string, entry: CacheEntry<T>): Promise<void> {
+    try {
+      await this.store?.set(key, entry);
+    } catch (error) {
+      console.error(`[ResponseCache] Failed to write ${key}`, error);
+    }
+  }
+
+  private static record(endpoint: string, status: CacheStatus, ageMs: number, policy: CachePolicy): void {
+    ResponseCache.trace.getStore()?.push({
+      endpoint,
+      status,
+      ageSeconds: Math.round(ageMs / 1000),
+      ttlSeconds: Math.round(policy.ttlMs / 1000)
+    });
+  }
+}
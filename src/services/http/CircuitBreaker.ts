@@ -0,0 +1,55 @@
+import { CircuitOpenError } from './errors.js';
+
+type CircuitState = 'closed' | 'open' | 'half-open';
+
+/**
+ * Fails fast after repeated upstream failures. After resetTimeoutMs a single
+ * trial request is let through; its outcome closes or re-opens the circuit.
+ */
+export class CircuitBreaker {
+  private state: CircuitState = 'closed';
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly resetTimeoutMs: number
+  ) {}
+
+  async execute<T>(fn: () => Promise<T>, isFailure: (error: unknown) => boolean): Promise<T> {
+    if (this.state === 'open') {
+      const retryAt = this.openedAt + this.resetTimeoutMs;
+      if (Date.now() < retryAt) {
+        throw new CircuitOpenError(this.consecutiveFailures, retryAt);
+      }
+      this.state = 'half-open';
+    } else if (this.state === 'half-open') {
+      // A trial request is already in progress
+      throw new CircuitOpenError(this.consecutiveFailures, Date.now() + this.resetTimeoutMs);
+    }
+
+    try {
+      const result = await fn();
+      this.state = 'closed';
+      this.consecutiveFailures = 0;
+      return result;
+    } catch (error) {
+      if (isFailure(error)) {
+        this.recordFailure();
+      } else if (this.state === 'half-open') {
+        // The gateway answered, so it is reachable again
+        this.state = 'closed';
+        this.consecutiveFailures = 0;
+      }
+      throw error;
+    }
+  }
+
+  private recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === 'half-open' || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = 'open';
+      this.openedAt = Date.now();
+    }
+  }
+}
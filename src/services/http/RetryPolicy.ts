@@ -0,0 +1,73 @@
+import { AxiosError } from 'axios';
+import { RetryExhaustedError } from './errors.js';
+import { sleep } from '../../utils/sleep.js';
+
+export interface RetryOptions {
+  maxRetries: number;       // Retries after the first attempt
+  baseDelayMs: number;      // First backoff step, doubled for every retry
+  maxDelayMs: number;       // Upper bound for a single backoff
+  maxRetryAfterMs: number;  // Give up instead of honouring a longer Retry-After
+}
+
+/**
+ * Retries idempotent requests on timeouts, network errors, HTTP 429 and 5xx,
+ * using exponential backoff with full jitter and honouring Retry-After.
+ */
+export class RetryPolicy {
+  constructor(private readonly options: RetryOptions) {}
+
+  async execute<T>(fn: () => Promise<T>): Promise<T> {
+    for (let attempt = 1; ; attempt++) {
+      try {
+        return await fn();
+      } catch (error) {
+        if (!RetryPolicy.isRetryable(error)) {
+          throw error;
+        }
+
+        const retryAfterMs = RetryPolicy.retryAfterMs(error);
+        const isLastAttempt = attempt > this.options.maxRetries;
+        if (isLastAttempt || (retryAfterMs !== undefined && retryAfterMs > this.options.maxRetryAfterMs)) {
+          throw new RetryExhaustedError(attempt, error);
+        }
+
+        await sleep(Math.max(retryAfterMs ?? 0, this.backoffMs(attempt)));
+      }
+    }
+  }
+
+  /**
+   * Whether the gateway or network failed, as opposed to NS rejecting the request
+   */
+  static isRetryable(error: unknown): error is AxiosError {
+    if (!(error instanceof AxiosError)) {
+      return false;
+    }
+    const status = error.response?.status;
+    if (status === undefined) {
+      // Timeout or network error, the request never got an answer
+      return error.code !== AxiosError.ERR_CANCELED;
+    }
+    return status === 429 || status >= 500;
+  }
+
+  private backoffMs(attempt: number): number {
+    const ceiling = Math.min(this.options.maxDelayMs, this.options.baseDelayMs * 2 ** (attempt - 1));
+    return Math.round(Math.random() * ceiling);
+  }
+
+  // Retry-After is either a number of seconds or an HTTP date
+  private static retryAfterMs(error: AxiosError): number | undefined {
+    const header = error.response?.headers?.['retry-after'];
+    if (header === undefined || header === null) {
+      return undefined;
+    }
+    const value = String(header);
+    const seconds = Number(value);
+    if (!Number.isNaN(seconds)) {
+      return Math.max(0, seconds * 1000);
+    }
+    const date = Date.parse(value);
+    return Number.isNaN(date) ? undefined : Math.max(0, date - Date.now());
+  }
+}
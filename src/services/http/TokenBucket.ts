@@ -0,0 +1,54 @@
+import { RateLimitExceededError } from './errors.js';
+import { sleep } from '../../utils/sleep.js';
+
+/**
+ * Client-side token bucket that keeps us under the subscription's rate limit.
+ * Callers reserve a token up front and wait until it has been refilled, so
+ * concurrent requests queue in order instead of racing for capacity.
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill = Date.now();
+  private readonly refillPerMs: number;
+
+  constructor(
+    private readonly requestsPerMinute: number,
+    private readonly burst: number = Math.max(1, Math.ceil(requestsPerMinute / 10))
+  ) {
+    this.tokens = burst;
+    this.refillPerMs = requestsPerMinute / 60_000;
+  }
+
+  /**
+   * Take one token, waiting at most maxWaitMs for it to become available
+   */
+  async take(maxWaitMs: number): Promise<void> {
+    this.refill();
+    const waitMs = this.tokens >= 1 ? 0 : Math.ceil((1 - this.tokens) / this.refillPerMs);
+    if (waitMs > maxWaitMs) {
+      throw new RateLimitExceededError(this.requestsPerMinute, waitMs);
+    }
+    this.tokens -= 1;
+    if (waitMs > 0) {
+      await sleep(waitMs);
+    }
+  }
+
+  /**
+   * Take one token if one is available right now
+   */
+  tryTake(): boolean {
+    this.refill();
+    if (this.tokens < 1) {
+      return false;
+    }
+    this.tokens -= 1;
+    return true;
+  }
+
+  private refill(): void {
+    const now = Date.now();
+    this.tokens = Math.min(this.burst, this.tokens + (now - this.lastRefill) * this.refillPerMs);
+    this.lastRefill = now;
+  }
+}
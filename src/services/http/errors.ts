@@ -0,0 +1,31 @@
+import { AxiosError } from 'axios';
+
+/**
+ * Thrown without contacting NS while the circuit breaker is open
+ */
+export class CircuitOpenError extends Error {
+  constructor(readonly consecutiveFailures: number, readonly retryAt: number) {
+    super(`NS API circuit breaker is open after ${consecutiveFailures} consecutive failures`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when the client-side token bucket has no capacity within the allowed wait
+ */
+export class RateLimitExceededError extends Error {
+  constructor(readonly requestsPerMinute: number, readonly retryAfterMs: number) {
+    super(`Client-side rate limit of ${requestsPerMinute} requests per minute reached`);
+    this.name = 'RateLimitExceededError';
+  }
+}
+
+/**
+ * Thrown when a retryable request still failed after the last attempt
+ */
+export class RetryExhaustedError extends Error {
+  constructor(readonly attempts: number, readonly lastError: AxiosError) {
+    super(`NS API request failed after ${attempts} attempts: ${lastError.message}`);
+    this.name = 'RetryExhaustedError';
+  }
+}
@@ -0,0 +1,251 @@
+import { randomUUID } from 'crypto';
+import http, { IncomingMessage, ServerResponse } from 'http';
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { Transport } from '@modelcontextprotocol/sdk/shared/transport.js';
+import { isInitializeRequest } from '@modelcontextprotocol/sdk/types.js';
+import { AuthenticatedClient, ClientAuthenticator } from '../services/ClientAuthenticator.js';
+
+export interface HttpTransportOptions {
+  host: string;
+  port: number;
+  authenticator?: ClientAuthenticator; // Require a bearer token on every MCP request
+  sessionIdleTimeoutMs: number;        // Close streamable HTTP sessions without requests for this long
+}
+
+interface Session {
+  server: Server;
+  transport: Transport;
+  clientId?: string;
+  lastActiveAt: number;
+  openRequests: number;  // Requests still being answered, such as a long-lived GET stream
+}
+
+/**
+ * Request body that cannot be handed to a transport, answered with its own status and JSON-RPC error
+ */
+class RequestBodyError extends Error {
+  constructor(readonly status: number, readonly code: number, message: string) {
+    super(message);
+  }
+}
+
+/**
+ * Serves MCP over HTTP, both as streamable HTTP (/mcp) and as the older
+ * SSE transport (/sse with /messages). Every client session gets its own
+ * Server instance from the factory, so concurrent clients don't interfere.
+ * With an authenticator, requests are rejected before reaching a server
+ * unless they carry a valid bearer token for the client owning the session.
+ * Streamable HTTP clients that go away without a DELETE have their session
+ * closed once it has been idle for the configured timeout; SSE sessions end
+ * with their stream.
+ */
+export class HttpTransportHost {
+  private static readonly MAX_BODY_BYTES = 4 * 1024 * 1024;
+  private static readonly MAX_SWEEP_INTERVAL_MS = 60 * 1000;
+  private static readonly PARSE_ERROR = -32700;
+
+  private readonly httpServer: http.Server;
+  private readonly sessions = new Map<string, Session>();
+  private sweepTimer?: NodeJS.Timeout;
+
+  constructor(
+    private readonly createServer: (client?: AuthenticatedClient) => Server,
+    private readonly options: HttpTransportOptions
+  ) {
+    this.httpServer = http.createServer((req, res) => {
+      this.handleRequest(req, res).catch((error) => {
+        console.error('[HTTP Error]', error);
+        if (!res.headersSent) {
+          HttpTransportHost.sendJson(res, 500, { error: 'Internal server error' });
+        }
+      });
+    });
+  }
+
+  async listen(): Promise<void> {
+    await new Promise<void>((resolve, reject) => {
+      this.httpServer.once('error', reject);
+      this.httpServer.listen(this.options.port, this.options.host, () => {
+        this.httpServer.off('error', reject);
+        resolve();
+      });
+    });
+    this.sweepTimer = setInterval(() => {
+      this.closeIdleSessions().catch((error) => console.error('[HTTP Session Error]', error));
+    }, Math.min(this.options.sessionIdleTimeoutMs, HttpTransportHost.MAX_SWEEP_INTERVAL_MS));
+    this.sweepTimer.unref();
+    console.error(`NS MCP server listening on http://${this.options.host}:${this.options.port}`);
+  }
+
+  /**
+   * Stop accepting connections and close every open session
+   */
+  async close(): Promise<void> {
+    clearInterval(this.sweepTimer);
+    const closing = new Promise<void>((resolve) => this.httpServer.close(() => resolve()));
+    await Promise.all([...this.sessions.values()].map((session) => session.server.close()));
+    this.sessions.clear();
+    this.httpServer.closeAllConnections();
+    await closing;
+  }
+
+  /**
+   * Close streamable HTTP sessions whose client has not been heard from within the idle timeout
+   */
+  private async closeIdleSessions(): Promise<void> {
+    const cutoff = Date.now() - this.options.sessionIdleTimeoutMs;
+    const idle = [...this.sessions.entries()].filter(([, session]) =>
+      session.transport instanceof StreamableHTTPServerTransport && session.openRequests === 0 && session.lastActiveAt < cutoff);
+    await Promise.all(idle.map(async ([id, session]) => {
+      this.sessions.delete(id);
+      await session.server.close();
+    }));
+  }
+
+  private async handleRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', `http://${req.headers.host ?? 'localhost'}`);
+
+    if (url.pathname === '/health' && req.method === 'GET') {
+      HttpTransportHost.sendJson(res, 200, { status: 'ok', sessions: this.sessions.size });
+      return;
+    }
+
+    const isMcpPath = ['/mcp', '/sse', '/messages'].includes(url.pathname);
+    let client: AuthenticatedClient | undefined;
+    if (isMcpPath && this.options.authenticator) {
+      client = this.options.authenticator.authenticate(req.headers.authorization);
+      if (!client) {
+        res.setHeader('WWW-Authenticate', 'Bearer realm="ns-mcp-server"');
+        HttpTransportHost.sendJson(res, 401, HttpTransportHost.jsonRpcError('Missing or invalid bearer token'));
+        return;
+      }
+    }
+
+    if (url.pathname === '/mcp') {
+      await this.handleStreamableHttp(req, res, client);
+      return;
+    }
+
+    if (url.pathname === '/sse' && req.method === 'GET') {
+      await this.openSseSession(res, client);
+      return;
+    }
+
+    if (url.pathname === '/messages' && req.method === 'POST') {
+      const session = this.sessions.get(url.searchParams.get('sessionId') ?? '');
+      if (!(session?.transport instanceof SSEServerTransport) || session.clientId !== client?.id) {
+        HttpTransportHost.sendJson(res, 404, { error: 'Unknown SSE session' });
+        return;
+      }
+      HttpTransportHost.trackActivity(session, res);
+      await session.transport.handlePostMessage(req, res);
+      return;
+    }
+
+    HttpTransportHost.sendJson(res, 404, { error: 'Not found' });
+  }
+
+  private async handleStreamableHttp(
+    req: IncomingMessage,
+    res: ServerResponse,
+    client: AuthenticatedClient | undefined
+  ): Promise<void> {
+    let body: unknown;
+    if (req.method === 'POST') {
+      try {
+        body = await HttpTransportHost.readJson(req);
+      } catch (error) {
+        if (error instanceof RequestBodyError) {
+          HttpTransportHost.sendJson(res, error.status, HttpTransportHost.jsonRpcError(error.message, error.code));
+          return;
+        }
+        throw error;
+      }
+    }
+    const sessionId = req.headers['mcp-session-id'];
+
+    if (typeof sessionId === 'string') {
+      const session = this.sessions.get(sessionId);
+      // Sessions of other clients are reported as unknown rather than forbidden
+      if (!(session?.transport instanceof StreamableHTTPServerTransport) || session.clientId !== client?.id) {
+        HttpTransportHost.sendJson(res, 404, HttpTransportHost.jsonRpcError('Session not found'));
+        return;
+      }
+      HttpTransportHost.trackActivity(session, res);
+      await session.transport.handleRequest(req, res, body);
+      return;
+    }
+
+    if (req.method !== 'POST' || !isInitializeRequest(body)) {
+      HttpTransportHost.sendJson(res, 400, HttpTransportHost.jsonRpcError('Missing session ID or initialize request'));
+      return;
+    }
+
+    const server = this.createServer(client);
+    const transport = new StreamableHTTPServerTransport({
+      sessionIdGenerator: () => randomUUID(),
+      onsessioninitialized: (id) => {
+        this.sessions.set(id, { server, transport, clientId: client?.id, lastActiveAt: Date.now(), openRequests: 0 });
+      }
+    });
+    transport.onclose = () => {
+      if (transport.sessionId) {
+        this.sessions.delete(transport.sessionId);
+      }
+    };
+    await server.connect(transport);
+    await transport.handleRequest(req, res, body);
+  }
+
+  private async openSseSession(res: ServerResponse, client: AuthenticatedClient | undefined): Promise<void> {
+    const server = this.createServer(client);
+    const transport = new SSEServerTransport('/messages', res);
+    this.sessions.set(transport.sessionId, { server, transport, clientId: client?.id, lastActiveAt: Date.now(), openRequests: 0 });
+    transport.onclose = () => {
+      this.sessions.delete(transport.sessionId);
+    };
+    await server.connect(transport);
+  }
+
+  /**
+   * Read and parse a JSON body. Throws a RequestBodyError for bodies that are
+   * too large (413) or not JSON (JSON-RPC parse error).
+   */
+  private static async readJson(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+      size += chunk.length;
+      if (size > HttpTransportHost.MAX_BODY_BYTES) {
+        throw new RequestBodyError(413, -32000, `Request body larger than ${HttpTransportHost.MAX_BODY_BYTES} bytes`);
+      }
+      chunks.push(chunk);
+    }
+    try {
+      return JSON.parse(Buffer.concat(chunks).toString('utf8'));
+    } catch {
+      throw new RequestBodyError(400, HttpTransportHost.PARSE_ERROR, 'Parse error: request body is not valid JSON');
+    }
+  }
+
+  // A session is active from each request until its response has been sent
+  private static trackActivity(session: Session, res: ServerResponse): void {
+    session.lastActiveAt = Date.now();
+    session.openRequests++;
+    res.once('close', () => {
+      session.openRequests--;
+      session.lastActiveAt = Date.now();
+    });
+  }
+
+  private static jsonRpcError(message: string, code = -32000) {
+    return { jsonrpc: '2.0', error: { code, message }, id: null };
+  }
+
+  private static sendJson(res: ServerResponse, status: number, body: unknown): void {
+    res.writeHead(status, { 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(body));
+  }
+}
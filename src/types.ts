@@ -3,7 +3,10 @@ export interface Coordinate {
   lng: number;
 }
 
-export interface Station {
+/**
+ * Station as referenced from disruption sections
+ */
+export interface DisruptionStation {
   coordinate: Coordinate;
   countryCode: string;
   name: string;
@@ -31,7 +34,7 @@ export interface ExpectedDuration {
 }
 
 export interface Section {
-  stations: Station[];
+  stations: DisruptionStation[];
   direction: string;
 }
 
@@ -77,7 +80,7 @@ export interface Timespan {
 }
 
 export interface AlternativeTransportLocation {
-  station: Station;
+  station: DisruptionStation;
   description: string;
 }
 
@@ -107,12 +110,12 @@ export interface Disruption {
   start: string;
   end: string;
   phase?: Phase;
-  impact: Impact;
+  impact?: Impact;
   expectedDuration?: ExpectedDuration;
-  publicationSections: PublicationSection[];
+  publicationSections?: PublicationSection[];
   summaryAdditionalTravelTime?: AdditionalTravelTime;
-  timespans: Timespan[];
-  alternativeTransportTimespans: AlternativeTransportTimespan[];
+  timespans?: Timespan[];
+  alternativeTransportTimespans?: AlternativeTransportTimespan[];
 }
 
 export interface ApiResponse {
@@ -123,54 +126,171 @@ export interface ApiResponse {
   }[];
 } 
 
+export type OutputFormat = "summary" | "markdown" | "json";
+
+/**
+ * Output options shared by every tool that returns NS data
+ */
+export interface OutputOptions {
+  format?: OutputFormat;  // Defaults to markdown
+  fields?: string[];      // Dot-separated fields to keep per item in json format
+}
+
 export type DisruptionType = "MAINTENANCE" | "DISRUPTION";
 
 /**
  * Arguments for getting disruptions
  */
-export interface GetDisruptionsArgs {
+export interface GetDisruptionsArgs extends OutputOptions {
   isActive?: boolean;  // Filter for active disruptions only
   type?: DisruptionType;  // Type of disruption to filter for
+  lang?: string;
+}
+
+/**
+ * Station-wide incident or nationwide notice, such as a strike or an evacuated station
+ */
+export interface Calamity {
+  type: string;  // Always CALAMITY
+  id: string;
+  title: string;
+  description?: string;
+  url?: string;
+  lastUpdated?: string;
+  isActive: boolean;
+  priority?: string;  // PRIO_1 (most urgent) to PRIO_3
+  expectedDuration?: ExpectedDuration;
+  buttons?: {
+    items: { type?: string; label: string; url: string; accessibilityLabel?: string }[];
+  };
+  bodyItems?: { objectType?: string; content: string }[];
 }
 
 /**
- * Type guard for disruption arguments
+ * The disruptions endpoints return disruptions, maintenance and calamities in one list
  */
-export function isValidDisruptionsArgs(args: unknown): args is GetDisruptionsArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
+export type DisruptionItem = Disruption | Calamity;
+
+export function isCalamity(item: DisruptionItem): item is Calamity {
+  return item.type === 'CALAMITY';
+}
+
+export interface GetStationDisruptionsArgs extends OutputOptions {
+  station: string;
+  lang?: string;
+}
+
+export interface GetDisruptionArgs extends OutputOptions {
+  id: string;
+  type?: DisruptionType | 'CALAMITY';  // Looked up in the national list when not given
+  lang?: string;
+}
+
+export interface GetCalamitiesArgs extends OutputOptions {
+  lang?: string;
+}
 
-  const typedArgs = args as Record<string, unknown>;
+export type CrowdForecast = 'UNKNOWN' | 'LOW' | 'MEDIUM' | 'HIGH';
 
-  // Check isActive: should be undefined or boolean
-  if (typedArgs.isActive !== undefined && typeof typedArgs.isActive !== "boolean") {
-    return false;
-  }
+/**
+ * Remark on a trip, leg or stop, such as "Reservation required" or "Bicycle not allowed"
+ */
+export interface TripNote {
+  value: string;
+  key?: string;
+  noteType?: string;  // ATTRIBUTE, INFOTEXT, REALTIME, TICKET, HINT or UNKNOWN
+  priority?: number;
+  routeIdx?: number;
+  link?: { title?: string; url: string };
+  isPresentationRequired?: boolean;
+  category?: string;
+}
 
-  // Check type: should be undefined or one of the allowed values
-  if (typedArgs.type !== undefined && 
-      (typeof typedArgs.type !== "string" || 
-       !["MAINTENANCE", "DISRUPTION"].includes(typedArgs.type))) {
-    return false;
-  }
+/**
+ * Disruption or maintenance message attached to a trip
+ */
+export interface TripMessage {
+  id?: string;
+  head?: string;
+  text?: string;
+  lead?: string;
+  type?: string;  // MAINTENANCE or DISRUPTION
+  routeIdxFrom?: number;
+  routeIdxTo?: number;
+  startDate?: string;
+  endDate?: string;
+}
 
-  return true;
+/**
+ * Advice about the transfer at the end of a leg, e.g. "Transfer on the same platform"
+ */
+export interface TransferMessage {
+  message: string;
+  accessibilityMessage?: string;
+  type?: string;
 }
 
 /**
- * Station information in travel advice
+ * Origin or destination of a leg: a station, or an address or point for walking, cycling or driving legs
  */
 export interface TravelAdviceStation {
   name: string;
   lng: number;
   lat: number;
+  type?: string;  // STATION, ADDRESS, POINT_OF_INTEREST, ...
   countryCode?: string;
   uicCode?: string;
+  stationCode?: string;
   plannedDateTime: string;
+  plannedTimeZoneOffset?: number;
   actualDateTime?: string;
+  actualTimeZoneOffset?: number;
   plannedTrack?: string;
   actualTrack?: string;
+  exitSide?: string;  // Side of the train to get off, LEFT or RIGHT
+  checkinStatus?: string;
+  notes?: TripNote[];
+}
+
+/**
+ * Stop of a train within a leg, including its origin and destination
+ */
+export interface TravelAdviceStop {
+  name: string;
+  uicCode?: string;
+  countryCode?: string;
+  lat?: number;
+  lng?: number;
+  routeIdx?: number;
+  plannedArrivalDateTime?: string;
+  actualArrivalDateTime?: string;
+  plannedDepartureDateTime?: string;
+  actualDepartureDateTime?: string;
+  plannedArrivalTrack?: string;
+  actualArrivalTrack?: string;
+  plannedDepartureTrack?: string;
+  actualDepartureTrack?: string;
+  arrivalDelayInSeconds?: number;
+  departureDelayInSeconds?: number;
+  cancelled?: boolean;
+  passing?: boolean;     // The train passes without stopping
+  borderStop?: boolean;
+  notes?: TripNote[];
+}
+
+/**
+ * Train, bus or other vehicle used for a leg
+ */
+export interface TravelAdviceProduct {
+  displayName: string;  // e.g. "Intercity"
+  type: string;         // TRAIN, BUS, TRAM, METRO, FERRY, WALK, BIKE, CAR, ...
+  number: string;       // Train number
+  operatorName: string; // e.g. "NS"
+  operatorCode?: string;
+  categoryCode?: string;
+  shortCategoryName?: string;
+  longCategoryName?: string;
+  notes?: TripNote[][];
 }
 
 /**
@@ -179,17 +299,41 @@ export interface TravelAdviceStation {
 export interface TravelAdviceLeg {
   idx: string;
   name: string;
-  direction?: string;  // Final destination of the train
+  travelType?: string;  // PUBLIC_TRANSIT, WALK, TRANSFER, BIKE, CAR, TAXI, ...
+  direction?: string;   // Final destination of the train
   cancelled: boolean;
+  partCancelled?: boolean;
+  changePossible?: boolean;
+  alternativeTransport?: boolean;  // Replacement bus or other transport instead of the train
   origin: TravelAdviceStation;
   destination: TravelAdviceStation;
-  product: {
-    displayName: string;  // e.g. "Intercity"
-    type: string;
-    number: string;      // Train number
-    operatorName: string; // e.g. "NS"
-  };
-  stops?: TravelAdviceStation[];  // Intermediate stops
+  product?: TravelAdviceProduct;  // Missing for walking and cycling legs
+  stops?: TravelAdviceStop[];
+  notes?: TripNote[];
+  messages?: TripMessage[];
+  transferMessages?: TransferMessage[];
+  crowdForecast?: CrowdForecast;
+  punctuality?: number;           // Historic punctuality, in percent
+  crossPlatformTransfer?: boolean;
+  shorterStock?: boolean;         // Train is shorter than usual
+  bicycleSpotCount?: number;
+  plannedDurationInMinutes?: number;
+  actualDurationInMinutes?: number;
+  distanceInMeters?: number;
+  journeyDetailRef?: string;
+}
+
+/**
+ * Price of a trip for one product, class and discount
+ */
+export interface TripFare {
+  priceInCents: number;
+  priceInCentsExcludingSupplement?: number;
+  supplementInCents?: number;
+  buyableTicketPriceInCents?: number;
+  product?: string;
+  travelClass?: string;   // FIRST_CLASS or SECOND_CLASS
+  discountType?: string;  // NO_DISCOUNT, DISCOUNT_20_PERCENT, DISCOUNT_40_PERCENT, ...
 }
 
 /**
@@ -197,59 +341,253 @@ export interface TravelAdviceLeg {
  */
 export interface TravelAdviceTrip {
   uid: string;
+  idx?: number;
   plannedDurationInMinutes: number;
-  actualDurationInMinutes: number;
-  status: string;
+  actualDurationInMinutes?: number;
+  status: string;  // NORMAL, CANCELLED, CHANGE_NOT_POSSIBLE, ALTERNATIVE_TRANSPORT, DISRUPTION, ...
   legs: TravelAdviceLeg[];
-  crowdForecast?: string;
+  crowdForecast?: CrowdForecast;
+  punctuality?: number;  // Historic punctuality, in percent
   optimal: boolean;
+  realtime?: boolean;
+  transfers?: number;
+  ctxRecon?: string;  // Reconstruction context, to fetch this trip again later
+  routeId?: string;   // Route for the prices endpoint
+  type?: string;
+  messages?: TripMessage[];
+  productFare?: TripFare;
+  fares?: TripFare[];
+  shareUrl?: { uri: string };
+  accessibility?: TripAccessibility;  // Added by the server in accessible mode
+  price?: Price;                      // Added by the server when prices are asked for
 }
 
 /**
- * Complete travel advice response
+ * Where a trip in accessible mode boards, transfers or alights, and how the
+ * tracks used there can be reached
  */
-export interface TravelAdvice {
-  source: string;
-  trips: TravelAdviceTrip[];
+export interface AccessibleStop {
+  station: string;
+  code?: string;
+  role: 'origin' | 'transfer' | 'destination';
+  arrivalTrack?: string;
+  departureTrack?: string;
+  transferMinutes?: number;
+  stepFree: TrackAccessibility['stepFree'];  // The least accessible of the tracks used
+  lifts: string[];
+  travelAssistance: boolean;
+  meetingPoint?: string;  // Travel assistance meeting point
 }
 
 /**
- * Arguments for getting travel advice
+ * Where a trip in accessible mode boards, transfers or alights off the railway,
+ * e.g. at a bus or tram stop, which NS has no accessibility details for
  */
-export interface GetTravelAdviceArgs {
-  fromStation: string;     // Departure station
-  toStation: string;       // Destination station
-  dateTime?: string;       // Optional departure/arrival time
-  searchForArrival?: boolean;  // If true, dateTime is treated as arrival time
+export interface UnassessedStop {
+  station: string;
+  role: AccessibleStop['role'];
+  mode: string;  // Of the legs there, e.g. BUS or TRAM
+}
+
+export interface TripAccessibility {
+  stops: AccessibleStop[];
+  notAssessed: UnassessedStop[];
+  assistanceNeeded: boolean;   // Some track used is not known to be step-free
+  bookAssistanceBy?: string;   // Latest time to book travel assistance, RFC3339
 }
 
 /**
- * Type guard for travel advice arguments
+ * Trip left out in accessible mode, with why
  */
-export function isValidTravelAdviceArgs(args: unknown): args is GetTravelAdviceArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
+export interface ExcludedTrip {
+  tripId: string;
+  departure: string;
+  reasons: string[];
+}
 
-  const typedArgs = args as Record<string, unknown>;
+/**
+ * Stop in the normalised trip model, with times, tracks and delay resolved from the planned and actual fields
+ */
+export interface NormalisedStop {
+  name: string;
+  uicCode?: string;
+  countryCode?: string;
+  plannedArrival?: string;
+  actualArrival?: string;
+  plannedDeparture?: string;
+  actualDeparture?: string;
+  plannedTrack?: string;
+  actualTrack?: string;
+  delayMinutes: number;
+  cancelled: boolean;
+  passing: boolean;
+}
 
-  // Required fields
-  if (typeof typedArgs.fromStation !== "string" || typeof typedArgs.toStation !== "string") {
-    return false;
-  }
+/**
+ * Leg in the normalised trip model. Walking, cycling and driving legs have mode WALK, BIKE or CAR.
+ */
+export interface NormalisedLeg {
+  index: number;
+  mode: string;  // TRAIN, BUS, TRAM, METRO, FERRY, WALK, BIKE, CAR, ...
+  name: string;
+  category?: string;      // e.g. "Intercity"
+  trainNumber?: string;
+  operator?: string;
+  direction?: string;
+  cancelled: boolean;
+  alternativeTransport: boolean;
+  origin: NormalisedStop;
+  destination: NormalisedStop;
+  intermediateStops: NormalisedStop[];  // Stops where the train halts between origin and destination
+  crowdForecast?: CrowdForecast;
+  punctuality?: number;
+  crossPlatformTransfer: boolean;
+  changePossible: boolean;  // Whether the transfer to the next leg can still be made
+  notes: string[];
+  transferMessages: string[];
+}
 
-  // Optional fields
-  if (typedArgs.dateTime !== undefined && typeof typedArgs.dateTime !== "string") {
-    return false;
-  }
+/**
+ * Whether a leg is a ride on a train, bus or other vehicle. Walking, cycling,
+ * driving and transfer legs have no timetable and start and end away from the tracks.
+ */
+export function isRideable(leg: Pick<NormalisedLeg, 'mode'>): boolean {
+  return !['WALK', 'BIKE', 'CAR', 'TRANSFER'].includes(leg.mode);
+}
 
-  if (typedArgs.searchForArrival !== undefined && typeof typedArgs.searchForArrival !== "boolean") {
-    return false;
-  }
+/**
+ * Trip in the normalised model that tools work with, independent of the NS response layout
+ */
+export interface NormalisedTrip {
+  uid: string;
+  ctxRecon?: string;
+  status: string;
+  optimal: boolean;
+  departure: NormalisedStop;
+  arrival: NormalisedStop;
+  plannedDurationInMinutes: number;
+  actualDurationInMinutes: number;
+  transfers: number;
+  crowdForecast?: CrowdForecast;
+  punctuality?: number;
+  fareInCents?: number;
+  shareUrl?: string;
+  messages: string[];
+  legs: NormalisedLeg[];
+}
+
+/**
+ * Trip as get_travel_advice returns it: the normalised trip with its short ID
+ * and what the server added to it
+ */
+export interface AdvisedTrip extends NormalisedTrip {
+  id: string;        // For get_trip_update and get_disruptions_for
+  routeId?: string;  // For get_prices and compare_fares
+  accessibility?: TripAccessibility;
+  price?: Price;
+}
+
+/**
+ * Result of get_travel_advice
+ */
+export interface TravelAdviceResult {
+  trips: AdvisedTrip[];
+  excludedTrips?: ExcludedTrip[];    // Only in accessible mode
+  unverifiedTrips?: ExcludedTrip[];  // Only in accessible mode, left out because a station could not be checked
+  scrollRequestBackwardContext?: string;
+  scrollRequestForwardContext?: string;
+}
+
+export type TripChangeType = 'STATUS' | 'ROUTE_CHANGED' | 'DELAY' | 'TRACK_CHANGE' | 'CANCELLED' | 'RESTORED' | 'MISSED_TRANSFER';
+
+/**
+ * Difference between a trip as advised and as it runs now
+ */
+export interface TripChange {
+  type: TripChangeType;
+  legIndex?: number;
+  station?: string;
+  previous?: string;
+  current?: string;
+  message: string;
+}
+
+/**
+ * Arguments for reconstructing a single trip
+ */
+export interface GetTripArgs {
+  ctxRecon: string;
+}
+
+export interface GetTripUpdateArgs extends OutputOptions {
+  tripId: string;  // Short trip ID or uid from get_travel_advice, or a ctxRecon
+}
 
-  return true;
+/**
+ * Complete travel advice response
+ */
+export interface TravelAdvice {
+  source: string;
+  trips: TravelAdviceTrip[];
+  scrollRequestBackwardContext?: string;  // Pass as context for earlier trips
+  scrollRequestForwardContext?: string;   // Pass as context for later trips
+}
+
+export type TransportModality = 'BUS' | 'FERRY' | 'TRAM' | 'METRO';
+
+/**
+ * Arguments for getting travel advice
+ */
+export interface GetTravelAdviceArgs extends OutputOptions {
+  fromStation?: string;    // Departure station, or use fromAddress or originLat/originLng
+  toStation?: string;      // Destination station, or use toAddress or destinationLat/destinationLng
+  fromAddress?: string;    // Address or place to start from, e.g. "Gustav Mahlerplein 2, Amsterdam"
+  toAddress?: string;      // Address or place to travel to
+  dateTime?: string;       // Optional departure/arrival time
+  searchForArrival?: boolean;  // If true, dateTime is treated as arrival time
+  context?: string;        // Scroll context from a previous response, for earlier or later trips
+
+  // Origin and destination as coordinates, with how to get to or from the station
+  originLat?: number;
+  originLng?: number;
+  originName?: string;
+  originWalk?: boolean;
+  originBike?: boolean;
+  originCar?: boolean;
+  destinationLat?: number;
+  destinationLng?: number;
+  destinationName?: string;
+  destinationWalk?: boolean;
+  destinationBike?: boolean;
+  destinationCar?: boolean;
+
+  viaStation?: string;     // Travel via this station
+  viaWaitTime?: number;    // Stopover at the via station, in minutes
+
+  excludeHighSpeedTrains?: boolean;
+  excludeTrainsWithReservationRequired?: boolean;
+  localTrainsOnly?: boolean;
+  disabledTransportModalities?: TransportModality[];
+  bikeCarriageRequired?: boolean;  // Only trains that take bicycles
+
+  travelAssistance?: boolean;         // Plan with NS travel assistance at transfers
+  searchForAccessibleTrip?: boolean;  // Only step-free, accessible trips
+  addChangeTime?: number;             // Extra transfer time, in minutes
+  shorterChange?: boolean;            // Allow shorter transfers than planned by default
+  maxTransfers?: number;              // Drop trips with more transfers (applied locally)
+  accessible?: boolean;               // Only trips whose stations can be used step-free or with travel assistance (applied locally)
+
+  // Prices and choosing and ordering trips, all applied locally
+  withPrices?: boolean;                // Look up each trip's price for one adult
+  travelClass?: Price['travelClass'];  // Class to price, second by default
+  maxPriceInEuros?: number;
+  maxDurationInMinutes?: number;
+  maxCrowdForecast?: Exclude<CrowdForecast, 'UNKNOWN'>;
+  sortBy?: TripSortKey;
 }
 
+export type TripSortKey = 'departure' | 'price' | 'duration' | 'transfers' | 'crowd';
+
 // Add these new types for the track map feature
 
 export interface TrackMapFeature {
@@ -299,6 +637,11 @@ export interface RouteStation {
   mediumName: string;
 }
 
+export interface DepartureMessage {
+  message: string;
+  style: string;
+}
+
 export interface Departure {
   direction: string;
   name: string;
@@ -312,7 +655,7 @@ export interface Departure {
   trainCategory: string;
   cancelled: boolean;
   routeStations: RouteStation[];
-  messages: string[];
+  messages: DepartureMessage[];
   departureStatus: string;
 }
 
@@ -323,46 +666,19 @@ export interface DeparturesResponse {
   };
 }
 
-export interface GetDeparturesArgs {
-  station: string;
+export interface GetDeparturesArgs extends OutputOptions {
+  station?: string;
+  uicCode?: string;
   dateTime?: string;
   maxJourneys?: number;
   lang?: string;
 }
 
-export function isValidDeparturesArgs(args: unknown): args is GetDeparturesArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
-
-  const typedArgs = args as Record<string, unknown>;
-
-  // Required station field
-  if (typeof typedArgs.station !== "string") {
-    return false;
-  }
-
-  // Optional fields
-  if (typedArgs.dateTime !== undefined && typeof typedArgs.dateTime !== "string") {
-    return false;
-  }
-
-  if (typedArgs.maxJourneys !== undefined && typeof typedArgs.maxJourneys !== "number") {
-    return false;
-  }
-
-  if (typedArgs.lang !== undefined && typeof typedArgs.lang !== "string") {
-    return false;
-  }
-
-  return true;
-}
-
 export interface OpeningHours {
-  dayOfWeek: number;
-  startTime: string;
-  endTime: string;
-  closesNextDay: boolean;
+  dayOfWeek: number;       // 1 is Monday, 7 is Sunday
+  startTime: string;       // HH:mm
+  endTime: string;         // HH:mm, up to 24:00
+  closesNextDay: boolean;  // endTime is on the next day
 }
 
 export interface OVFietsLocation {
@@ -392,32 +708,115 @@ export interface OVFietsResponse {
   }[];
 }
 
-export interface GetOVFietsArgs {
-  stationCode: string;
+export interface GetOVFietsArgs extends OutputOptions {
+  stationCode?: string;  // Omitted for every location in the country
+  address?: string;      // Or an address, place or coordinates to search around
+  lat?: number;
+  lng?: number;
+  radius?: number;       // Metres around the address or coordinates
+  dateTime?: string;     // When the bike is needed, to check opening hours
+  usuallyAt?: string;    // Time to report the usual availability for
 }
 
-export function isValidOVFietsArgs(args: unknown): args is GetOVFietsArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
+/**
+ * OV-fiets location with its availability worked out for the requested time
+ */
+export interface OVFietsLocationStatus extends OVFietsLocation {
+  availableBikes?: number;    // rentalBikes as a number, absent when NS does not say
+  openAtTime?: boolean;       // Open at the requested time, absent without opening hours
+  distanceInMeters?: number;  // From the searched point
+}
 
-  const typedArgs = args as Record<string, unknown>;
-  return typeof typedArgs.stationCode === "string";
+/**
+ * How many bikes a location usually has at a time of day, from earlier samples
+ */
+export interface OVFietsUsualAvailability {
+  locationCode: string;
+  name: string;
+  timeOfDay: string;  // HH:mm
+  dayType: 'weekday' | 'weekend';
+  samples: number;
+  days: number;
+  medianBikes: number;
+  minBikes: number;
+  maxBikes: number;
+  emptyShare: number;  // Share of samples without bikes, 0 to 1
 }
 
-export interface StationInfoArgs {
-  query: string;
-  includeNonPlannableStations?: boolean;
+/**
+ * Location of a place from the NS places API: an address, a station, an
+ * OV-fiets rental, a facility, ...
+ */
+export interface PlaceLocation {
+  name: string;
+  lat: number;
+  lng: number;
+  stationCode?: string;
+  description?: string;
+  distance?: number;  // Metres from the lat/lng searched from
+  street?: string;
+  houseNumber?: string;
+  postalCode?: string;
+  city?: string;
+  openingHours?: OpeningHours[];
+  extra?: Record<string, string>;
+}
+
+export interface Place {
+  type: string;  // e.g. address, stationV2, ovfiets
+  name: string;
+  locations: PlaceLocation[];
+}
+
+export interface PlacesResponse {
+  payload: Place[];
+}
+
+export interface GetPlacesArgs {
+  query?: string;
+  type?: string;   // Comma-separated place types
+  lat?: number;    // Search around a point
+  lng?: number;
+  radius?: number; // Metres around lat/lng
   limit?: number;
+  lang?: string;
 }
 
-export function isValidStationInfoArgs(args: any): args is StationInfoArgs {
-  return (
-    typeof args === 'object' &&
-    typeof args.query === 'string' &&
-    (args.includeNonPlannableStations === undefined || typeof args.includeNonPlannableStations === 'boolean') &&
-    (args.limit === undefined || (typeof args.limit === 'number' && args.limit >= 1 && args.limit <= 50))
-  );
+/**
+ * A station near a point, with the walking distance as the crow flies
+ */
+export interface NearbyStation {
+  code: string;
+  uicCode: string;
+  name: string;
+  lat: number;
+  lng: number;
+  distanceInMeters: number;
+  withinStationRadius: boolean;  // The point is at the station itself
+}
+
+/**
+ * An address, place or coordinates resolved to a point
+ */
+export interface ResolvedLocation {
+  name: string;
+  lat: number;
+  lng: number;
+  source: 'coordinates' | 'places';
+  nearestStation?: NearbyStation;
+}
+
+export interface FindNearestStationsArgs extends OutputOptions {
+  address?: string;  // Address or place to search around
+  lat?: number;      // Or coordinates
+  lng?: number;
+  limit?: number;
+}
+
+export interface StationInfoArgs extends OutputOptions {
+  query: string;
+  includeNonPlannableStations?: boolean;
+  limit?: number;
 }
 
 export interface StationId {
@@ -466,6 +865,90 @@ export interface StationInfoResponse {
   payload: Station[];
 }
 
+export type FacilityCategory =
+  | 'LIFT'
+  | 'ESCALATOR'
+  | 'TOILET'
+  | 'TRAVEL_ASSISTANCE'
+  | 'TICKETS'
+  | 'FOOD'
+  | 'SHOP'
+  | 'PARKING'
+  | 'BIKE_PARKING'
+  | 'OV_FIETS'
+  | 'OTHER';
+
+/**
+ * A facility at a station, from the NS places API
+ */
+export interface StationFacility {
+  category: FacilityCategory;
+  name: string;
+  placeType: string;     // Place type in the places API
+  description?: string;
+  tracks: string[];      // Tracks the facility mentions, e.g. the tracks a lift serves
+  openNow?: boolean;     // Absent without opening hours
+  openingHours?: OpeningHours[];
+  lat: number;
+  lng: number;
+}
+
+/**
+ * Whether a track can be reached without steps
+ *   yes: all tracks of the station are independently accessible
+ *   via_lift: a lift serves the track
+ *   no: the station is not available for accessible travel
+ *   unknown: the station is accessible, but not every track on its own
+ */
+export interface TrackAccessibility {
+  track: string;
+  stepFree: 'yes' | 'via_lift' | 'no' | 'unknown';
+  lifts: string[];
+}
+
+/**
+ * Facilities and accessibility of a station, merging the station's own flags
+ * with the facilities found in the places API
+ */
+export interface StationFacilities {
+  code: string;
+  uicCode: string;
+  name: string;
+  hasKnownFacilities: boolean;
+  availableForAccessibleTravel: boolean;
+  hasTravelAssistance: boolean;
+  areTracksIndependentlyAccessible: boolean;
+  tracks: TrackAccessibility[];
+  facilities: StationFacility[];
+}
+
+export interface GetStationFacilitiesArgs extends OutputOptions {
+  station: string;
+  categories?: FacilityCategory[];  // Only these kinds of facilities
+  track?: string;                   // Only the accessibility of this track
+  lang?: string;
+}
+
+/**
+ * Subset of a Station needed to resolve station names and codes
+ */
+export interface StationCatalogueEntry {
+  id: Pick<StationId, 'code' | 'uicCode' | 'evaCode'>;
+  names: StationNames;
+  location: StationLocation;
+  country: string;
+  radius?: number;  // Metres around the location that count as the station
+}
+
+/**
+ * Candidate returned when matching user input against the station catalogue
+ */
+export interface StationMatch {
+  station: StationCatalogueEntry;
+  score: number;
+  matchedOn: string;
+}
+
 export interface RecognizableDestination {
   code: string;
   name: string;
@@ -510,7 +993,7 @@ export interface ArrivalsResponse {
   };
 }
 
-export interface GetArrivalsArgs {
+export interface GetArrivalsArgs extends OutputOptions {
   station?: string;
   uicCode?: string;
   dateTime?: string;
@@ -518,52 +1001,6 @@ export interface GetArrivalsArgs {
   lang?: string;
 }
 
-export function isValidArrivalsArgs(args: unknown): args is GetArrivalsArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
-
-  const typedArgs = args as Record<string, unknown>;
-
-  // Either station or uicCode must be provided
-  if (!typedArgs.station && !typedArgs.uicCode) {
-    return false;
-  }
-
-  // Check station: should be undefined or string
-  if (typedArgs.station !== undefined && typeof typedArgs.station !== "string") {
-    return false;
-  }
-
-  // Check uicCode: should be undefined or string
-  if (typedArgs.uicCode !== undefined && typeof typedArgs.uicCode !== "string") {
-    return false;
-  }
-
-  // Check dateTime: should be undefined or string
-  if (typedArgs.dateTime !== undefined && typeof typedArgs.dateTime !== "string") {
-    return false;
-  }
-
-  // Check maxJourneys: should be undefined or number between 1 and 100
-  if (typedArgs.maxJourneys !== undefined) {
-    if (typeof typedArgs.maxJourneys !== "number" || 
-        typedArgs.maxJourneys < 1 || 
-        typedArgs.maxJourneys > 100) {
-      return false;
-    }
-  }
-
-  // Check lang: should be undefined or 'nl' or 'en'
-  if (typedArgs.lang !== undefined) {
-    if (typeof typedArgs.lang !== "string" || !["nl", "en"].includes(typedArgs.lang)) {
-      return false;
-    }
-  }
-
-  return true;
-}
-
 export interface PriceValidity {
   label: string;
   value: string;
@@ -591,9 +1028,9 @@ export interface PricesResponse {
   };
 }
 
-export interface GetPricesArgs {
-  fromStation?: string;
-  toStation?: string;
+export interface GetPricesArgs extends OutputOptions {
+  fromStation: string;
+  toStation: string;
   travelClass?: 'FIRST_CLASS' | 'SECOND_CLASS';
   travelType?: 'single' | 'return';
   isJointJourney?: boolean;
@@ -604,62 +1041,343 @@ export interface GetPricesArgs {
   plannedArrivalTime?: string;
 }
 
-export function isValidPricesArgs(args: unknown): args is GetPricesArgs {
-  if (!args || typeof args !== "object") {
-    return false;
-  }
-
-  const typedArgs = args as Record<string, unknown>;
-
-  // Check station fields: should be undefined or string
-  if (typedArgs.fromStation !== undefined && typeof typedArgs.fromStation !== "string") {
-    return false;
-  }
-  if (typedArgs.toStation !== undefined && typeof typedArgs.toStation !== "string") {
-    return false;
-  }
-
-  // Check travelClass: should be undefined or one of the allowed values
-  if (typedArgs.travelClass !== undefined && 
-      !["FIRST_CLASS", "SECOND_CLASS"].includes(typedArgs.travelClass as string)) {
-    return false;
-  }
-
-  // Check travelType: should be undefined or one of the allowed values
-  if (typedArgs.travelType !== undefined && 
-      !["single", "return"].includes(typedArgs.travelType as string)) {
-    return false;
-  }
-
-  // Check isJointJourney: should be undefined or boolean
-  if (typedArgs.isJointJourney !== undefined && typeof typedArgs.isJointJourney !== "boolean") {
-    return false;
-  }
-
-  // Check adults: should be undefined or integer
-  if (typedArgs.adults !== undefined && 
-      (typeof typedArgs.adults !== "number" || !Number.isInteger(typedArgs.adults))) {
-    return false;
-  }
-
-  // Check children: should be undefined or integer
-  if (typedArgs.children !== undefined && 
-      (typeof typedArgs.children !== "number" || !Number.isInteger(typedArgs.children))) {
-    return false;
-  }
-
-  // Check routeId: should be undefined or string
-  if (typedArgs.routeId !== undefined && typeof typedArgs.routeId !== "string") {
-    return false;
-  }
-
-  // Check time fields: should be undefined or string
-  if (typedArgs.plannedDepartureTime !== undefined && typeof typedArgs.plannedDepartureTime !== "string") {
-    return false;
-  }
-  if (typedArgs.plannedArrivalTime !== undefined && typeof typedArgs.plannedArrivalTime !== "string") {
-    return false;
-  }
-
-  return true;
-}
\ No newline at end of file
+export interface CompareFaresArgs extends OutputOptions {
+  fromStation: string;
+  toStation: string;
+  adults?: number;
+  children?: number;
+  travelClass?: Price['travelClass'];        // Only compare this class
+  travelType?: 'single' | 'return';          // Only compare single or return tickets
+  routeId?: string;
+  plannedDepartureTime?: string;
+  plannedArrivalTime?: string;
+}
+
+/**
+ * One combination of options the prices endpoint is asked for
+ */
+export interface FareVariant {
+  travelClass: Price['travelClass'];
+  travelType: 'single' | 'return';
+  isJointJourney: boolean;
+}
+
+export interface FareOption extends FareVariant {
+  productId: string;
+  displayName: string;
+  operatorName: string;
+  totalInEuros: number;
+  perAdultInEuros: number;
+  perChildInEuros: number;
+  discountInEuros: number;
+  discountType: string;
+  discountExplanation?: string;   // What the discount is and what it is taken off
+  isBestOption: boolean;          // Recommended by NS among the prices for this variant
+  isCheapest: boolean;            // Cheapest of all options compared
+  aboveCheapestInEuros: number;
+}
+
+/**
+ * Prices for a group across classes, single and return, and joint journey
+ * discount, cheapest first
+ */
+export interface FareComparison {
+  fromStation: string;
+  toStation: string;
+  adults: number;
+  children: number;
+  options: FareOption[];
+  unavailable: (FareVariant & { reason: string })[];
+}
+
+/**
+ * Arrival or departure of a train at a stop in the journey-detail response
+ */
+export interface JourneyDetailEvent {
+  product?: DepartureProduct;
+  origin?: { name: string; uicCode?: string };
+  destination?: { name: string; uicCode?: string };
+  plannedTime?: string;
+  actualTime?: string;
+  delayInSeconds?: number;
+  plannedTrack?: string;
+  actualTrack?: string;
+  cancelled?: boolean;
+  crowdForecast?: CrowdForecast;
+  stockIdentifiers?: string[];
+}
+
+export interface JourneyDetailTrainPart {
+  stockIdentifier?: string;
+  destination?: { name: string; uicCode?: string };
+  facilities?: string[];  // TOILET, SILENCE, BICYCLE, WIFI, POWER_SOCKETS, ACCESSIBLE, ...
+}
+
+export interface JourneyDetailStock {
+  trainType?: string;
+  numberOfSeats?: number;
+  numberOfParts?: number;
+  trainParts?: JourneyDetailTrainPart[];
+  hasSignificantChange?: boolean;
+}
+
+export interface JourneyDetailStop {
+  id: string;
+  stop: {
+    name: string;
+    lat?: number;
+    lng?: number;
+    countryCode?: string;
+    uicCode?: string;
+  };
+  status?: string;  // ORIGIN, STOP, PASSING, DESTINATION, ...
+  arrivals?: JourneyDetailEvent[];
+  departures?: JourneyDetailEvent[];
+  actualStock?: JourneyDetailStock;
+  plannedStock?: JourneyDetailStock;
+}
+
+export interface JourneyDetailResponse {
+  payload: {
+    productNumbers?: string[];
+    stops: JourneyDetailStop[];
+    notes?: TripNote[];
+  };
+}
+
+/**
+ * Rolling stock unit in the virtual-train composition response (field names are Dutch)
+ */
+export interface TrainCompositionUnit {
+  materieelnummer?: number;
+  type?: string;
+  faciliteiten?: string[];  // TOILET, STILTE, FIETS, WIFI, STROOM, TOEGANKELIJK, ...
+  eindbestemming?: string;
+  zitplaatsen?: {
+    zitplaatsEersteKlas?: number;
+    zitplaatsTweedeKlas?: number;
+  };
+  bakken?: unknown[];  // One entry per carriage
+}
+
+export interface TrainCompositionResponse {
+  ritnummer?: number;
+  station?: string;
+  type?: string;
+  vervoerder?: string;
+  lengte?: number;           // Number of carriages
+  lengteInMeters?: number;
+  ingekort?: boolean;        // Shorter than planned
+  materieeldelen?: TrainCompositionUnit[];
+}
+
+export interface VehiclePosition {
+  treinNummer: number;
+  ritId?: string;
+  lat: number;
+  lng: number;
+  snelheid?: number;  // km/h
+  richting?: number;  // Heading in degrees
+  type?: string;
+}
+
+export interface VehiclePositionsResponse {
+  payload: {
+    treinen: VehiclePosition[];
+  };
+}
+
+export interface GetJourneyArgs extends OutputOptions {
+  train: string;       // Train number, optionally with its category ("IC 3529")
+  dateTime?: string;   // Date of the journey, defaults to today
+  station?: string;    // Station to show the composition at, defaults to the first stop
+}
+
+/**
+ * Stop of a train journey in the normalised model
+ */
+export interface TrainJourneyStop {
+  name: string;
+  uicCode?: string;
+  status: string;
+  plannedArrival?: string;
+  actualArrival?: string;
+  plannedDeparture?: string;
+  actualDeparture?: string;
+  plannedTrack?: string;
+  actualTrack?: string;
+  delayMinutes: number;
+  cancelled: boolean;
+  crowdForecast?: CrowdForecast;
+}
+
+export interface TrainCompositionPart {
+  identifier?: string;
+  type?: string;
+  destination?: string;
+  carriages?: number;
+  facilities: string[];  // Readable, e.g. "toilet", "silence zone", "bicycles"
+  firstClassSeats?: number;
+  secondClassSeats?: number;
+}
+
+export interface TrainComposition {
+  source: 'virtual-train' | 'journey-detail';
+  trainType?: string;
+  carriages?: number;
+  lengthInMeters?: number;
+  seats?: number;
+  shortened: boolean;
+  parts: TrainCompositionPart[];
+}
+
+export interface TrainPosition {
+  lat: number;
+  lng: number;
+  speedKmh?: number;
+  heading?: number;
+}
+
+/**
+ * A train's run with its stops, composition and live position
+ */
+export interface TrainJourney {
+  trainNumber: string;
+  category?: string;
+  operator?: string;
+  destination?: string;
+  stops: TrainJourneyStop[];
+  lastStop?: string;  // Last stop the train has departed from or is at
+  nextStop?: string;
+  composition?: TrainComposition;
+  position?: TrainPosition;
+  notes: string[];
+}
+
+export interface GetDisruptionsForArgs extends OutputOptions {
+  station?: string;      // A single station
+  fromStation?: string;  // Or a route between two stations
+  toStation?: string;
+  tripId?: string;       // Or a trip from get_travel_advice
+  dateTime?: string;     // Start of the time window, defaults to now (or the trip's departure)
+  windowMinutes?: number;  // Length of the time window, defaults to 120 (or the trip's duration)
+}
+
+/**
+ * Station on a route to check disruptions against
+ */
+export interface ImpactStation {
+  name: string;
+  code?: string;
+  uicCode?: string;
+}
+
+/**
+ * Station, route or trip with the time window to check
+ */
+export interface ImpactTarget {
+  description: string;
+  stations: ImpactStation[];
+  from: string;
+  until: string;
+}
+
+/**
+ * A disruption narrowed down to how it affects one station, route or trip
+ */
+export interface DisruptionImpact {
+  id: string;
+  type: string;
+  title: string;
+  isActive: boolean;
+  impact?: number;           // NS impact value, higher is worse
+  start: string;
+  end: string;
+  period?: string;
+  situation?: string;
+  cause?: string;
+  affectedStations: string[];  // Stations of the target within the disrupted sections
+  consequences: string[];
+  additionalTravelTime?: AdditionalTravelTime;
+  alternativeTransport: {
+    start: string;
+    end: string;
+    label: string;
+    locations: string[];
+  }[];
+  advices: string[];
+}
+
+export type WatchKind = 'station' | 'route' | 'train';
+
+export interface CreateWatchArgs extends OutputOptions {
+  station?: string;      // Departures and disruptions at a station
+  fromStation?: string;  // Or a route between two stations
+  toStation?: string;
+  train?: string;        // Or one train number
+  from?: string;         // Start of the watched period, defaults to now
+  until?: string;        // End of the watched period, defaults to a day after the start
+  label?: string;
+}
+
+export interface ListWatchesArgs extends OutputOptions {}
+
+export interface CancelWatchArgs extends OutputOptions {
+  watchId: string;
+}
+
+export type WatchChangeType =
+  | 'DISRUPTION_NEW'
+  | 'DISRUPTION_UPDATED'
+  | 'DISRUPTION_ENDED'
+  | 'DELAY'
+  | 'CANCELLED'
+  | 'RESTORED'
+  | 'TRACK_CHANGE';
+
+export interface WatchChange {
+  type: WatchChangeType;
+  detectedAt: string;
+  message: string;
+}
+
+/**
+ * A station, route or train followed for changes during a period
+ */
+export interface Watch {
+  id: string;
+  kind: WatchKind;
+  label?: string;
+  description: string;
+  stations: ImpactStation[];     // Stations disruptions are checked against
+  stationCode?: string;          // Departure board to follow, the origin of a route
+  destinationUicCode?: string;   // Routes only follow departures calling here
+  train?: string;
+  from: string;
+  until: string;
+  createdAt: string;
+  lastCheckedAt?: string;
+  recentChanges: WatchChange[];  // Newest first
+}
+
+export interface WatchedDisruption {
+  title: string;
+  phase?: string;
+  timespans: string[];
+}
+
+export interface WatchedDeparture {
+  description: string;  // e.g. "IC 3529 to Den Helder at 08:15"
+  delayMinutes: number;
+  plannedTrack?: string;
+  track?: string;
+  cancelled: boolean;
+}
+
+/**
+ * What a watch saw on its last check, to compare the next check with
+ */
+export interface WatchSnapshot {
+  disruptions: Record<string, WatchedDisruption>;  // By disruption id
+  departures: Record<string, WatchedDeparture>;    // By train number and planned time
+}
@@ -0,0 +1,58 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * A JSON document kept in a single file, for state that has to survive a
+ * restart. Writes are made one at a time and through a temporary file, so a
+ * crash never leaves a partial file behind. Failures are logged rather than
+ * thrown: losing saved state should not take the server down.
+ */
+export class JsonFileStore<T> {
+  private saving: Promise<void> = Promise.resolve();
+
+  /**
+   * @param owner Shown in log messages, e.g. "Watcher"
+   * @param contents What the file holds, for log messages, e.g. "watches"
+   */
+  constructor(
+    private readonly file: string,
+    private readonly owner: string,
+    private readonly contents: string
+  ) {}
+
+  /**
+   * The saved document, or undefined when nothing was saved or the file cannot be read
+   */
+  async load(): Promise<Partial<T> | undefined> {
+    try {
+      return JSON.parse(await fs.readFile(this.file, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        console.error(`[${this.owner}] Failed to load saved ${this.contents}, starting without`, error);
+      }
+      return undefined;
+    }
+  }
+
+  /**
+   * Write the document after any writes still in progress
+   */
+  save(document: T): Promise<void> {
+    this.saving = this.saving.then(async () => {
+      await fs.mkdir(path.dirname(this.file), { recursive: true });
+      const temporary = `${this.file}.${process.pid}.tmp`;
+      await fs.writeFile(temporary, JSON.stringify(document), 'utf8');
+      await fs.rename(temporary, this.file);
+    }).catch((error) => {
+      console.error(`[${this.owner}] Failed to save ${this.contents}`, error);
+    });
+    return this.saving;
+  }
+
+  /**
+   * Wait until every write has finished
+   */
+  flush(): Promise<void> {
+    return this.saving;
+  }
+}
@@ -1,5 +1,9 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { AxiosError } from 'axios';
+import { OutputOptions } from '../types.js';
+import { Renderer } from '../formatting/Renderer.js';
+import { projectFields } from '../formatting/projection.js';
+import { CircuitOpenError, RateLimitExceededError, RetryExhaustedError } from '../services/http/errors.js';
 
 export class ResponseFormatter {
   static formatSuccess(data: unknown) {
@@ -7,7 +11,71 @@ export class ResponseFormatter {
       content: [{
         type: "text",
         text: JSON.stringify(data, null, 2)
-      }]
+      }],
+      structuredContent: ResponseFormatter.toStructuredContent(data)
+    };
+  }
+
+  /**
+   * Format a list of items with a renderer, or as (projected) JSON.
+   * The full response is returned for json without fields, so nothing is lost.
+   * structuredContent always holds the full response, which the output schema
+   * describes; fields only narrow the text.
+   */
+  static formatItems<T>(data: unknown, items: T[], renderer: Renderer<T>, options: OutputOptions = {}) {
+    const format = options.format ?? 'markdown';
+    const fields = options.fields ?? [];
+    if (format === 'json' && fields.length > 0) {
+      return {
+        content: [{
+          type: "text",
+          text: JSON.stringify(items.map((item) => projectFields(item, fields)), null, 2)
+        }],
+        structuredContent: ResponseFormatter.toStructuredContent(data)
+      };
+    }
+    if (format === 'json') {
+      return ResponseFormatter.formatSuccess(data);
+    }
+
+    return {
+      content: [{
+        type: "text",
+        text: items.length === 0 ? renderer.emptyMessage : renderer[format](items)
+      }],
+      structuredContent: ResponseFormatter.toStructuredContent(data)
+    };
+  }
+
+  /**
+   * Report an NS response that no longer matches our schema. The rendered
+   * output is kept, so the answer is still usable while the drift is visible.
+   */
+  static formatSchemaDrift(toolName: string, issues: string[], result: { content: { type: string; text: string }[] }) {
+    const shown = issues.slice(0, 10).map((issue) => `- ${issue}`).join('\n');
+    const more = issues.length > 10 ? `\n- ... and ${issues.length - 10} more` : '';
+    return {
+      isError: true,
+      content: [
+        {
+          type: "text",
+          text: `NS API response for ${toolName} did not match the expected schema, the API may have changed:\n${shown}${more}`
+        },
+        ...result.content
+      ]
+    };
+  }
+
+  /**
+   * Put remarks about how a request was interpreted above the tool output
+   */
+  static withNotes<R extends { content: { type: string; text: string }[] }>(result: R, notes: string[]): R {
+    if (notes.length === 0) {
+      return result;
+    }
+    return {
+      ...result,
+      content: [{ type: "text", text: notes.join('\n') }, ...result.content]
     };
   }
 
@@ -22,12 +90,44 @@ export class ResponseFormatter {
       };
     }
 
+    if (error instanceof CircuitOpenError) {
+      const seconds = Math.max(1, Math.ceil((error.retryAt - Date.now()) / 1000));
+      return {
+        isError: true,
+        content: [{
+          type: "text",
+          text: `NS API unavailable: the last ${error.consecutiveFailures} requests failed, so requests are paused for ${seconds}s (circuit breaker open)`
+        }]
+      };
+    }
+
+    if (error instanceof RateLimitExceededError) {
+      const seconds = Math.max(1, Math.ceil(error.retryAfterMs / 1000));
+      return {
+        isError: true,
+        content: [{
+          type: "text",
+          text: `NS API request not sent: client-side rate limit of ${error.requestsPerMinute} requests per minute reached, try again in ${seconds}s`
+        }]
+      };
+    }
+
+    if (error instanceof RetryExhaustedError) {
+      return {
+        isError: true,
+        content: [{
+          type: "text",
+          text: `NS API error after ${error.attempts} attempts: ${ResponseFormatter.describeAxiosError(error.lastError)}`
+        }]
+      };
+    }
+
     if (error instanceof AxiosError) {
       return {
         isError: true,
         content: [{
           type: "text",
-          text: `NS API error: ${error.response?.data?.message || error.message || 'Unknown error'}`
+          text: `NS API error: ${ResponseFormatter.describeAxiosError(error)}`
         }]
       };
     }
@@ -41,7 +141,30 @@ export class ResponseFormatter {
     };
   }
 
+  // structuredContent must be a JSON object
+  private static toStructuredContent(data: unknown): Record<string, unknown> | undefined {
+    return data && typeof data === 'object' && !Array.isArray(data)
+      ? data as Record<string, unknown>
+      : undefined;
+  }
+
   static createMcpError(code: ErrorCode, message: string): McpError {
     return new McpError(code, message);
   }
+
+  private static describeAxiosError(error: AxiosError): string {
+    const status = error.response?.status;
+    const message = (error.response?.data as { message?: string } | undefined)?.message;
+    if (status === 429) {
+      const retryAfter = error.response?.headers?.['retry-after'];
+      return `rate limited by the NS gateway (HTTP 429${retryAfter ? `, Retry-After ${retryAfter}` : ''})`;
+    }
+    if (status !== undefined && status >= 500) {
+      return `NS gateway returned HTTP ${status}${message ? ` (${message})` : ''}`;
+    }
+    if (error.code === AxiosError.ECONNABORTED || error.code === AxiosError.ETIMEDOUT) {
+      return `request timed out after ${error.config?.timeout}ms`;
+    }
+    return message || error.message || 'Unknown error';
+  }
 } 
\ No newline at end of file
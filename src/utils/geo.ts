@@ -0,0 +1,35 @@
+/**
+ * Distances between points on the map, for nearest-station lookups and
+ * estimating walking and cycling legs
+ */
+
+export interface Point {
+  lat: number;
+  lng: number;
+}
+
+const EARTH_RADIUS_METERS = 6371000;
+
+/**
+ * Distance in metres as the crow flies (haversine formula)
+ */
+export function distanceInMeters(from: Point, to: Point): number {
+  const radians = (degrees: number) => degrees * Math.PI / 180;
+  const dLat = radians(to.lat - from.lat);
+  const dLng = radians(to.lng - from.lng);
+  const a = Math.sin(dLat / 2) ** 2 +
+    Math.cos(radians(from.lat)) * Math.cos(radians(to.lat)) * Math.sin(dLng / 2) ** 2;
+  return Math.round(2 * EARTH_RADIUS_METERS * Math.asin(Math.sqrt(a)));
+}
+
+/**
+ * "52.3389,4.8730" or "52.3389, 4.8730" as a point, undefined for anything else
+ */
+export function parseCoordinates(input: string): Point | undefined {
+  const match = /^\s*(-?\d{1,2}(?:\.\d+)?)\s*,\s*(-?\d{1,3}(?:\.\d+)?)\s*$/.exec(input);
+  if (!match) {
+    return undefined;
+  }
+  const point = { lat: Number(match[1]), lng: Number(match[2]) };
+  return Math.abs(point.lat) <= 90 && Math.abs(point.lng) <= 180 ? point : undefined;
+}
@@ -0,0 +1,278 @@
+/**
+ * Date and time handling in the time zone NS operates in. Produces RFC3339
+ * timestamps with the correct Europe/Amsterdam offset (+01:00 or +02:00 in
+ * summer) and understands the relative phrases people use when planning a trip.
+ */
+
+export const NS_TIME_ZONE = 'Europe/Amsterdam';
+
+const MINUTE = 60 * 1000;
+
+const WEEKDAYS = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+
+// Default clock times for parts of the day
+const DAY_PARTS: Record<string, [number, number]> = {
+  morning: [8, 0],
+  noon: [12, 0],
+  midday: [12, 0],
+  afternoon: [14, 0],
+  evening: [19, 0],
+  tonight: [20, 0],
+  night: [22, 0],
+  midnight: [0, 0]
+};
+
+const UNIT_MINUTES: Record<string, number> = {
+  minute: 1,
+  min: 1,
+  hour: 60,
+  hr: 60,
+  day: 24 * 60,
+  week: 7 * 24 * 60
+};
+
+interface WallClock {
+  year: number;
+  month: number;  // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 is Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function wallClock(date: Date, timeZone: string): WallClock {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-GB', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+      weekday: 'long'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map((part) => [part.type, part.value]));
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAYS.indexOf(String(parts.weekday).toLowerCase())
+  };
+}
+
+/**
+ * Offset from UTC in minutes of a time zone at the given instant, e.g. 60 or 120 for Amsterdam
+ */
+export function timeZoneOffsetMinutes(date: Date, timeZone: string = NS_TIME_ZONE): number {
+  const clock = wallClock(date, timeZone);
+  const wallAsUtc = Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second);
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+  return Math.round((wallAsUtc - instant) / MINUTE);
+}
+
+/**
+ * Day of the week (0 is Sunday) and minutes since midnight of an instant in local time
+ */
+export function localDayAndMinute(date: Date, timeZone: string = NS_TIME_ZONE): { weekday: number; minuteOfDay: number } {
+  const clock = wallClock(date, timeZone);
+  return { weekday: clock.weekday, minuteOfDay: clock.hour * 60 + clock.minute };
+}
+
+/**
+ * RFC3339 timestamp in local time with its offset, e.g. "2025-07-01T08:15:00+02:00"
+ */
+export function toRfc3339(date: Date, timeZone: string = NS_TIME_ZONE): string {
+  const offset = timeZoneOffsetMinutes(date, timeZone);
+  const local = new Date(Math.floor(date.getTime() / 1000) * 1000 + offset * MINUTE);
+  const sign = offset < 0 ? '-' : '+';
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, '0');
+  const minutes = String(Math.abs(offset) % 60).padStart(2, '0');
+  return `${local.toISOString().slice(0, 19)}${sign}${hours}:${minutes}`;
+}
+
+/**
+ * The instant at which the clocks in a time zone show the given date and time.
+ * Times skipped by the switch to summer time resolve to the hour after.
+ */
+function fromWallClock(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+): Date {
+  const wallAsUtc = Date.UTC(year, month - 1, day, hour, minute, second);
+  const firstGuess = wallAsUtc - timeZoneOffsetMinutes(new Date(wallAsUtc), timeZone) * MINUTE;
+  return new Date(wallAsUtc - timeZoneOffsetMinutes(new Date(firstGuess), timeZone) * MINUTE);
+}
+
+function isValidDate(year: number, month: number, day: number): boolean {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  return date.getUTCFullYear() === year && date.getUTCMonth() === month - 1 && date.getUTCDate() === day;
+}
+
+/**
+ * Parse an RFC3339 timestamp or a natural-language phrase relative to now.
+ * Understands, among others:
+ *   "2025-01-31T08:15:00+01:00", "2025-01-31 08:15" (local time), "2025-01-31"
+ *   "now", "in 30 minutes", "in an hour", "in half an hour", "2 hours from now"
+ *   "tomorrow 08:15", "today at 5pm", "tonight", "friday 17:30", "next Monday morning"
+ * Times without an offset are local to the time zone. Returns undefined when the
+ * input is not understood or names an impossible date or time.
+ */
+export function parseDateTime(input: string, now: Date = new Date(), timeZone: string = NS_TIME_ZONE): Date | undefined {
+  const text = input.trim().toLowerCase().replace(/\s+/g, ' ');
+  if (!text) {
+    return undefined;
+  }
+  if (text === 'now' || text === 'right now') {
+    return now;
+  }
+
+  const timestamp = parseTimestamp(text, timeZone);
+  if (timestamp !== null) {
+    return timestamp;
+  }
+
+  const relative = parseRelative(text);
+  if (relative !== null) {
+    return relative === undefined ? undefined : new Date(now.getTime() + relative * MINUTE);
+  }
+
+  return parseDayAndTime(text, now, timeZone);
+}
+
+/**
+ * ISO dates and timestamps. Returns null when the text is not shaped like one.
+ */
+function parseTimestamp(text: string, timeZone: string): Date | undefined | null {
+  const match = /^(\d{4})-(\d{2})-(\d{2})(?:[t ](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)? ?(z|[+-]\d{2}:?\d{2})?$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const [, year, month, day, hour = '0', minute = '0', second = '0', offset] = match;
+  if (!isValidDate(Number(year), Number(month), Number(day)) || !isValidTime(Number(hour), Number(minute), Number(second))) {
+    return undefined;
+  }
+  if (offset) {
+    const [, offsetHours = '0', offsetMinutes = '0'] = /^[+-](\d{2}):?(\d{2})$/.exec(offset) ?? [];
+    if (Number(offsetHours) > 23 || Number(offsetMinutes) > 59) {
+      return undefined;
+    }
+    const parsed = Date.parse(`${year}-${month}-${day}T${hour}:${minute}:${second}${offset === 'z' ? 'Z' : offset}`);
+    return Number.isNaN(parsed) ? undefined : new Date(parsed);
+  }
+  return fromWallClock(Number(year), Number(month), Number(day), Number(hour), Number(minute), Number(second), timeZone);
+}
+
+/**
+ * Offsets like "in 30 minutes" or "2 hours from now", in minutes.
+ * Returns null when the text is not shaped like one.
+ */
+function parseRelative(text: string): number | undefined | null {
+  if (/^in (a )?half an? hour$/.test(text)) {
+    return 30;
+  }
+  const match = /^(?:in (an?|one|\d+(?:\.\d+)?) (minute|min|hour|hr|day|week)s?|(an?|one|\d+(?:\.\d+)?) (minute|min|hour|hr|day|week)s? from now)$/.exec(text);
+  if (!match) {
+    return null;
+  }
+  const amount = match[1] ?? match[3];
+  const unit = match[2] ?? match[4];
+  const count = ['a', 'an', 'one'].includes(amount) ? 1 : Number(amount);
+  return Number.isFinite(count) ? Math.round(count * UNIT_MINUTES[unit]) : undefined;
+}
+
+/**
+ * An optional day ("tomorrow", "friday", "next monday", "2025-01-31") followed
+ * by an optional time ("08:15", "at 5pm", "morning")
+ */
+function parseDayAndTime(text: string, now: Date, timeZone: string): Date | undefined {
+  const today = wallClock(now, timeZone);
+  let dayOffset = 0;
+  let date: { year: number; month: number; day: number } | undefined;
+  let rest = text;
+
+  const dayMatch = /^(today|tonight|tomorrow|(?:the )?day after tomorrow|(?:(next|this) )?(sunday|monday|tuesday|wednesday|thursday|friday|saturday)|(\d{4})-(\d{2})-(\d{2}))(?: |$)/.exec(text);
+  if (dayMatch) {
+    rest = text.slice(dayMatch[0].length);
+    const [, phrase, modifier, weekdayName, year, month, day] = dayMatch;
+    if (phrase === 'tomorrow') {
+      dayOffset = 1;
+    } else if (phrase.endsWith('day after tomorrow')) {
+      dayOffset = 2;
+    } else if (weekdayName) {
+      dayOffset = (WEEKDAYS.indexOf(weekdayName) - today.weekday + 7) % 7;
+      if (modifier === 'next' && dayOffset === 0) {
+        dayOffset = 7;
+      }
+    } else if (year) {
+      if (!isValidDate(Number(year), Number(month), Number(day))) {
+        return undefined;
+      }
+      date = { year: Number(year), month: Number(month), day: Number(day) };
+    }
+    if (phrase === 'tonight' && !rest) {
+      rest = 'tonight';
+    }
+  }
+
+  let time: [number, number] | undefined;
+  if (rest) {
+    time = parseClockTime(rest.replace(/^(at|in the|around) /, ''));
+    if (!time) {
+      return undefined;
+    }
+  } else if (dayOffset === 0 && !date) {
+    // "today" on its own means now
+    return now;
+  }
+
+  // Walk calendar days in UTC so month and year boundaries are handled
+  const calendar = date ?? (() => {
+    const shifted = new Date(Date.UTC(today.year, today.month - 1, today.day + dayOffset));
+    return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+  })();
+  const [hour, minute] = time ?? [0, 0];
+  return fromWallClock(calendar.year, calendar.month, calendar.day, hour, minute, 0, timeZone);
+}
+
+/**
+ * "08:15", "8.15", "0815", "8am", "8:15 pm", "17u30" or a part of the day
+ */
+function parseClockTime(text: string): [number, number] | undefined {
+  if (DAY_PARTS[text]) {
+    return DAY_PARTS[text];
+  }
+  const match = /^(\d{1,2})(?:[:.u]?(\d{2}))?(?: ?([ap])\.?m\.?)?$/.exec(text);
+  if (!match) {
+    return undefined;
+  }
+  const [, hourText, minuteText = '0', meridiem] = match;
+  let hour = Number(hourText);
+  const minute = Number(minuteText);
+  if (meridiem) {
+    if (hour < 1 || hour > 12) {
+      return undefined;
+    }
+    hour = (hour % 12) + (meridiem === 'p' ? 12 : 0);
+  }
+  return isValidTime(hour, minute, 0) ? [hour, minute] : undefined;
+}
+
+function isValidTime(hour: number, minute: number, second: number): boolean {
+  return hour < 24 && minute < 60 && second < 60;
+}
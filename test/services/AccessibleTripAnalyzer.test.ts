@@ -0,0 +1,99 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { AccessibleTripAnalyzer } from '../../src/services/AccessibleTripAnalyzer.js';
+import { NSApiService } from '../../src/services/NSApiService.js';
+import { StationFacilities, TravelAdvice } from '../../src/types.js';
+
+const advice: TravelAdvice = JSON.parse(readFileSync(new URL('../fixtures/trips-v3.json', import.meta.url), 'utf8'));
+const [transferTrip, doorToDoorTrip, cancelledTrip] = advice.trips.map(NSApiService.normaliseTrip);
+
+function station(uicCode: string, code: string, name: string, facilities: Partial<StationFacilities> = {}): StationFacilities {
+  return {
+    code,
+    uicCode,
+    name,
+    hasKnownFacilities: true,
+    availableForAccessibleTravel: true,
+    hasTravelAssistance: false,
+    areTracksIndependentlyAccessible: true,
+    tracks: [],
+    facilities: [],
+    ...facilities
+  };
+}
+
+const stations = new Map([
+  ['8400058', station('8400058', 'ASD', 'Amsterdam Centraal')],
+  ['8400621', station('8400621', 'UT', 'Utrecht Centraal')],
+  ['8400206', station('8400206', 'EHV', 'Eindhoven Centraal')]
+]);
+
+describe('AccessibleTripAnalyzer.railStations', () => {
+  it('lists the stations of train legs only', () => {
+    expect(AccessibleTripAnalyzer.railStations(transferTrip)).toEqual(['8400058', '8400621', '8400206']);
+    expect(AccessibleTripAnalyzer.railStations(cancelledTrip)).toEqual(['8400058', '8400621']);
+  });
+});
+
+describe('AccessibleTripAnalyzer.analyse', () => {
+  it('checks every station where a train is boarded, changed or left', () => {
+    const { accessibility, reasons, unverified } = AccessibleTripAnalyzer.analyse(transferTrip, stations, false);
+
+    expect(accessibility.stops.map((stop) => [stop.role, stop.code, stop.arrivalTrack, stop.departureTrack])).toEqual([
+      ['origin', 'ASD', undefined, '5b'],
+      ['transfer', 'UT', '5', '5'],
+      ['destination', 'EHV', '4', undefined]
+    ]);
+    expect(accessibility.stops[1].transferMinutes).toBe(9);
+    expect(accessibility.notAssessed).toEqual([]);
+    expect(reasons).toEqual([]);
+    expect(unverified).toEqual([]);
+  });
+
+  it('leaves walking and cycling legs out', () => {
+    const { accessibility } = AccessibleTripAnalyzer.analyse(doorToDoorTrip, stations, false);
+
+    expect(accessibility.stops.map((stop) => stop.code)).toEqual(['ASD', 'UT']);
+    expect(accessibility.notAssessed).toEqual([]);
+  });
+
+  it('reports stops reached only by bus as not assessed, without excluding the trip', () => {
+    const { accessibility, reasons, unverified } = AccessibleTripAnalyzer.analyse(cancelledTrip, stations, false);
+
+    expect(accessibility.stops.map((stop) => [stop.role, stop.code, stop.arrivalTrack, stop.departureTrack])).toEqual([
+      ['origin', 'ASD', undefined, '5b'],
+      ['transfer', 'UT', '7', undefined]
+    ]);
+    expect(accessibility.notAssessed).toEqual([{ station: 'Eindhoven Centraal', role: 'destination', mode: 'BUS' }]);
+    expect(reasons).toEqual([]);
+    expect(unverified).toEqual([]);
+  });
+
+  it('does not look up the stations of a bus leg', () => {
+    const byBus = { ...transferTrip, legs: transferTrip.legs.map((leg) => ({ ...leg, mode: 'BUS' })) };
+    const { accessibility, unverified } = AccessibleTripAnalyzer.analyse(byBus, new Map(), false);
+
+    expect(accessibility.stops).toEqual([]);
+    expect(accessibility.notAssessed.map((stop) => stop.role)).toEqual(['origin', 'transfer', 'destination']);
+    expect(unverified).toEqual([]);
+  });
+
+  it('returns rail stations without details as unverified', () => {
+    const { reasons, unverified } = AccessibleTripAnalyzer.analyse(transferTrip, new Map([...stations].slice(0, 2)), false);
+
+    expect(reasons).toEqual([]);
+    expect(unverified).toEqual(['Eindhoven Centraal']);
+  });
+
+  it('gives the reason for stations that are not step-free and have no travel assistance', () => {
+    const withStairs = new Map(stations).set('8400621', station('8400621', 'UT', 'Utrecht Centraal', {
+      areTracksIndependentlyAccessible: false,
+      tracks: [{ track: '5', stepFree: 'unknown', lifts: [] }]
+    }));
+    const { accessibility, reasons } = AccessibleTripAnalyzer.analyse(transferTrip, withStairs, false);
+
+    expect(reasons).toEqual(['track 5 at Utrecht Centraal is not known to be step-free and there is no travel assistance']);
+    expect(accessibility.assistanceNeeded).toBe(true);
+    expect(accessibility.bookAssistanceBy).toBe('2025-10-14T07:07:00+02:00');
+  });
+});
@@ -0,0 +1,146 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { FareComparer } from '../../src/services/FareComparer.js';
+import { FareVariant, Price, TravelAdvice } from '../../src/types.js';
+
+const advice: TravelAdvice = JSON.parse(readFileSync(new URL('../fixtures/trips-v3.json', import.meta.url), 'utf8'));
+// Single fares per adult of the Amsterdam Centraal - Eindhoven Centraal trip
+const [secondClassFare, firstClassFare] = (advice.trips[0].fares ?? []).map((fare) => fare.priceInCents);
+
+const group = { fromStation: 'ASD', toStation: 'EHV', adults: 2, children: 1 };
+
+// A child travels for a fixed Railrunner fare
+const CHILD_FARE = 250;
+
+function variant(travelClass: Price['travelClass'], travelType: FareVariant['travelType'], isJointJourney = false): FareVariant {
+  return { travelClass, travelType, isJointJourney };
+}
+
+// What the prices endpoint returns for the group, before a discount in percent
+function price(fare: FareVariant, discountPercent = 0, changes: Partial<Price> = {}): Price {
+  const perAdult = (fare.travelClass === 'FIRST_CLASS' ? firstClassFare : secondClassFare) * (fare.travelType === 'return' ? 2 : 1);
+  const full = group.adults * perAdult + group.children * CHILD_FARE;
+  const discount = Math.round(group.adults * perAdult * discountPercent / 100);
+  return {
+    totalPriceInCents: full - discount,
+    pricePerAdultInCents: Math.round(perAdult * (100 - discountPercent) / 100),
+    pricePerChildInCents: CHILD_FARE,
+    discountInCents: discount,
+    operatorName: 'NS',
+    discountType: discountPercent ? `DISCOUNT_${discountPercent}_PERCENT` : 'NO_DISCOUNT',
+    travelClass: fare.travelClass,
+    displayName: fare.travelType === 'return' ? 'Dagretour' : 'Enkele reis',
+    conditionsHeader: '',
+    productId: fare.travelType === 'return' ? 'RETOUR' : 'ENKELE_REIS',
+    isBestOption: true,
+    validity: { label: 'Geldig', value: 'vandaag' },
+    conditionsList: [],
+    ...changes
+  };
+}
+
+describe('FareComparer.variants', () => {
+  it('asks for both classes, single and return, with and without joint journey discount', () => {
+    const variants = FareComparer.variants({});
+
+    expect(variants).toHaveLength(8);
+    expect(variants).toContainEqual(variant('FIRST_CLASS', 'return', true));
+    expect(variants).toContainEqual(variant('SECOND_CLASS', 'single', false));
+  });
+
+  it('asks only for the class and ticket type given', () => {
+    expect(FareComparer.variants({ travelClass: 'FIRST_CLASS', travelType: 'single' })).toEqual([
+      variant('FIRST_CLASS', 'single', false),
+      variant('FIRST_CLASS', 'single', true)
+    ]);
+  });
+});
+
+describe('FareComparer.compare', () => {
+  it('prices the group in euros, cheapest first', () => {
+    const results = [variant('FIRST_CLASS', 'single'), variant('SECOND_CLASS', 'return'), variant('SECOND_CLASS', 'single')]
+      .map((fare) => ({ variant: fare, prices: [price(fare)] }));
+
+    const { options } = FareComparer.compare(group, results);
+
+    expect(options.map((option) => [option.travelClass, option.travelType, option.totalInEuros, option.aboveCheapestInEuros])).toEqual([
+      ['SECOND_CLASS', 'single', 51.5, 0],
+      ['FIRST_CLASS', 'single', 85.8, 34.3],
+      ['SECOND_CLASS', 'return', 100.5, 49]
+    ]);
+    expect(options.map((option) => option.isCheapest)).toEqual([true, false, false]);
+    expect(options[0]).toMatchObject({ perAdultInEuros: 24.5, perChildInEuros: 2.5, discountInEuros: 0, discountExplanation: undefined });
+  });
+
+  it('explains the joint journey discount', () => {
+    const single = variant('SECOND_CLASS', 'single');
+    const joint = variant('SECOND_CLASS', 'single', true);
+
+    const { options } = FareComparer.compare(group, [
+      { variant: single, prices: [price(single)] },
+      { variant: joint, prices: [price(joint, 40, { productId: 'SAMENREISKORTING' })] }
+    ]);
+
+    expect(options[0]).toMatchObject({
+      isJointJourney: true,
+      isCheapest: true,
+      totalInEuros: 31.9,
+      discountInEuros: 19.6,
+      discountExplanation: '€19.60 off the full fare of €51.50: 40% discount for travelling together (joint journey discount)'
+    });
+    expect(options[1]).toMatchObject({ isJointJourney: false, aboveCheapestInEuros: 19.6 });
+  });
+
+  it('leaves out joint journey prices no different from the regular price', () => {
+    const single = variant('SECOND_CLASS', 'single');
+    const joint = variant('SECOND_CLASS', 'single', true);
+
+    const { options } = FareComparer.compare(group, [
+      { variant: single, prices: [price(single)] },
+      { variant: joint, prices: [price(joint)] }
+    ]);
+
+    expect(options).toHaveLength(1);
+    expect(options[0].isJointJourney).toBe(false);
+  });
+
+  it('keeps only the prices in the class asked for', () => {
+    const first = variant('FIRST_CLASS', 'single');
+
+    const { options } = FareComparer.compare(group, [
+      { variant: first, prices: [price(first), price(variant('SECOND_CLASS', 'single'))] }
+    ]);
+
+    expect(options.map((option) => option.travelClass)).toEqual(['FIRST_CLASS']);
+  });
+
+  it('lists NS best option first among equal prices, then second class', () => {
+    const single = variant('SECOND_CLASS', 'single');
+    const first = variant('FIRST_CLASS', 'single');
+
+    const { options } = FareComparer.compare(group, [
+      { variant: first, prices: [price(first, 0, { totalPriceInCents: 5150 })] },
+      { variant: single, prices: [price(single, 0, { productId: 'OTHER', isBestOption: false }), price(single)] }
+    ]);
+
+    expect(options.map((option) => [option.travelClass, option.productId])).toEqual([
+      ['SECOND_CLASS', 'ENKELE_REIS'],
+      ['FIRST_CLASS', 'ENKELE_REIS'],
+      ['SECOND_CLASS', 'OTHER']
+    ]);
+    expect(options.every((option) => option.isCheapest)).toBe(true);
+  });
+
+  it('lists the variants NS could not price', () => {
+    const single = variant('SECOND_CLASS', 'single');
+    const first = variant('FIRST_CLASS', 'return');
+
+    const comparison = FareComparer.compare(group, [
+      { variant: single, prices: [price(single)] },
+      { variant: first, reason: 'Request failed with status code 404' }
+    ]);
+
+    expect(comparison).toMatchObject({ ...group, unavailable: [{ ...first, reason: 'Request failed with status code 404' }] });
+    expect(comparison.options).toHaveLength(1);
+  });
+});
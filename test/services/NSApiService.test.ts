@@ -0,0 +1,201 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { NSApiService } from '../../src/services/NSApiService.js';
+import { TravelAdviceSchema } from '../../src/schemas/responses.js';
+import { TravelAdvice } from '../../src/types.js';
+
+// Trips v3 response with a trip with a transfer, a door-to-door trip with walking
+// and cycling legs, and a cancelled trip with a replacement bus
+const advice: TravelAdvice = JSON.parse(readFileSync(new URL('../fixtures/trips-v3.json', import.meta.url), 'utf8'));
+const [transferTrip, doorToDoorTrip, cancelledTrip] = advice.trips;
+
+describe('trips v3 fixture', () => {
+  it('matches the response schema', () => {
+    expect(TravelAdviceSchema.safeParse(advice).success).toBe(true);
+  });
+});
+
+describe('NSApiService.normaliseTrip', () => {
+  it('maps the trip fields', () => {
+    const trip = NSApiService.normaliseTrip(transferTrip);
+
+    expect(trip).toMatchObject({
+      uid: transferTrip.uid,
+      ctxRecon: transferTrip.ctxRecon,
+      status: 'NORMAL',
+      optimal: false,
+      plannedDurationInMinutes: 79,
+      actualDurationInMinutes: 82,
+      transfers: 1,
+      crowdForecast: 'HIGH',
+      punctuality: 79.5,
+      fareInCents: 2450,
+      shareUrl: 'https://www.ns.nl/rpx?ctx=arnu%7CfromStation%3D8400058%7CtoStation%3D8400206'
+    });
+    expect(trip.legs).toHaveLength(2);
+  });
+
+  it('takes departure and arrival from the first and last leg', () => {
+    const trip = NSApiService.normaliseTrip(transferTrip);
+
+    expect(trip.departure).toMatchObject({ name: 'Amsterdam Centraal', plannedDeparture: '2025-10-14T08:07:00+0200', plannedTrack: '5b' });
+    expect(trip.arrival).toMatchObject({ name: 'Eindhoven Centraal', plannedArrival: '2025-10-14T09:26:00+0200', delayMinutes: 3 });
+  });
+
+  it('lists each trip message once', () => {
+    expect(NSApiService.normaliseTrip(transferTrip).messages).toEqual(['Werkzaamheden Utrecht - Den Bosch']);
+    expect(NSApiService.normaliseTrip(cancelledTrip).messages).toEqual(['Deze reis is niet mogelijk']);
+  });
+
+  it('defaults missing optional fields', () => {
+    const trip = NSApiService.normaliseTrip(doorToDoorTrip);
+
+    expect(trip.actualDurationInMinutes).toBe(53);
+    expect(trip.fareInCents).toBeUndefined();
+    expect(trip.shareUrl).toBeUndefined();
+    expect(trip.messages).toEqual([]);
+  });
+
+  it('counts transfers between rides only when NS leaves them out', () => {
+    expect(NSApiService.normaliseTrip(cancelledTrip).transfers).toBe(1);
+    const { transfers, ...withoutCount } = doorToDoorTrip;
+    expect(NSApiService.normaliseTrip(withoutCount).transfers).toBe(0);
+  });
+});
+
+describe('NSApiService.normaliseTrip legs', () => {
+  it('maps a train leg', () => {
+    const [leg] = NSApiService.normaliseTrip(transferTrip).legs;
+
+    expect(leg).toMatchObject({
+      index: 0,
+      mode: 'TRAIN',
+      name: 'IC 3529',
+      category: 'NS Intercity',
+      trainNumber: '3529',
+      operator: 'NS',
+      direction: 'Nijmegen',
+      cancelled: false,
+      alternativeTransport: false,
+      crowdForecast: 'MEDIUM',
+      punctuality: 88.2,
+      crossPlatformTransfer: true,
+      changePossible: true
+    });
+  });
+
+  it('merges leg and product notes and deduplicates messages', () => {
+    const [leg] = NSApiService.normaliseTrip(transferTrip).legs;
+
+    expect(leg.notes).toEqual(['Reserveren niet mogelijk', 'Toegankelijk voor rolstoelen', 'Stiltecoupé']);
+    expect(leg.transferMessages).toEqual(['Overstap op zelfde perron']);
+  });
+
+  it('uses the actual time and track at the leg ends', () => {
+    const [leg] = NSApiService.normaliseTrip(transferTrip).legs;
+
+    expect(leg.origin).toEqual({
+      name: 'Amsterdam Centraal',
+      uicCode: '8400058',
+      countryCode: 'NL',
+      plannedDeparture: '2025-10-14T08:07:00+0200',
+      actualDeparture: '2025-10-14T08:07:00+0200',
+      plannedArrival: undefined,
+      actualArrival: undefined,
+      plannedTrack: '5b',
+      actualTrack: '5b',
+      delayMinutes: 0,
+      cancelled: false,
+      passing: false
+    });
+    expect(leg.destination).toMatchObject({
+      plannedArrival: '2025-10-14T08:34:00+0200',
+      actualArrival: '2025-10-14T08:37:00+0200',
+      plannedTrack: '7',
+      actualTrack: '5',
+      delayMinutes: 3
+    });
+  });
+
+  it('gives walking legs their mode and no train number', () => {
+    const [walk] = NSApiService.normaliseTrip(doorToDoorTrip).legs;
+
+    expect(walk).toMatchObject({ mode: 'WALK', name: 'Lopen', trainNumber: undefined, crossPlatformTransfer: false });
+    expect(walk.origin).toMatchObject({ name: 'Prins Hendrikkade 33', uicCode: undefined, delayMinutes: 0 });
+    expect(walk.intermediateStops).toEqual([]);
+  });
+
+  it('takes the mode of cycling legs without a product from the travel type', () => {
+    const bike = NSApiService.normaliseTrip(doorToDoorTrip).legs[2];
+
+    expect(bike).toMatchObject({
+      index: 2,
+      mode: 'BIKE',
+      category: undefined,
+      operator: undefined,
+      changePossible: true,
+      alternativeTransport: false,
+      notes: [],
+      transferMessages: []
+    });
+    expect(bike.destination).toMatchObject({ name: 'Heidelberglaan 8, Utrecht', plannedArrival: '2025-10-14T09:14:00+0200' });
+  });
+
+  it('marks cancelled legs and their ends, and replacement transport', () => {
+    const [cancelled, bus] = NSApiService.normaliseTrip(cancelledTrip).legs;
+
+    expect(cancelled).toMatchObject({ cancelled: true, changePossible: false, notes: ['Trein rijdt niet'] });
+    expect(cancelled.origin.cancelled).toBe(true);
+    expect(cancelled.destination.cancelled).toBe(true);
+    expect(bus).toMatchObject({ mode: 'BUS', trainNumber: undefined, alternativeTransport: true, cancelled: false });
+  });
+});
+
+describe('NSApiService.normaliseTrip stops', () => {
+  it('leaves out the leg ends and passing stops', () => {
+    const [first, second] = NSApiService.normaliseTrip(transferTrip).legs;
+
+    expect(first.intermediateStops.map((stop) => stop.name)).toEqual(['Amsterdam Amstel']);
+    expect(second.intermediateStops.map((stop) => stop.name)).toEqual(["'s-Hertogenbosch"]);
+  });
+
+  it('takes the delay from the departure delay in seconds', () => {
+    const [stop] = NSApiService.normaliseTrip(transferTrip).legs[0].intermediateStops;
+
+    expect(stop).toEqual({
+      name: 'Amsterdam Amstel',
+      uicCode: '8400057',
+      countryCode: 'NL',
+      plannedArrival: '2025-10-14T08:15:00+0200',
+      actualArrival: '2025-10-14T08:16:00+0200',
+      plannedDeparture: '2025-10-14T08:15:00+0200',
+      actualDeparture: '2025-10-14T08:17:00+0200',
+      plannedTrack: '3',
+      actualTrack: '3',
+      delayMinutes: 2,
+      cancelled: false,
+      passing: false
+    });
+  });
+
+  it('computes the delay from the times when NS gives no delay, and keeps track changes', () => {
+    const [stop] = NSApiService.normaliseTrip(transferTrip).legs[1].intermediateStops;
+
+    expect(stop).toMatchObject({ plannedTrack: '3', actualTrack: '6', delayMinutes: 3 });
+  });
+
+  it('falls back to planned times and tracks for cancelled stops', () => {
+    const [stop] = NSApiService.normaliseTrip(cancelledTrip).legs[0].intermediateStops;
+
+    expect(stop).toMatchObject({
+      name: 'Amsterdam Amstel',
+      actualArrival: '2025-10-14T08:45:00+0200',
+      actualDeparture: '2025-10-14T08:45:00+0200',
+      plannedTrack: '3',
+      actualTrack: '3',
+      delayMinutes: 0,
+      cancelled: true,
+      passing: false
+    });
+  });
+});
@@ -0,0 +1,87 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OVFietsAvailability } from '../../src/services/OVFietsAvailability.js';
+import { OpeningHours } from '../../src/types.js';
+
+// NS numbers days from 1 for Monday to 7 for Sunday
+function hours(dayOfWeek: number, startTime: string, endTime: string, closesNextDay = false): OpeningHours {
+  return { dayOfWeek, startTime, endTime, closesNextDay };
+}
+
+// Monday to Saturday until midnight, Sunday from 07:00 until 01:00 on Monday
+const station = {
+  openingHours: [
+    ...[1, 2, 3, 4, 5, 6].map((day) => hours(day, '06:00', '24:00')),
+    hours(7, '07:00', '01:00', true)
+  ]
+};
+
+// Times are Amsterdam time in October 2025: Saturday 18, Sunday 19, Monday 20
+const isOpenAt = (location: Parameters<typeof OVFietsAvailability.isOpenAt>[0], at: string) =>
+  OVFietsAvailability.isOpenAt(location, new Date(at));
+
+describe('OVFietsAvailability.isOpenAt', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('is open between the opening and closing time of the day', () => {
+    expect(isOpenAt(station, '2025-10-20T05:59:00+02:00')).toBe(false);
+    expect(isOpenAt(station, '2025-10-20T06:00:00+02:00')).toBe(true);
+    expect(isOpenAt(station, '2025-10-20T23:59:00+02:00')).toBe(true);
+  });
+
+  it('closes at midnight unless the hours close the next day', () => {
+    expect(isOpenAt(station, '2025-10-18T23:59:00+02:00')).toBe(true);
+    expect(isOpenAt(station, '2025-10-19T00:00:00+02:00')).toBe(false);
+    expect(isOpenAt(station, '2025-10-19T00:30:00+02:00')).toBe(false);
+  });
+
+  it('reads Sunday as day 7', () => {
+    expect(isOpenAt(station, '2025-10-19T06:59:00+02:00')).toBe(false);
+    expect(isOpenAt(station, '2025-10-19T07:00:00+02:00')).toBe(true);
+    expect(isOpenAt({ openingHours: [hours(0, '00:00', '24:00')] }, '2025-10-19T12:00:00+02:00')).toBe(false);
+  });
+
+  it('stays open past midnight into Monday when Sunday closes the next day', () => {
+    expect(isOpenAt(station, '2025-10-19T23:59:00+02:00')).toBe(true);
+    expect(isOpenAt(station, '2025-10-20T00:00:00+02:00')).toBe(true);
+    expect(isOpenAt(station, '2025-10-20T00:59:00+02:00')).toBe(true);
+    expect(isOpenAt(station, '2025-10-20T01:00:00+02:00')).toBe(false);
+  });
+
+  it('does not carry Saturday into Sunday or Sunday into Tuesday', () => {
+    const lateSunday = { openingHours: [hours(7, '22:00', '02:00', true)] };
+
+    expect(isOpenAt(lateSunday, '2025-10-19T01:00:00+02:00')).toBe(false);
+    expect(isOpenAt(lateSunday, '2025-10-20T01:00:00+02:00')).toBe(true);
+    expect(isOpenAt(lateSunday, '2025-10-21T01:00:00+02:00')).toBe(false);
+  });
+
+  it('uses the Amsterdam day and time, not UTC', () => {
+    // Sunday 23:30 in UTC is already Monday 01:30 in Amsterdam
+    expect(isOpenAt(station, '2025-10-19T23:30:00Z')).toBe(false);
+    // Sunday 22:30 in UTC is Monday 00:30 in Amsterdam
+    expect(isOpenAt(station, '2025-10-19T22:30:00Z')).toBe(true);
+  });
+
+  it('is open all day with hours from 00:00 to 24:00', () => {
+    const allDay = { openingHours: [hours(1, '00:00', '24:00')] };
+
+    expect(isOpenAt(allDay, '2025-10-20T00:00:00+02:00')).toBe(true);
+    expect(isOpenAt(allDay, '2025-10-20T23:59:59+02:00')).toBe(true);
+    expect(isOpenAt(allDay, '2025-10-21T00:00:00+02:00')).toBe(false);
+  });
+
+  it('ignores opening hours it cannot read', () => {
+    expect(isOpenAt({ openingHours: [hours(1, 'morning', '24:00')] }, '2025-10-20T12:00:00+02:00')).toBe(false);
+  });
+
+  it('uses the open flag without opening hours, but only for now', () => {
+    vi.useFakeTimers({ now: new Date('2025-10-20T12:00:00+02:00') });
+
+    expect(isOpenAt({ open: 'Yes' }, '2025-10-20T12:04:00+02:00')).toBe(true);
+    expect(isOpenAt({ open: 'No', openingHours: [] }, '2025-10-20T12:00:00+02:00')).toBe(false);
+    expect(isOpenAt({ open: 'Yes' }, '2025-10-20T18:00:00+02:00')).toBeUndefined();
+    expect(isOpenAt({ open: 'Unknown' }, '2025-10-20T12:00:00+02:00')).toBeUndefined();
+  });
+});
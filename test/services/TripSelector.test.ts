@@ -0,0 +1,126 @@
+import { readFileSync } from 'fs';
+import { describe, expect, it } from 'vitest';
+import { TripSelector } from '../../src/services/TripSelector.js';
+import { CrowdForecast, Price, TravelAdvice, TravelAdviceTrip } from '../../src/types.js';
+
+const advice: TravelAdvice = JSON.parse(readFileSync(new URL('../fixtures/trips-v3.json', import.meta.url), 'utf8'));
+// 79 (82) minutes with a transfer, 53 minutes door to door, and 80 minutes with a replacement bus
+const [transferTrip, doorToDoorTrip, cancelledTrip] = advice.trips;
+
+function price(totalPriceInCents: number, changes: Partial<Price> = {}): Price {
+  return {
+    totalPriceInCents,
+    pricePerAdultInCents: totalPriceInCents,
+    discountInCents: 0,
+    operatorName: 'NS',
+    discountType: 'NO_DISCOUNT',
+    travelClass: 'SECOND_CLASS',
+    displayName: 'Enkele reis',
+    conditionsHeader: '',
+    productId: 'ENKELE_REIS',
+    isBestOption: false,
+    pricePerChildInCents: 0,
+    validity: { label: 'Geldig', value: 'vandaag' },
+    conditionsList: [],
+    ...changes
+  };
+}
+
+function trip(base: TravelAdviceTrip, euros?: number, crowdForecast?: CrowdForecast): TravelAdviceTrip {
+  return { ...base, price: euros === undefined ? undefined : price(euros * 100), crowdForecast };
+}
+
+// Positions in the fixture of the trips selected
+const order = (trips: TravelAdviceTrip[]) => trips.map((selected) => advice.trips.findIndex((candidate) => candidate.uid === selected.uid));
+
+describe('TripSelector.priceRequest', () => {
+  it('prices a trip from its first to its last leg', () => {
+    expect(TripSelector.priceRequest(transferTrip)).toEqual({
+      fromStation: 'ASD',
+      toStation: 'EHV',
+      routeId: '8400058|8400206|0',
+      plannedDepartureTime: '2025-10-14T08:07:00+0200',
+      plannedArrivalTime: '2025-10-14T09:26:00+0200'
+    });
+  });
+
+  it('prices a door-to-door trip between its first and last ride, without the walk and bike ride', () => {
+    expect(TripSelector.priceRequest(doorToDoorTrip)).toEqual({
+      fromStation: 'ASD',
+      toStation: 'UT',
+      routeId: '8400058|8400621|0',
+      plannedDepartureTime: '2025-10-14T08:21:00+0200',
+      plannedArrivalTime: '2025-10-14T09:02:00+0200'
+    });
+  });
+
+  it('includes a replacement bus', () => {
+    expect(TripSelector.priceRequest(cancelledTrip)).toMatchObject({
+      fromStation: 'ASD',
+      plannedArrivalTime: '2025-10-14T10:27:00+0200'
+    });
+  });
+
+  it('has nothing to price for a trip without a ride', () => {
+    expect(TripSelector.priceRequest({ ...doorToDoorTrip, legs: [doorToDoorTrip.legs[0]] })).toBeUndefined();
+  });
+});
+
+describe('TripSelector.pickPrice', () => {
+  it('picks the price NS recommends in the class asked for', () => {
+    const prices = [price(2450), price(2200, { isBestOption: true }), price(4165, { travelClass: 'FIRST_CLASS', isBestOption: true })];
+
+    expect(TripSelector.pickPrice(prices, 'SECOND_CLASS')?.totalPriceInCents).toBe(2200);
+    expect(TripSelector.pickPrice(prices, 'FIRST_CLASS')?.totalPriceInCents).toBe(4165);
+  });
+
+  it('falls back to the cheapest price in the class', () => {
+    expect(TripSelector.pickPrice([price(2450), price(1960)], 'SECOND_CLASS')?.totalPriceInCents).toBe(1960);
+    expect(TripSelector.pickPrice([price(2450)], 'FIRST_CLASS')).toBeUndefined();
+  });
+});
+
+describe('TripSelector.select', () => {
+  const trips = [trip(transferTrip, 24.5, 'HIGH'), trip(doorToDoorTrip, 18.2, 'LOW'), trip(cancelledTrip, undefined, 'MEDIUM')];
+
+  it('keeps the order of departure by default', () => {
+    expect(order(TripSelector.select(trips, {}))).toEqual([0, 1, 2]);
+    expect(order(TripSelector.select(trips, { sortBy: 'departure' }))).toEqual([0, 1, 2]);
+  });
+
+  it('sorts by price, with unknown prices last', () => {
+    expect(order(TripSelector.select(trips, { sortBy: 'price' }))).toEqual([1, 0, 2]);
+  });
+
+  it('sorts by actual duration', () => {
+    expect(order(TripSelector.select(trips, { sortBy: 'duration' }))).toEqual([1, 2, 0]);
+  });
+
+  it('sorts by transfers, keeping equal trips in order of departure', () => {
+    expect(order(TripSelector.select(trips, { sortBy: 'transfers' }))).toEqual([1, 0, 2]);
+  });
+
+  it('sorts by crowding, with unknown crowding last', () => {
+    expect(order(TripSelector.select(trips, { sortBy: 'crowd' }))).toEqual([1, 2, 0]);
+    expect(order(TripSelector.select([trip(transferTrip, 24.5), trips[1]], { sortBy: 'crowd' }))).toEqual([1, 0]);
+  });
+
+  it('leaves out trips over the price, keeping trips without a price', () => {
+    expect(order(TripSelector.select(trips, { maxPriceInEuros: 20 }))).toEqual([1, 2]);
+    expect(order(TripSelector.select(trips, { maxPriceInEuros: 24.5 }))).toEqual([0, 1, 2]);
+  });
+
+  it('leaves out trips over the duration, including delays', () => {
+    expect(order(TripSelector.select(trips, { maxDurationInMinutes: 80 }))).toEqual([1, 2]);
+  });
+
+  it('leaves out trips busier than allowed, keeping trips with unknown crowding', () => {
+    expect(order(TripSelector.select(trips, { maxCrowdForecast: 'MEDIUM' }))).toEqual([1, 2]);
+    expect(order(TripSelector.select([trip(transferTrip, 24.5, 'UNKNOWN'), trips[1]], { maxCrowdForecast: 'LOW' }))).toEqual([0, 1]);
+  });
+
+  it('filters and sorts together', () => {
+    expect(order(TripSelector.select(trips, { maxCrowdForecast: 'MEDIUM', sortBy: 'duration' }))).toEqual([1, 2]);
+    expect(order(TripSelector.select(trips, { maxPriceInEuros: 30, maxDurationInMinutes: 60, sortBy: 'price' }))).toEqual([1]);
+  });
+});
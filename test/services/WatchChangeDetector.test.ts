@@ -0,0 +1,121 @@
+import { describe, expect, it } from 'vitest';
+import { WatchChangeDetector } from '../../src/services/WatchChangeDetector.js';
+import { WatchedDeparture, WatchSnapshot } from '../../src/types.js';
+
+const detectedAt = '2025-10-14T08:10:00+02:00';
+const empty: WatchSnapshot = { disruptions: {}, departures: {} };
+
+const works = { title: 'Werkzaamheden Utrecht - Den Bosch', phase: 'Verwacht', timespans: ['14 okt 20:00 - 16 okt 05:00: geen treinen'] };
+
+function departure(changes: Partial<WatchedDeparture> = {}): WatchedDeparture {
+  return { description: 'IC 3529 to Nijmegen at 08:43', delayMinutes: 0, plannedTrack: '5', track: '5', cancelled: false, ...changes };
+}
+
+function compare(previous: WatchSnapshot, current: WatchSnapshot) {
+  return WatchChangeDetector.compare(previous, current, detectedAt);
+}
+
+describe('WatchChangeDetector disruptions', () => {
+  it('reports new disruptions with their period', () => {
+    const { changes } = compare(empty, { disruptions: { '7001': works }, departures: {} });
+
+    expect(changes).toEqual([{
+      type: 'DISRUPTION_NEW',
+      detectedAt,
+      message: 'New disruption: Werkzaamheden Utrecht - Den Bosch (14 okt 20:00 - 16 okt 05:00: geen treinen)'
+    }]);
+  });
+
+  it('tells disruptions apart by id, not by title', () => {
+    const { changes } = compare(
+      { disruptions: { '7001': works }, departures: {} },
+      { disruptions: { '7002': works }, departures: {} }
+    );
+
+    expect(changes.map((change) => change.type)).toEqual(['DISRUPTION_NEW', 'DISRUPTION_ENDED']);
+  });
+
+  it('reports a change of phase', () => {
+    const { changes } = compare(
+      { disruptions: { '7001': works }, departures: {} },
+      { disruptions: { '7001': { ...works, phase: 'Actueel' } }, departures: {} }
+    );
+
+    expect(changes).toEqual([
+      { type: 'DISRUPTION_UPDATED', detectedAt, message: 'Werkzaamheden Utrecht - Den Bosch is now actueel (was verwacht)' }
+    ]);
+  });
+
+  it('reports a change of period', () => {
+    const { changes } = compare(
+      { disruptions: { '7001': works }, departures: {} },
+      { disruptions: { '7001': { ...works, timespans: ['14 okt 20:00 - 17 okt 05:00: geen treinen'] } }, departures: {} }
+    );
+
+    expect(changes).toEqual([{
+      type: 'DISRUPTION_UPDATED',
+      detectedAt,
+      message: 'Disruption changed: Werkzaamheden Utrecht - Den Bosch (14 okt 20:00 - 17 okt 05:00: geen treinen)'
+    }]);
+  });
+
+  it('reports disruptions that ended', () => {
+    const { changes } = compare({ disruptions: { '7001': works }, departures: {} }, empty);
+
+    expect(changes).toEqual([{ type: 'DISRUPTION_ENDED', detectedAt, message: 'Disruption over: Werkzaamheden Utrecht - Den Bosch' }]);
+  });
+
+  it('reports nothing for an unchanged disruption', () => {
+    const snapshot = { disruptions: { '7001': works }, departures: {} };
+
+    expect(compare(snapshot, { disruptions: { '7001': { ...works } }, departures: {} }).changes).toEqual([]);
+  });
+});
+
+describe('WatchChangeDetector departures', () => {
+  const at = (changes?: Partial<WatchedDeparture>): WatchSnapshot => ({ disruptions: {}, departures: { '3529@08:43': departure(changes) } });
+
+  it('reports delays that changed by 3 minutes or more', () => {
+    expect(compare(at(), at({ delayMinutes: 5 })).changes).toEqual([
+      { type: 'DELAY', detectedAt, message: 'IC 3529 to Nijmegen at 08:43 now runs 5 min late (was on time)' }
+    ]);
+    expect(compare(at({ delayMinutes: 5 }), at({ delayMinutes: -1 })).changes[0].message)
+      .toBe('IC 3529 to Nijmegen at 08:43 now runs 1 min early (was 5 min late)');
+  });
+
+  it('lets small delay changes add up until they are worth reporting', () => {
+    const first = compare(at(), at({ delayMinutes: 2 }));
+    expect(first.changes).toEqual([]);
+    expect(first.snapshot.departures['3529@08:43'].delayMinutes).toBe(0);
+
+    const second = compare(first.snapshot, at({ delayMinutes: 4 }));
+    expect(second.changes.map((change) => change.message)).toEqual(['IC 3529 to Nijmegen at 08:43 now runs 4 min late (was on time)']);
+    expect(second.snapshot.departures['3529@08:43'].delayMinutes).toBe(4);
+  });
+
+  it('reports cancellations once', () => {
+    const cancelled = compare(at(), at({ cancelled: true }));
+    expect(cancelled.changes).toEqual([{ type: 'CANCELLED', detectedAt, message: 'IC 3529 to Nijmegen at 08:43 is cancelled' }]);
+
+    expect(compare(cancelled.snapshot, at({ cancelled: true, delayMinutes: 10 })).changes).toEqual([]);
+  });
+
+  it('reports departures that run again', () => {
+    expect(compare(at({ cancelled: true }), at({ delayMinutes: 6 })).changes).toEqual([
+      { type: 'RESTORED', detectedAt, message: 'IC 3529 to Nijmegen at 08:43 runs again, 6 min late' }
+    ]);
+  });
+
+  it('reports track changes against the last known track', () => {
+    expect(compare(at(), at({ track: '7' })).changes).toEqual([
+      { type: 'TRACK_CHANGE', detectedAt, message: 'IC 3529 to Nijmegen at 08:43 now uses track 7 (was 5)' }
+    ]);
+    expect(compare(at({ track: '7' }), at({ track: '7' })).changes).toEqual([]);
+  });
+
+  it('compares a new departure with its planned track and no delay', () => {
+    expect(compare(empty, at({ track: '8', delayMinutes: 1 })).changes).toEqual([
+      { type: 'TRACK_CHANGE', detectedAt, message: 'IC 3529 to Nijmegen at 08:43 now uses track 8 (was 5)' }
+    ]);
+  });
+});
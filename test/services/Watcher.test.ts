@@ -0,0 +1,144 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NSApiService } from '../../src/services/NSApiService.js';
+import { Watcher } from '../../src/services/Watcher.js';
+import { Departure, Watch } from '../../src/types.js';
+
+const HOUR = 60 * 60 * 1000;
+
+function departure(changes: Partial<Departure> = {}): Departure {
+  return {
+    direction: 'Nijmegen',
+    name: 'NS 3529',
+    plannedDateTime: '2025-10-14T08:43:00+0200',
+    plannedTimeZoneOffset: 120,
+    actualDateTime: '2025-10-14T08:43:00+0200',
+    actualTimeZoneOffset: 120,
+    plannedTrack: '5',
+    actualTrack: '5',
+    product: { number: '3529', shortCategoryName: 'IC' },
+    trainCategory: 'IC',
+    cancelled: false,
+    routeStations: [],
+    messages: [],
+    departureStatus: 'INCOMING',
+    ...changes
+  } as Departure;
+}
+
+// Only what a station watch asks NS for
+function fakeNS(departures: () => Departure[]): NSApiService {
+  return {
+    getDisruptions: async () => [],
+    getDepartures: async () => ({ payload: { source: 'PPV', departures: departures() } })
+  } as unknown as NSApiService;
+}
+
+function target(from: Date, until: Date): Omit<Watch, 'id' | 'createdAt' | 'recentChanges'> {
+  return {
+    kind: 'station',
+    description: 'Utrecht Centraal',
+    stations: [{ name: 'Utrecht Centraal', code: 'UT', uicCode: '8400621' }],
+    stationCode: 'UT',
+    from: from.toISOString(),
+    until: until.toISOString()
+  };
+}
+
+describe('Watcher persistence', () => {
+  let directory: string;
+  let file: string;
+  let watchers: Watcher[];
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ns-watches-'));
+    file = path.join(directory, 'state', 'watches.json');
+    watchers = [];
+  });
+
+  afterEach(async () => {
+    await Promise.all(watchers.map((watcher) => watcher.stop()));
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  async function startWatcher(nsApiService: NSApiService = fakeNS(() => [])): Promise<Watcher> {
+    const watcher = new Watcher(() => nsApiService, { file, pollIntervalMs: HOUR });
+    watchers.push(watcher);
+    await watcher.start();
+    return watcher;
+  }
+
+  it('restores watches and their owners after a restart', async () => {
+    const first = await startWatcher();
+    const now = Date.now();
+    const mine = await first.create(target(new Date(now + HOUR), new Date(now + 2 * HOUR)), 'client-a');
+    const theirs = await first.create(target(new Date(now + HOUR), new Date(now + 2 * HOUR)), 'client-b');
+    await first.stop();
+
+    const second = await startWatcher();
+
+    expect(second.list('client-a')).toEqual([mine]);
+    expect(second.find(theirs.id, 'client-b')).toEqual(theirs);
+    expect(second.find(theirs.id, 'client-a')).toBeUndefined();
+  });
+
+  it('drops watches whose period ended while it was stopped', async () => {
+    const now = Date.now();
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    const watch = (id: string, until: number): Watch => ({
+      ...target(new Date(now - 2 * HOUR), new Date(until)),
+      id,
+      createdAt: new Date(now - 2 * HOUR).toISOString(),
+      recentChanges: []
+    });
+    await fs.writeFile(file, JSON.stringify({ watches: [{ watch: watch('ended', now - HOUR) }, { watch: watch('active', now + HOUR) }] }));
+
+    const watcher = await startWatcher();
+
+    expect(watcher.list().map((saved) => saved.id)).toEqual(['active']);
+  });
+
+  it('compares the first check after a restart with the snapshot saved before it', async () => {
+    let departures = [departure()];
+    const nsApiService = fakeNS(() => departures);
+    const first = await startWatcher(nsApiService);
+    const watch = await first.create(target(new Date(Date.now() - HOUR), new Date(Date.now() + HOUR)));
+    await first.stop();
+
+    departures = [departure({ actualDateTime: '2025-10-14T08:51:00+0200', actualTrack: '7' })];
+    const second = await startWatcher(nsApiService);
+    const listener = vi.fn();
+    second.onChange(listener);
+    await second.poll();
+
+    expect(listener).toHaveBeenCalledTimes(1);
+    expect(listener.mock.calls[0][1].map((change: { message: string }) => change.message)).toEqual([
+      'IC 3529 to Nijmegen at 08:43 now runs 8 min late (was on time)',
+      'IC 3529 to Nijmegen at 08:43 now uses track 7 (was 5)'
+    ]);
+    expect(second.find(watch.id)?.recentChanges).toHaveLength(2);
+  });
+
+  it('starts without watches when the file cannot be read', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await fs.mkdir(path.dirname(file), { recursive: true });
+    await fs.writeFile(file, '{"watches": [');
+
+    const watcher = await startWatcher();
+
+    expect(watcher.list()).toEqual([]);
+    expect(error).toHaveBeenCalledWith('[Watcher] Failed to load saved watches, starting without', expect.any(SyntaxError));
+    error.mockRestore();
+  });
+
+  it('writes the file through a temporary file', async () => {
+    const watcher = await startWatcher();
+    await watcher.create(target(new Date(Date.now() + HOUR), new Date(Date.now() + 2 * HOUR)));
+    await watcher.stop();
+
+    expect(await fs.readdir(path.dirname(file))).toEqual(['watches.json']);
+    expect(JSON.parse(await fs.readFile(file, 'utf8')).watches).toHaveLength(1);
+  });
+});
@@ -0,0 +1,65 @@
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { CacheEntry } from '../../../src/services/cache/CacheStore.js';
+import { FileCacheStore } from '../../../src/services/cache/FileCacheStore.js';
+
+function entry(value: string, staleInMs = 90_000): CacheEntry<string> {
+  const now = Date.now();
+  return { value, storedAt: now, expiresAt: now + staleInMs, staleUntil: now + staleInMs };
+}
+
+describe('FileCacheStore', () => {
+  let directory: string;
+
+  beforeEach(async () => {
+    directory = await fs.mkdtemp(path.join(os.tmpdir(), 'ns-cache-'));
+  });
+
+  afterEach(async () => {
+    await fs.rm(directory, { recursive: true, force: true });
+  });
+
+  it('reads back entries, also from another store on the same directory', async () => {
+    await new FileCacheStore(directory).set('/departures?station=UT', entry('departures'));
+
+    expect((await new FileCacheStore(directory).get('/departures?station=UT'))?.value).toBe('departures');
+    expect(await new FileCacheStore(directory).get('/departures?station=ASD')).toBeUndefined();
+  });
+
+  it('leaves no temporary files behind', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('a', entry('a'));
+    await store.set('a', entry('b'));
+
+    const files = await fs.readdir(directory);
+    expect(files).toHaveLength(1);
+    expect(files[0]).toMatch(/^[0-9a-f]{64}\.json$/);
+  });
+
+  it('deletes entries past their stale window when read', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('a', entry('a', -1));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect(await fs.readdir(directory)).toEqual([]);
+  });
+
+  it('treats an unreadable entry as missing', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('a', entry('a'));
+    const [file] = await fs.readdir(directory);
+    await fs.writeFile(path.join(directory, file), '{', 'utf8');
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+
+  it('removes every entry on clear', async () => {
+    const store = new FileCacheStore(directory);
+    await store.set('a', entry('a'));
+    await store.clear();
+
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
@@ -0,0 +1,61 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CacheEntry } from '../../../src/services/cache/CacheStore.js';
+import { MemoryCacheStore } from '../../../src/services/cache/MemoryCacheStore.js';
+
+function entry(value: string): CacheEntry<string> {
+  const now = Date.now();
+  return { value, storedAt: now, expiresAt: now + 60_000, staleUntil: now + 90_000 };
+}
+
+describe('MemoryCacheStore', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-10-14T08:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('evicts the least recently stored entry when full', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.set('c', entry('c'));
+
+    expect(await store.get('a')).toBeUndefined();
+    expect((await store.get('b'))?.value).toBe('b');
+    expect((await store.get('c'))?.value).toBe('c');
+  });
+
+  it('counts a read as a use', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.get('a');
+    await store.set('c', entry('c'));
+
+    expect((await store.get('a'))?.value).toBe('a');
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('counts overwriting an entry as a use', async () => {
+    const store = new MemoryCacheStore(2);
+    await store.set('a', entry('a'));
+    await store.set('b', entry('b'));
+    await store.set('a', entry('a2'));
+    await store.set('c', entry('c'));
+
+    expect((await store.get('a'))?.value).toBe('a2');
+    expect(await store.get('b')).toBeUndefined();
+  });
+
+  it('drops entries past their stale window', async () => {
+    const store = new MemoryCacheStore();
+    await store.set('a', entry('a'));
+
+    vi.advanceTimersByTime(89_999);
+    expect((await store.get('a'))?.value).toBe('a');
+    vi.advanceTimersByTime(1);
+    expect(await store.get('a')).toBeUndefined();
+  });
+});
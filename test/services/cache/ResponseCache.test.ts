@@ -0,0 +1,131 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MemoryCacheStore } from '../../../src/services/cache/MemoryCacheStore.js';
+import { CachePolicy, ResponseCache } from '../../../src/services/cache/ResponseCache.js';
+
+const policy: CachePolicy = { ttlMs: 60_000, staleWhileRevalidateMs: 30_000 };
+
+// A fetch that only resolves when the test says so
+function deferred<T>(): { promise: Promise<T>; resolve: (value: T) => void } {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((done) => { resolve = done; });
+  return { promise, resolve };
+}
+
+describe('ResponseCache', () => {
+  let cache: ResponseCache;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-10-14T08:00:00Z') });
+    cache = new ResponseCache(new MemoryCacheStore());
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('builds the same key whatever the parameter order, without empty parameters', () => {
+    expect(ResponseCache.keyFor('/stations', { q: 'Utrecht', limit: 5, lang: undefined, country: '' }))
+      .toBe(ResponseCache.keyFor('/stations', { limit: 5, q: 'Utrecht' }));
+    expect(ResponseCache.keyFor('/stations', {})).toBe('/stations');
+  });
+
+  it('serves a hit inside the TTL without fetching', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce('first').mockResolvedValueOnce('second');
+    await cache.getOrFetch('/departures', { station: 'UT' }, policy, fetcher);
+    vi.advanceTimersByTime(59_000);
+
+    const { result, cache: events } = await ResponseCache.track(
+      () => cache.getOrFetch('/departures', { station: 'UT' }, policy, fetcher)
+    );
+
+    expect(result).toBe('first');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([{ endpoint: '/departures', status: 'hit', ageSeconds: 59, ttlSeconds: 60 }]);
+  });
+
+  it('serves the stale entry while refreshing it in the background', async () => {
+    await cache.getOrFetch('/departures', {}, policy, async () => 'old');
+    vi.advanceTimersByTime(70_000);
+    const refresh = deferred<string>();
+    const fetcher = vi.fn(() => refresh.promise);
+
+    const { result, cache: events } = await ResponseCache.track(() => cache.getOrFetch('/departures', {}, policy, fetcher));
+
+    expect(result).toBe('old');
+    expect(events[0]).toMatchObject({ status: 'stale', ageSeconds: 70 });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+
+    refresh.resolve('new');
+    await vi.waitFor(async () => {
+      expect(await cache.getOrFetch('/departures', {}, policy, fetcher)).toBe('new');
+    });
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps serving the stale entry when the background refresh fails', async () => {
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    await cache.getOrFetch('/departures', {}, policy, async () => 'old');
+    vi.advanceTimersByTime(70_000);
+
+    expect(await cache.getOrFetch('/departures', {}, policy, () => Promise.reject(new Error('NS down')))).toBe('old');
+    await vi.waitFor(() => expect(error).toHaveBeenCalled());
+    error.mockRestore();
+  });
+
+  it('refetches an entry past its stale window', async () => {
+    await cache.getOrFetch('/departures', {}, policy, async () => 'old');
+    vi.advanceTimersByTime(90_000);
+    const fetcher = vi.fn().mockResolvedValue('new');
+
+    const { result, cache: events } = await ResponseCache.track(() => cache.getOrFetch('/departures', {}, policy, fetcher));
+
+    expect(result).toBe('new');
+    expect(fetcher).toHaveBeenCalledTimes(1);
+    expect(events).toEqual([{ endpoint: '/departures', status: 'miss', ageSeconds: 0, ttlSeconds: 60 }]);
+  });
+
+  it('refetches an expired entry at once without a stale window', async () => {
+    const fetcher = vi.fn().mockResolvedValueOnce('old').mockResolvedValueOnce('new');
+    await cache.getOrFetch('/disruptions', {}, { ttlMs: 60_000 }, fetcher);
+    vi.advanceTimersByTime(60_000);
+
+    expect(await cache.getOrFetch('/disruptions', {}, { ttlMs: 60_000 }, fetcher)).toBe('new');
+    expect(fetcher).toHaveBeenCalledTimes(2);
+  });
+
+  it('sends concurrent requests for the same key to NS once', async () => {
+    const response = deferred<string>();
+    const fetcher = vi.fn(() => response.promise);
+
+    const requests = [
+      cache.getOrFetch('/trips', { fromStation: 'ASD' }, policy, fetcher),
+      cache.getOrFetch('/trips', { fromStation: 'ASD' }, policy, fetcher),
+      cache.getOrFetch('/trips', { fromStation: 'ASD' }, policy, fetcher)
+    ];
+    await vi.waitFor(() => expect(fetcher).toHaveBeenCalled());
+    response.resolve('trips');
+
+    expect(await Promise.all(requests)).toEqual(['trips', 'trips', 'trips']);
+    expect(fetcher).toHaveBeenCalledTimes(1);
+  });
+
+  it('fetches again after a concurrent request failed', async () => {
+    const fetcher = vi.fn().mockRejectedValueOnce(new Error('NS down')).mockResolvedValueOnce('trips');
+
+    await expect(cache.getOrFetch('/trips', {}, policy, fetcher)).rejects.toThrow('NS down');
+    expect(await cache.getOrFetch('/trips', {}, policy, fetcher)).toBe('trips');
+  });
+
+  it('bypasses the cache without a store or TTL', async () => {
+    const fetcher = vi.fn().mockResolvedValue('fresh');
+
+    const { cache: events } = await ResponseCache.track(async () => {
+      await new ResponseCache(null).getOrFetch('/prices', {}, policy, fetcher);
+      await cache.getOrFetch('/prices', {}, { ttlMs: 0 }, fetcher);
+      await cache.getOrFetch('/prices', {}, { ttlMs: 0 }, fetcher);
+    });
+
+    expect(fetcher).toHaveBeenCalledTimes(3);
+    expect(events.map((event) => event.status)).toEqual(['bypass', 'bypass', 'bypass']);
+  });
+});
@@ -0,0 +1,94 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CircuitBreaker } from '../../../src/services/http/CircuitBreaker.js';
+import { CircuitOpenError } from '../../../src/services/http/errors.js';
+
+class GatewayError extends Error {}
+class RejectedError extends Error {}
+
+const isFailure = (error: unknown) => error instanceof GatewayError;
+const fail = () => Promise.reject(new GatewayError('502'));
+const reject = () => Promise.reject(new RejectedError('400'));
+const succeed = () => Promise.resolve('ok');
+
+describe('CircuitBreaker', () => {
+  let breaker: CircuitBreaker;
+
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-10-14T08:00:00Z') });
+    breaker = new CircuitBreaker(3, 30_000);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  async function open(): Promise<void> {
+    for (let i = 0; i < 3; i++) {
+      await expect(breaker.execute(fail, isFailure)).rejects.toBeInstanceOf(GatewayError);
+    }
+  }
+
+  it('opens after the threshold of consecutive failures and then fails fast', async () => {
+    await open();
+    const fn = vi.fn(succeed);
+
+    const error = await breaker.execute(fn, isFailure).catch((caught) => caught);
+
+    expect(error).toBeInstanceOf(CircuitOpenError);
+    expect(error).toMatchObject({ consecutiveFailures: 3, retryAt: Date.now() + 30_000 });
+    expect(fn).not.toHaveBeenCalled();
+  });
+
+  it('only counts consecutive failures', async () => {
+    await expect(breaker.execute(fail, isFailure)).rejects.toThrow();
+    await expect(breaker.execute(fail, isFailure)).rejects.toThrow();
+    await breaker.execute(succeed, isFailure);
+    await expect(breaker.execute(fail, isFailure)).rejects.toThrow();
+    await expect(breaker.execute(fail, isFailure)).rejects.toThrow();
+
+    expect(await breaker.execute(succeed, isFailure)).toBe('ok');
+  });
+
+  it('does not count errors that are not failures', async () => {
+    for (let i = 0; i < 5; i++) {
+      await expect(breaker.execute(reject, isFailure)).rejects.toBeInstanceOf(RejectedError);
+    }
+
+    expect(await breaker.execute(succeed, isFailure)).toBe('ok');
+  });
+
+  it('lets a single trial request through once the reset timeout has passed', async () => {
+    await open();
+    vi.advanceTimersByTime(29_999);
+    await expect(breaker.execute(succeed, isFailure)).rejects.toBeInstanceOf(CircuitOpenError);
+    vi.advanceTimersByTime(1);
+
+    let finishTrial!: (value: string) => void;
+    const trial = breaker.execute(() => new Promise<string>((resolve) => { finishTrial = resolve; }), isFailure);
+    // Half-open: other requests fail fast while the trial is in progress
+    await expect(breaker.execute(succeed, isFailure)).rejects.toBeInstanceOf(CircuitOpenError);
+
+    finishTrial('ok');
+    expect(await trial).toBe('ok');
+    // Closed again
+    expect(await breaker.execute(succeed, isFailure)).toBe('ok');
+  });
+
+  it('opens again when the trial request fails', async () => {
+    await open();
+    vi.advanceTimersByTime(30_000);
+
+    await expect(breaker.execute(fail, isFailure)).rejects.toBeInstanceOf(GatewayError);
+
+    await expect(breaker.execute(succeed, isFailure)).rejects.toMatchObject({ retryAt: Date.now() + 30_000 });
+  });
+
+  it('closes when the trial request is answered with an error that is not a failure', async () => {
+    await open();
+    vi.advanceTimersByTime(30_000);
+
+    await expect(breaker.execute(reject, isFailure)).rejects.toBeInstanceOf(RejectedError);
+
+    expect(await breaker.execute(succeed, isFailure)).toBe('ok');
+  });
+});
@@ -0,0 +1,141 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RetryExhaustedError } from '../../../src/services/http/errors.js';
+import { RetryPolicy } from '../../../src/services/http/RetryPolicy.js';
+
+function httpError(status: number, headers: Record<string, string> = {}): AxiosError {
+  return new AxiosError(`Request failed with status code ${status}`, undefined, undefined, undefined, {
+    status,
+    headers
+  } as AxiosResponse);
+}
+
+const options = { maxRetries: 3, baseDelayMs: 1000, maxDelayMs: 4000, maxRetryAfterMs: 30_000 };
+
+describe('RetryPolicy.isRetryable', () => {
+  it('retries timeouts, network errors, 429 and 5xx', () => {
+    expect(RetryPolicy.isRetryable(new AxiosError('timeout', AxiosError.ECONNABORTED))).toBe(true);
+    expect(RetryPolicy.isRetryable(new AxiosError('socket hang up', AxiosError.ERR_NETWORK))).toBe(true);
+    expect(RetryPolicy.isRetryable(httpError(429))).toBe(true);
+    expect(RetryPolicy.isRetryable(httpError(500))).toBe(true);
+    expect(RetryPolicy.isRetryable(httpError(503))).toBe(true);
+  });
+
+  it('does not retry 4xx, cancelled requests or other errors', () => {
+    expect(RetryPolicy.isRetryable(httpError(400))).toBe(false);
+    expect(RetryPolicy.isRetryable(httpError(401))).toBe(false);
+    expect(RetryPolicy.isRetryable(httpError(404))).toBe(false);
+    expect(RetryPolicy.isRetryable(new AxiosError('canceled', AxiosError.ERR_CANCELED))).toBe(false);
+    expect(RetryPolicy.isRetryable(new Error('bug'))).toBe(false);
+  });
+});
+
+describe('RetryPolicy.execute', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-10-14T08:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('does not retry a 4xx response', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(404));
+
+    await expect(new RetryPolicy(options).execute(fn)).rejects.toMatchObject({ response: { status: 404 } });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  it('retries until a request succeeds', async () => {
+    const fn = vi.fn().mockRejectedValueOnce(httpError(502)).mockRejectedValueOnce(httpError(503)).mockResolvedValue('ok');
+
+    const result = new RetryPolicy(options).execute(fn);
+    await vi.runAllTimersAsync();
+
+    expect(await result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  it('gives up after the last retry', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(500));
+
+    const result = new RetryPolicy(options).execute(fn);
+    const failure = expect(result).rejects.toBeInstanceOf(RetryExhaustedError);
+    await vi.runAllTimersAsync();
+
+    await failure;
+    await expect(result).rejects.toMatchObject({ attempts: 4 });
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+
+  it('waits between no time and the doubled backoff, capped at the maximum', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(500));
+    const random = vi.spyOn(Math, 'random').mockReturnValue(0.9999);
+    const start = Date.now();
+
+    const policy = new RetryPolicy({ ...options, maxRetries: 4 });
+
+    const result = policy.execute(fn).catch(() => undefined);
+    // 1s doubled for every retry, the last one capped from 8s
+    for (const ceiling of [1000, 2000, 4000, 4000]) {
+      const calls = fn.mock.calls.length;
+      await vi.advanceTimersByTimeAsync(ceiling - 1);
+      expect(fn).toHaveBeenCalledTimes(calls);
+      await vi.advanceTimersByTimeAsync(1);
+      expect(fn).toHaveBeenCalledTimes(calls + 1);
+    }
+    await result;
+
+    random.mockReturnValue(0);
+    fn.mockClear();
+    const immediate = policy.execute(fn).catch(() => undefined);
+    await vi.runAllTimersAsync();
+    await immediate;
+    expect(fn).toHaveBeenCalledTimes(5);
+    expect(Date.now() - start).toBe(11_000);
+  });
+
+  it('waits at least as long as Retry-After in seconds', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValueOnce(httpError(429, { 'retry-after': '5' })).mockResolvedValue('ok');
+
+    const result = new RetryPolicy(options).execute(fn);
+    await vi.advanceTimersByTimeAsync(4999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await result).toBe('ok');
+    expect(fn).toHaveBeenCalledTimes(2);
+  });
+
+  it('waits until a Retry-After date', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const retryAt = new Date(Date.now() + 10_000).toUTCString();
+    const fn = vi.fn().mockRejectedValueOnce(httpError(503, { 'retry-after': retryAt })).mockResolvedValue('ok');
+
+    const result = new RetryPolicy(options).execute(fn);
+    await vi.advanceTimersByTimeAsync(9999);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await vi.advanceTimersByTimeAsync(1);
+
+    expect(await result).toBe('ok');
+  });
+
+  it('ignores an unreadable Retry-After', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const fn = vi.fn().mockRejectedValueOnce(httpError(503, { 'retry-after': 'soon' })).mockResolvedValue('ok');
+
+    const result = new RetryPolicy(options).execute(fn);
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(await result).toBe('ok');
+  });
+
+  it('gives up at once when Retry-After is longer than allowed', async () => {
+    const fn = vi.fn().mockRejectedValue(httpError(429, { 'retry-after': '120' }));
+
+    await expect(new RetryPolicy(options).execute(fn)).rejects.toMatchObject({ name: 'RetryExhaustedError', attempts: 1 });
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,74 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RateLimitExceededError } from '../../../src/services/http/errors.js';
+import { TokenBucket } from '../../../src/services/http/TokenBucket.js';
+
+describe('TokenBucket', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ now: new Date('2025-10-14T08:00:00Z') });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('starts with a tenth of the rate per minute as burst', () => {
+    const bucket = new TokenBucket(60);
+
+    for (let i = 0; i < 6; i++) {
+      expect(bucket.tryTake()).toBe(true);
+    }
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it('refills at the rate per minute, up to the burst', () => {
+    const bucket = new TokenBucket(60, 2);
+    bucket.tryTake();
+    bucket.tryTake();
+
+    vi.advanceTimersByTime(999);
+    expect(bucket.tryTake()).toBe(false);
+    vi.advanceTimersByTime(1);
+    expect(bucket.tryTake()).toBe(true);
+
+    vi.advanceTimersByTime(60_000);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(true);
+    expect(bucket.tryTake()).toBe(false);
+  });
+
+  it('makes take wait until a token is refilled', async () => {
+    const bucket = new TokenBucket(60, 1);
+    await bucket.take(0);
+    const taken = vi.fn();
+
+    const pending = bucket.take(5000).then(taken);
+    await vi.advanceTimersByTimeAsync(999);
+    expect(taken).not.toHaveBeenCalled();
+    await vi.advanceTimersByTimeAsync(1);
+    await pending;
+
+    expect(taken).toHaveBeenCalled();
+  });
+
+  it('queues concurrent takes in order', async () => {
+    const bucket = new TokenBucket(60, 1);
+    await bucket.take(0);
+    const order: number[] = [];
+
+    const pending = [1, 2, 3].map((n) => bucket.take(5000).then(() => order.push(n)));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(order).toEqual([1, 2]);
+    await vi.advanceTimersByTimeAsync(1000);
+    await Promise.all(pending);
+
+    expect(order).toEqual([1, 2, 3]);
+  });
+
+  it('refuses to wait longer than allowed', async () => {
+    const bucket = new TokenBucket(60, 1);
+    await bucket.take(0);
+
+    await expect(bucket.take(500)).rejects.toBeInstanceOf(RateLimitExceededError);
+    await expect(bucket.take(500)).rejects.toMatchObject({ requestsPerMinute: 60, retryAfterMs: 1000 });
+  });
+});
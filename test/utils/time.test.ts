@@ -0,0 +1,111 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { describe, expect, it } from 'vitest';
+import { parseToolArguments } from '../../src/schemas/tools.js';
+import { parseDateTime, toRfc3339 } from '../../src/utils/time.js';
+
+// Tuesday 14 October 2025, summer time
+const now = new Date('2025-10-14T10:00:00+02:00');
+
+function parse(input: string, at: Date = now): string | undefined {
+  const date = parseDateTime(input, at);
+  return date && toRfc3339(date);
+}
+
+describe('toRfc3339', () => {
+  it('uses the Amsterdam offset for winter and summer time', () => {
+    expect(toRfc3339(new Date('2025-01-31T07:15:00Z'))).toBe('2025-01-31T08:15:00+01:00');
+    expect(toRfc3339(new Date('2025-07-31T06:15:00Z'))).toBe('2025-07-31T08:15:00+02:00');
+  });
+
+  it('switches to summer time at 02:00 on the last Sunday of March', () => {
+    expect(toRfc3339(new Date('2025-03-30T00:59:59Z'))).toBe('2025-03-30T01:59:59+01:00');
+    expect(toRfc3339(new Date('2025-03-30T01:00:00Z'))).toBe('2025-03-30T03:00:00+02:00');
+  });
+
+  it('switches back to winter time at 03:00 on the last Sunday of October', () => {
+    expect(toRfc3339(new Date('2025-10-26T00:59:59Z'))).toBe('2025-10-26T02:59:59+02:00');
+    expect(toRfc3339(new Date('2025-10-26T01:00:00Z'))).toBe('2025-10-26T02:00:00+01:00');
+  });
+
+  it('drops milliseconds', () => {
+    expect(toRfc3339(new Date('2025-10-14T08:00:00.999Z'))).toBe('2025-10-14T10:00:00+02:00');
+  });
+});
+
+describe('parseDateTime', () => {
+  it('reads RFC3339 and local ISO timestamps', () => {
+    expect(parse('2025-01-31T08:15:00+01:00')).toBe('2025-01-31T08:15:00+01:00');
+    expect(parse('2025-01-31T07:15:00Z')).toBe('2025-01-31T08:15:00+01:00');
+    expect(parse('2025-01-31 08:15')).toBe('2025-01-31T08:15:00+01:00');
+    expect(parse('2025-07-31')).toBe('2025-07-31T00:00:00+02:00');
+  });
+
+  it('reads now and offsets from now', () => {
+    expect(parse('now')).toBe('2025-10-14T10:00:00+02:00');
+    expect(parse('in 30 minutes')).toBe('2025-10-14T10:30:00+02:00');
+    expect(parse('in half an hour')).toBe('2025-10-14T10:30:00+02:00');
+    expect(parse('2 hours from now')).toBe('2025-10-14T12:00:00+02:00');
+  });
+
+  it('reads "tomorrow 08:00" and other spellings of a time', () => {
+    expect(parse('tomorrow 08:00')).toBe('2025-10-15T08:00:00+02:00');
+    expect(parse('Tomorrow  at 8am')).toBe('2025-10-15T08:00:00+02:00');
+    expect(parse('tomorrow 17u30')).toBe('2025-10-15T17:30:00+02:00');
+    expect(parse('today at 5:15 pm')).toBe('2025-10-14T17:15:00+02:00');
+    expect(parse('tonight')).toBe('2025-10-14T20:00:00+02:00');
+    expect(parse('day after tomorrow morning')).toBe('2025-10-16T08:00:00+02:00');
+  });
+
+  it('takes tomorrow from the Amsterdam date, not the UTC date', () => {
+    // 00:30 on Wednesday in Amsterdam, still Tuesday in UTC
+    expect(parse('tomorrow 08:00', new Date('2025-10-14T22:30:00Z'))).toBe('2025-10-16T08:00:00+02:00');
+    expect(parse('tomorrow 08:00', new Date('2025-12-31T12:00:00+01:00'))).toBe('2026-01-01T08:00:00+01:00');
+  });
+
+  it('reads weekday names as the next such day, or today', () => {
+    expect(parse('friday 17:30')).toBe('2025-10-17T17:30:00+02:00');
+    expect(parse('monday morning')).toBe('2025-10-20T08:00:00+02:00');
+    expect(parse('this tuesday 18:00')).toBe('2025-10-14T18:00:00+02:00');
+    expect(parse('next tuesday 18:00')).toBe('2025-10-21T18:00:00+02:00');
+    expect(parse('Sunday noon')).toBe('2025-10-19T12:00:00+02:00');
+  });
+
+  it('uses the offset of the day asked for across the switch to summer time', () => {
+    const saturday = new Date('2025-03-29T12:00:00+01:00');
+
+    expect(parse('tomorrow 08:00', saturday)).toBe('2025-03-30T08:00:00+02:00');
+    expect(parse('tomorrow 01:30', saturday)).toBe('2025-03-30T01:30:00+01:00');
+    // 02:30 does not exist that night
+    expect(parse('tomorrow 02:30', saturday)).toBe('2025-03-30T03:30:00+02:00');
+    expect(parse('in 24 hours', saturday)).toBe('2025-03-30T13:00:00+02:00');
+  });
+
+  it('uses the offset of the day asked for across the switch to winter time', () => {
+    const saturday = new Date('2025-10-25T12:00:00+02:00');
+
+    expect(parse('tomorrow 08:00', saturday)).toBe('2025-10-26T08:00:00+01:00');
+    expect(parse('sunday 01:30', saturday)).toBe('2025-10-26T01:30:00+02:00');
+    expect(parse('in 24 hours', saturday)).toBe('2025-10-26T11:00:00+01:00');
+  });
+
+  it('returns undefined for text it does not understand or impossible dates and times', () => {
+    for (const input of ['', 'someday', 'tomorrow 25:00', 'tomorrow 13pm', 'friday 17:60', '2025-02-29', '2025-01-31T24:00', 'in many minutes']) {
+      expect(parseDateTime(input, now), input).toBeUndefined();
+    }
+  });
+});
+
+describe('dateTime arguments', () => {
+  it('are normalised to Amsterdam RFC3339', () => {
+    const args = parseToolArguments('get_travel_advice', { fromStation: 'ASD', toStation: 'UT', dateTime: '2025-01-31 08:15' });
+
+    expect(args.dateTime).toBe('2025-01-31T08:15:00+01:00');
+  });
+
+  it('are rejected with the formats that are understood', () => {
+    const call = () => parseToolArguments('get_travel_advice', { fromStation: 'ASD', toStation: 'UT', dateTime: 'someday' });
+
+    expect(call).toThrow(McpError);
+    expect(call).toThrow(/dateTime: could not read "someday" as a date and time\. Use RFC3339/);
+  });
+});